@@ -11,27 +11,69 @@ import {
     LinkSelectionContext,
     HeadingContext,
     QuoteContext,
+    BrokenLinkMark,
+    WikilinkContext,
+    TextReplacement,
+    MarkdownLinksSnapshot,
 } from './types';
 import { showToast, ToastType } from './utils/toastUtils';
 import { logger } from './logger';
-import { extractJoplinResourceId } from './utils/urlUtils';
+import { extractJoplinResourceId, parseJoplinUrl } from './utils/urlUtils';
+import { decodeUrlPath, parseCustomUrlSchemes } from './utils/customUrlSchemes';
 import {
     GET_CONTEXT_AT_CURSOR_COMMAND,
     BATCH_REPLACE_COMMAND,
     SCROLL_TO_POSITION_COMMAND,
+    GET_DOCUMENT_TEXT_COMMAND,
+    GET_LINKS_IN_DOCUMENT_COMMAND,
+    SET_BROKEN_LINKS_COMMAND,
+    GET_WIKILINKS_COMMAND,
+    GET_MARKDOWN_LINKS_COMMAND,
+    WRITE_RICH_CLIPBOARD_COMMAND,
 } from './contentScripts/contentScript';
 import { toggleCheckboxInLine } from './utils/checkboxUtils';
 import { getTaskTogglePlan } from './utils/taskToggleUtils';
 import {
     fetchLinkTitle,
-    buildTitleAttributeToken,
-    escapeMarkdownLinkText,
+    formatTitledLink,
     isFetchableLink,
     linkContextToLinkInfo,
+    parseLinkTitleRules,
+    summarizeLinkTitleProviders,
+    LinkTitleResult,
 } from './utils/linkTitleUtils';
+import { formatLinkText } from './utils/linkTextTemplate';
+import { createLinkTitleCacheTtl } from './utils/linkTitleCache';
+import { openLinkTitleCache, saveLinkTitleCache, clearLinkTitleCache } from './utils/linkTitleCacheStorage';
+import { runWithConcurrencyLimit } from './utils/concurrencyUtils';
 import { formatInternalHeadingLink, formatExternalHeadingLink } from './utils/headingLinkFormatting';
 import { settingsCache } from './settings';
 import { resolveContextualCopyTarget } from './utils/contextualCopyResolver';
+import { openLinkTitleRulesDialog } from './dialogs/linkTitleRulesDialog';
+import { reviewLinkTitles } from './dialogs/linkTitleReviewDialog';
+import { getCurrentLinkText, shouldReviewLinkTitles } from './utils/linkTitleReview';
+import { isStaleLinkText, parseLinkTitlePlaceholders } from './utils/linkTitleRefresh';
+import { applyTextReplacements, findUntitledLinks } from './utils/noteLinkScanner';
+import { getNotebookNoteIds, getNoteBody, NoteBody, putNoteBody } from './utils/joplinData';
+import { fetchJoplinLinkTitle } from './utils/joplinLinkTitles';
+import { checkLink, isBrokenLink } from './utils/linkChecker';
+import { buildLinkUrlReplacement, formatLinkDestination, getRedirectedUrl } from './utils/linkUrlRewrite';
+import { cleanUrl, parseTrackingParameters } from './utils/urlCleaning';
+import { showLinkCheckProgress, showLinkCheckResults } from './panels/linkCheckPanel';
+import { formatWikilinkAsJoplinLink } from './utils/wikilinks';
+import { formatLinkAsHtml, formatLinkAsMarkdown, getPlainLinkText } from './utils/linkCopyFormats';
+import { buildLinkEditReplacements, findLinkEditTarget, getLinkEditFields } from './utils/linkEditing';
+import { editLinkFields } from './dialogs/linkEditDialog';
+import { resolveWikilinks, WikilinkTarget } from './utils/wikilinkTargets';
+import { convertToInlineLinks, convertToReferenceLinks, parseReferenceLabelStyle } from './utils/linkStyleConversion';
+import {
+    buildLinkifyReplacement,
+    buildUnlinkifyReplacement,
+    isBareUrlLink,
+    isUnlinkifiableLink,
+    LinkifyMode,
+    UnlinkifyMode,
+} from './utils/linkify';
 
 /**
  * Registers all context menu commands
@@ -89,6 +131,71 @@ export async function registerCommands(): Promise<void> {
         },
     });
 
+    await joplin.commands.register({
+        name: COMMAND_IDS.COPY_DECODED_PATH,
+        label: 'Copy Path',
+        execute: async (linkContext: LinkContext) => {
+            try {
+                await handleCopyDecodedPath(linkContext);
+            } catch (error) {
+                logger.error('Failed to copy decoded path:', error);
+                await showToast('Failed to copy path', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.COPY_LINK_TEXT,
+        label: 'Copy Link Text',
+        execute: async (linkContext: LinkContext) => {
+            try {
+                await handleCopyLinkText(linkContext);
+            } catch (error) {
+                logger.error('Failed to copy link text:', error);
+                await showToast('Failed to copy link text', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.COPY_LINK_AS_MARKDOWN,
+        label: 'Copy Link as Markdown',
+        execute: async (linkContext: LinkContext) => {
+            try {
+                await handleCopyLinkAsMarkdown(linkContext);
+            } catch (error) {
+                logger.error('Failed to copy link as markdown:', error);
+                await showToast('Failed to copy link', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.COPY_LINK_AS_HTML,
+        label: 'Copy Link as HTML',
+        execute: async (linkContext: LinkContext) => {
+            try {
+                await handleCopyLinkAsHtml(linkContext);
+            } catch (error) {
+                logger.error('Failed to copy link as HTML:', error);
+                await showToast('Failed to copy link', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.COPY_LINK_AS_RICH_TEXT,
+        label: 'Copy Link as Rich Link',
+        execute: async (linkContext: LinkContext) => {
+            try {
+                await handleCopyLinkAsRichText(linkContext);
+            } catch (error) {
+                logger.error('Failed to copy rich link:', error);
+                await showToast('Failed to copy link', ToastType.Error);
+            }
+        },
+    });
+
     await joplin.commands.register({
         name: COMMAND_IDS.COPY_CODE,
         label: 'Copy Code',
@@ -167,6 +274,58 @@ export async function registerCommands(): Promise<void> {
         },
     });
 
+    await joplin.commands.register({
+        name: COMMAND_IDS.OPEN_WIKILINK,
+        label: 'Open Note',
+        execute: async (wikilinkContext: WikilinkContext) => {
+            try {
+                await handleOpenWikilink(wikilinkContext);
+            } catch (error) {
+                logger.error('Failed to open wikilink:', error);
+                await showToast('Failed to open note', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.PIN_WIKILINK_TO_TABS,
+        label: 'Open Note as Pinned Tab',
+        execute: async (wikilinkContext: WikilinkContext) => {
+            try {
+                await handlePinWikilinkToTabs(wikilinkContext);
+            } catch (error) {
+                logger.error('Failed to open wikilink as pinned tab:', error);
+                await showToast('Failed to open note as pinned tab (is Note Tabs installed?)', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CONVERT_WIKILINK,
+        label: 'Convert to Joplin Link',
+        execute: async (wikilinkContext: WikilinkContext) => {
+            try {
+                await handleConvertWikilinks([wikilinkContext]);
+            } catch (error) {
+                logger.error('Failed to convert wikilink:', error);
+                await showToast('Failed to convert wikilink', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CONVERT_ALL_WIKILINKS,
+        label: 'Convert All Wikilinks to Joplin Links',
+        execute: async () => {
+            try {
+                await handleConvertAllWikilinks();
+            } catch (error) {
+                logger.error('Failed to convert wikilinks:', error);
+                await showToast('Failed to convert wikilinks', ToastType.Error);
+            }
+        },
+    });
+
     await joplin.commands.register({
         name: COMMAND_IDS.FETCH_LINK_TITLES,
         label: 'Fetch Link Title(s)',
@@ -180,6 +339,123 @@ export async function registerCommands(): Promise<void> {
         },
     });
 
+    await joplin.commands.register({
+        name: COMMAND_IDS.RESOLVE_REDIRECTS,
+        label: 'Resolve Redirects',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleResolveRedirects(links);
+            } catch (error) {
+                logger.error('Failed to resolve redirects:', error);
+                await showToast('Failed to resolve redirects', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CLEAN_URLS,
+        label: 'Clean URL(s)',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleCleanUrls(links);
+            } catch (error) {
+                logger.error('Failed to clean URLs:', error);
+                await showToast('Failed to clean URLs', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.REFRESH_LINK_TITLES,
+        label: 'Refresh Link Titles',
+        execute: async () => {
+            try {
+                await handleRefreshLinkTitles(false);
+            } catch (error) {
+                logger.error('Failed to refresh link titles:', error);
+                await showToast('Failed to refresh link titles', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.FORCE_REFRESH_LINK_TITLES,
+        label: 'Force Refresh All Link Titles',
+        execute: async () => {
+            try {
+                await handleRefreshLinkTitles(true);
+            } catch (error) {
+                logger.error('Failed to refresh link titles:', error);
+                await showToast('Failed to refresh link titles', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.FETCH_LINK_TITLES_IN_NOTES,
+        label: 'Fetch Link Titles in Notes',
+        execute: async (noteIds?: string[]) => {
+            try {
+                await handleFetchLinkTitlesInNotes(noteIds ?? (await joplin.workspace.selectedNoteIds()));
+            } catch (error) {
+                logger.error('Failed to fetch link titles in notes:', error);
+                await showToast('Failed to fetch link titles in notes', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.FETCH_LINK_TITLES_IN_NOTEBOOK,
+        label: 'Fetch Link Titles in Notebook',
+        execute: async (folderId?: string) => {
+            try {
+                await handleFetchLinkTitlesInNotebook(folderId);
+            } catch (error) {
+                logger.error('Failed to fetch link titles in notebook:', error);
+                await showToast('Failed to fetch link titles in notebook', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CANCEL_FETCH_LINK_TITLES,
+        label: 'Cancel Fetching Link Titles',
+        execute: async () => {
+            try {
+                await handleCancelFetchLinkTitles();
+            } catch (error) {
+                logger.error('Failed to cancel link title fetch:', error);
+                await showToast('Failed to cancel link title fetch', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CLEAR_LINK_TITLE_CACHE,
+        label: 'Clear Link Title Cache',
+        execute: async () => {
+            try {
+                await handleClearLinkTitleCache();
+            } catch (error) {
+                logger.error('Failed to clear link title cache:', error);
+                await showToast('Failed to clear link title cache', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.EDIT_LINK_TITLE_RULES,
+        label: 'Edit Link Title Rules',
+        execute: async () => {
+            try {
+                await openLinkTitleRulesDialog();
+            } catch (error) {
+                logger.error('Failed to edit link title rules:', error);
+                await showToast('Failed to edit link title rules', ToastType.Error);
+            }
+        },
+    });
+
     await joplin.commands.register({
         name: COMMAND_IDS.COPY_HEADING_LINK_INTERNAL,
         label: 'Copy Heading Link (internal)',
@@ -219,6 +495,123 @@ export async function registerCommands(): Promise<void> {
         },
     });
 
+    await joplin.commands.register({
+        name: COMMAND_IDS.LINKIFY_AS_AUTOLINKS,
+        label: 'Linkify as <URL>',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleLinkify('autolink', links);
+            } catch (error) {
+                logger.error('Failed to linkify URLs:', error);
+                await showToast('Failed to linkify URLs', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.LINKIFY_WITH_URL_TEXT,
+        label: 'Linkify as [domain/path](URL)',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleLinkify('urlText', links);
+            } catch (error) {
+                logger.error('Failed to linkify URLs:', error);
+                await showToast('Failed to linkify URLs', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.LINKIFY_WITH_TITLE_RULES,
+        label: 'Linkify with Title Rules',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleLinkify('titleRules', links);
+            } catch (error) {
+                logger.error('Failed to linkify URLs:', error);
+                await showToast('Failed to linkify URLs', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.UNLINKIFY_TO_TEXT,
+        label: 'Unlinkify to Text',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleUnlinkify('text', links);
+            } catch (error) {
+                logger.error('Failed to unlinkify links:', error);
+                await showToast('Failed to unlinkify links', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.UNLINKIFY_TO_URL,
+        label: 'Unlinkify to URL',
+        execute: async (links?: LinkInfo[]) => {
+            try {
+                await handleUnlinkify('url', links);
+            } catch (error) {
+                logger.error('Failed to unlinkify links:', error);
+                await showToast('Failed to unlinkify links', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.EDIT_LINK,
+        label: 'Edit Link...',
+        execute: async (linkContext?: LinkContext) => {
+            try {
+                await handleEditLink(linkContext);
+            } catch (error) {
+                logger.error('Failed to edit link:', error);
+                await showToast('Failed to edit link', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CONVERT_TO_REFERENCE_LINKS,
+        label: 'Convert to Reference Links',
+        execute: async () => {
+            try {
+                await handleConvertLinkStyle('reference');
+            } catch (error) {
+                logger.error('Failed to convert to reference links:', error);
+                await showToast('Failed to convert links', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CONVERT_TO_INLINE_LINKS,
+        label: 'Convert to Inline Links',
+        execute: async () => {
+            try {
+                await handleConvertLinkStyle('inline');
+            } catch (error) {
+                logger.error('Failed to convert to inline links:', error);
+                await showToast('Failed to convert links', ToastType.Error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_IDS.CHECK_LINKS_IN_NOTE,
+        label: 'Check Links in Note',
+        execute: async () => {
+            try {
+                await handleCheckLinksInNote();
+            } catch (error) {
+                logger.error('Failed to check links:', error);
+                await showToast('Failed to check links', ToastType.Error);
+            }
+        },
+    });
+
     await joplin.commands.register({
         name: COMMAND_IDS.OPEN_ALL_LINKS_IN_SELECTION,
         label: 'Open All Links',
@@ -237,12 +630,25 @@ export async function registerCommands(): Promise<void> {
  * Unified "Open Link" handler
  * - External URLs: Open in browser
  * - Email links: Open in default mail client
+ * - Joplin URLs: Open the note, notebook or tag in Joplin
+ * - Other schemes: Open with the app registered for the scheme
  */
 async function handleOpenLink(linkContext: LinkContext): Promise<void> {
-    if (linkContext.type === LinkType.ExternalUrl || linkContext.type === LinkType.Email) {
+    if (
+        linkContext.type === LinkType.ExternalUrl ||
+        linkContext.type === LinkType.Email ||
+        linkContext.type === LinkType.CustomScheme
+    ) {
         // Use Joplin's built-in command to open external URL
         await joplin.commands.execute('openItem', linkContext.url);
         logger.debug('Opened external URL:', linkContext.url);
+    } else if (linkContext.type === LinkType.JoplinUrl) {
+        const target = parseJoplinUrl(linkContext.url);
+        if (!target) {
+            throw new Error(`Unsupported Joplin URL: ${linkContext.url}`);
+        }
+        await joplin.commands.execute(target.command, target.id);
+        logger.debug(`Opened Joplin URL with ${target.command}:`, target.id);
     } else {
         throw new Error(`Unsupported link type: ${linkContext.type}`);
     }
@@ -250,13 +656,17 @@ async function handleOpenLink(linkContext: LinkContext): Promise<void> {
 
 /**
  * Unified "Copy URL/Email" handler
- * - External URLs: Copy URL to clipboard
+ * - External URLs, Joplin URLs and other schemes: Copy URL to clipboard
  * - Email links: Copy email address to clipboard
  */
 async function handleCopyPath(linkContext: LinkContext): Promise<void> {
     let textToCopy: string;
 
-    if (linkContext.type === LinkType.ExternalUrl) {
+    if (
+        linkContext.type === LinkType.ExternalUrl ||
+        linkContext.type === LinkType.JoplinUrl ||
+        linkContext.type === LinkType.CustomScheme
+    ) {
         textToCopy = linkContext.url;
         logger.debug('Copying URL to clipboard:', textToCopy);
     } else if (linkContext.type === LinkType.Email) {
@@ -270,6 +680,78 @@ async function handleCopyPath(linkContext: LinkContext): Promise<void> {
     await showToast('Copied to clipboard', ToastType.Success);
 }
 
+/**
+ * "Copy Path" handler
+ * Copies the decoded path of a link with another URL scheme (e.g. the file
+ * system path of a `file://` link)
+ */
+async function handleCopyDecodedPath(linkContext: LinkContext): Promise<void> {
+    await joplin.clipboard.writeText(decodeUrlPath(linkContext.url));
+    await showToast('Copied to clipboard', ToastType.Success);
+    logger.debug('Copied decoded path of:', linkContext.url);
+}
+
+/**
+ * "Copy Link Text" handler
+ * Copies the text between the brackets of a markdown link, without backslash escapes
+ */
+async function handleCopyLinkText(linkContext: LinkContext): Promise<void> {
+    const text = linkContext.linkText ? getPlainLinkText(linkContext.linkText) : '';
+    if (!text) {
+        await showToast('Link has no text to copy', ToastType.Info);
+        return;
+    }
+
+    await joplin.clipboard.writeText(text);
+    await showToast('Link text copied to clipboard', ToastType.Success);
+    logger.debug('Copied link text:', text);
+}
+
+/**
+ * "Copy as Markdown" handler
+ * Copies the link as an inline markdown link (reference links are resolved to their URL)
+ */
+async function handleCopyLinkAsMarkdown(linkContext: LinkContext): Promise<void> {
+    const markdown = formatLinkAsMarkdown(linkContext);
+    await joplin.clipboard.writeText(markdown);
+    await showToast('Link copied to clipboard', ToastType.Success);
+    logger.debug('Copied link as markdown:', markdown);
+}
+
+/**
+ * "Copy as HTML" handler
+ * Copies the HTML source of the link (`<a href="...">text</a>`) as plain text
+ */
+async function handleCopyLinkAsHtml(linkContext: LinkContext): Promise<void> {
+    const html = formatLinkAsHtml(linkContext);
+    await joplin.clipboard.writeText(html);
+    await showToast('Link copied to clipboard', ToastType.Success);
+    logger.debug('Copied link as HTML:', html);
+}
+
+/**
+ * "Copy as Rich Link" handler
+ * Copies the link as HTML with the link text as its plain text alternative, so
+ * apps that accept formatted text paste a clickable title. Falls back to HTML
+ * only if the editor can't write both formats.
+ */
+async function handleCopyLinkAsRichText(linkContext: LinkContext): Promise<void> {
+    const html = formatLinkAsHtml(linkContext);
+    const text = (linkContext.linkText && getPlainLinkText(linkContext.linkText)) || linkContext.url;
+
+    const written = (await joplin.commands.execute('editor.execCommand', {
+        name: WRITE_RICH_CLIPBOARD_COMMAND,
+        args: [html, text],
+    })) as boolean | undefined;
+    if (!written) {
+        logger.warn('Rich clipboard write failed, copying HTML only');
+        await joplin.clipboard.writeHtml(html);
+    }
+
+    await showToast('Link copied to clipboard', ToastType.Success);
+    logger.debug('Copied rich link:', html);
+}
+
 /**
  * "Copy Code" handler
  * Copies code content to clipboard
@@ -324,7 +806,7 @@ async function handleCopyQuote(quoteContext: QuoteContext): Promise<void> {
 
 async function handleContextualCopy(): Promise<void> {
     const contexts = await getCurrentEditorContexts();
-    const target = resolveContextualCopyTarget(contexts);
+    const target = resolveContextualCopyTarget(contexts, parseCustomUrlSchemes(settingsCache.customUrlSchemes));
 
     if (!target) {
         await showToast('No contextual copy target found', ToastType.Info);
@@ -457,62 +939,240 @@ async function handlePinToTabs(linkContext: LinkContext): Promise<void> {
 }
 
 /**
- * "Add External Link" handler
- * Opens Joplin's built-in "Insert Link" dialog
+ * Resolves the note a wikilink points to, showing a toast if there is none
  */
-async function handleAddExternalLink(): Promise<void> {
-    await joplin.commands.execute('textLink');
-    logger.debug('Opened Add External Link dialog');
+async function resolveWikilinkOrNotify(wikilinkContext: WikilinkContext): Promise<WikilinkTarget | null> {
+    const [target] = await resolveWikilinks([wikilinkContext]);
+    if (!target) {
+        await showToast(`Note not found: ${wikilinkContext.noteTitle}`, ToastType.Error);
+        logger.warn('No note titled:', wikilinkContext.noteTitle);
+    }
+    return target;
 }
 
 /**
- * "Add Link to Note" handler
- * Opens Joplin's built-in "Link to Note" dialog
+ * "Open Note" handler for wikilinks
+ * Opens the note with the wikilink's title, scrolled to its heading if any
  */
-async function handleAddLinkToNote(): Promise<void> {
-    await joplin.commands.execute('linkToNote');
-    logger.debug('Opened Add Link to Note dialog');
-}
-
+async function handleOpenWikilink(wikilinkContext: WikilinkContext): Promise<void> {
+    const target = await resolveWikilinkOrNotify(wikilinkContext);
+    if (!target) {
+        return;
+    }
+
+    if (target.anchor) {
+        await joplin.commands.execute('openNote', target.id, target.anchor);
+    } else {
+        await joplin.commands.execute('openNote', target.id);
+    }
+    logger.debug('Opened wikilink target:', target.id);
+}
+
+/**
+ * "Pin to Tabs" handler for wikilinks
+ * Calls the Note Tabs plugin's tabsPinNote command
+ */
+async function handlePinWikilinkToTabs(wikilinkContext: WikilinkContext): Promise<void> {
+    const target = await resolveWikilinkOrNotify(wikilinkContext);
+    if (!target) {
+        return;
+    }
+
+    await joplin.commands.execute('tabsPinNote', [target.id]);
+    logger.debug('Pinned wikilink target to tabs:', target.id);
+}
+
+/**
+ * "Convert All Wikilinks" handler
+ * Converts the wikilinks in the selection, or in the whole note if nothing is
+ * selected
+ */
+async function handleConvertAllWikilinks(): Promise<void> {
+    const wikilinks =
+        ((await joplin.commands.execute('editor.execCommand', { name: GET_WIKILINKS_COMMAND })) as
+            | WikilinkContext[]
+            | undefined) ?? [];
+    await handleConvertWikilinks(wikilinks);
+}
+
+/**
+ * Replaces wikilinks with `[text](:/id#anchor)` links in one atomic batch
+ * replace. Wikilinks without a matching note are left as written.
+ */
+async function handleConvertWikilinks(wikilinks: WikilinkContext[]): Promise<void> {
+    if (wikilinks.length === 0) {
+        await showToast('No wikilinks found', ToastType.Info);
+        return;
+    }
+
+    const targets = await resolveWikilinks(wikilinks);
+    const replacements: TextReplacement[] = wikilinks.flatMap((wikilink, index) => {
+        const target = targets[index];
+        return target
+            ? [
+                  {
+                      from: wikilink.from,
+                      to: wikilink.to,
+                      text: formatWikilinkAsJoplinLink(wikilink, target),
+                      expectedText: wikilink.expectedText,
+                  },
+              ]
+            : [];
+    });
+    const notFoundCount = wikilinks.length - replacements.length;
+
+    if (replacements.length === 0) {
+        const message =
+            wikilinks.length === 1 ? `Note not found: ${wikilinks[0].noteTitle}` : 'No matching notes found';
+        await showToast(message, ToastType.Error);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Wikilink conversion aborted due to content mismatch');
+        return;
+    }
+
+    const notFoundNote = notFoundCount > 0 ? ` (${notFoundCount} not found)` : '';
+    await showToast(
+        `Converted ${replacements.length}/${wikilinks.length} wikilink${wikilinks.length !== 1 ? 's' : ''}${notFoundNote}`,
+        ToastType.Success
+    );
+}
+
+/**
+ * "Add External Link" handler
+ * Opens Joplin's built-in "Insert Link" dialog
+ */
+async function handleAddExternalLink(): Promise<void> {
+    await joplin.commands.execute('textLink');
+    logger.debug('Opened Add External Link dialog');
+}
+
+/**
+ * "Add Link to Note" handler
+ * Opens Joplin's built-in "Link to Note" dialog
+ */
+async function handleAddLinkToNote(): Promise<void> {
+    await joplin.commands.execute('linkToNote');
+    logger.debug('Opened Add Link to Note dialog');
+}
+
+/** Minimum interval between "Fetching N/M…" progress toasts. */
+const FETCH_PROGRESS_TOAST_INTERVAL_MS = 2000;
+
+/**
+ * The batch title fetch currently running, if any. Only one batch runs at a
+ * time so the cancel command has an unambiguous target.
+ */
+let activeLinkTitleFetch: { cancelled: boolean } | null = null;
+
+/** A fetched link text the user accepted, ready to be written into the link. */
+interface AcceptedLinkTitle {
+    link: LinkInfo;
+    text: string;
+    /** Title attribute text; null keeps the link's title attribute as written. */
+    title: string | null;
+    canonicalUrl?: string;
+}
+
+/** How "Refresh Link Titles" re-fetches links that already have link text. */
+interface LinkTitleRefreshOptions {
+    /** Keep each link's title attribute as written instead of replacing it with the new title. */
+    keepTitleToken: boolean;
+}
+
+function getLinkHost(link: LinkInfo): string {
+    try {
+        return new URL(link.url).host.toLowerCase();
+    } catch {
+        return link.url;
+    }
+}
+
 /**
  * Unified "Fetch Link Title(s)" handler
  * Fetches titles for one or more links and updates them in a single atomic operation.
  * When invoked without an explicit list (keyboard shortcut), resolves the fetchable
  * links at the current cursor or selection.
+ *
+ * Fetches run with bounded concurrency (overall and per host). Large batches show
+ * progress toasts and can be stopped with "Cancel Fetching Link Titles"; titles
+ * fetched before cancelling are still applied.
  */
-async function handleFetchLinkTitles(links?: LinkInfo[]): Promise<void> {
-    const resolvedLinks = links ?? (await getFetchableLinksAtCursor());
-
-    if (resolvedLinks.length === 0) {
-        await showToast('No link found', ToastType.Info);
+async function handleFetchLinkTitles(links?: LinkInfo[], refresh?: LinkTitleRefreshOptions): Promise<void> {
+    if (activeLinkTitleFetch) {
+        await showToast('Already fetching link titles', ToastType.Info);
         return;
     }
 
-    // Fetch all titles in parallel
-    const results = await Promise.all(
-        resolvedLinks.map(async (link) => ({
-            link,
-            result: await fetchLinkTitle(link.url, {
-                linkPreviewApiKey: settingsCache.linkPreviewApiKey,
-                linkTitleRules: settingsCache.linkTitleRules,
-            }),
-        }))
-    );
+    // Taken before the first await so a second run can't start meanwhile
+    const fetchState = { cancelled: false };
+    activeLinkTitleFetch = fetchState;
+    try {
+        const resolvedLinks = links ?? (await getFetchableLinksAtCursor());
+
+        if (resolvedLinks.length === 0) {
+            await showToast('No link found', ToastType.Info);
+            return;
+        }
+
+        await fetchLinkTitlesInEditor(resolvedLinks, fetchState, refresh);
+    } finally {
+        activeLinkTitleFetch = null;
+    }
+}
+
+/**
+ * Fetches titles for links of the editor document and applies them with one
+ * batch replace. The caller holds {@link activeLinkTitleFetch}.
+ * @returns What happened, for the notebook summary
+ */
+async function fetchLinkTitlesInEditor(
+    resolvedLinks: LinkInfo[],
+    fetchState: { cancelled: boolean },
+    refresh?: LinkTitleRefreshOptions
+): Promise<string> {
+    const fetchedResults = await fetchLinkTitlesWithProgress(resolvedLinks, fetchState, refresh !== undefined);
 
-    // Build replacements for all links (using fetched title or domain fallback)
-    // Update title attribute if present
-    const replacements = results.map(({ link, result }) => {
-        const linkText = escapeMarkdownLinkText(result.title);
-        const titlePart = link.linkTitleToken ? ` ${buildTitleAttributeToken(link.linkTitleToken, result.title)}` : '';
-        return {
-            from: link.markdownLinkFrom ?? link.from,
-            to: link.markdownLinkTo ?? link.to,
-            text: `[${linkText}](${link.url}${titlePart})`,
-            expectedText: link.expectedText,
-            selectionBehavior: 'expand' as const,
-        };
+    const results = resolvedLinks.flatMap((link, index) => {
+        const result = fetchedResults[index];
+        return result ? [{ link, result }] : [];
     });
 
+    if (results.length === 0) {
+        await showToast('Fetching link titles cancelled', ToastType.Info);
+        return 'not updated (fetching cancelled)';
+    }
+
+    // A refresh never replaces link text with the domain fallback
+    const proposals = refresh ? results.filter(({ result }) => !result.isFallback) : results;
+    if (proposals.length === 0) {
+        await showToast(`Could not fetch any of ${results.length} titles`, ToastType.Info);
+        return 'not updated (no titles found)';
+    }
+
+    // Templated link text or domain fallback, optionally reviewed by the user
+    const accepted = await reviewProposedLinkTitles(proposeLinkTexts(proposals));
+    if (!accepted) {
+        await showToast('Link titles not applied', ToastType.Info);
+        return 'not updated (review cancelled)';
+    }
+    if (accepted.length === 0) {
+        await showToast('No link titles selected', ToastType.Info);
+        return 'not updated (no links selected)';
+    }
+
+    const replacements = accepted.map((item) =>
+        buildTitledLinkReplacement(refresh?.keepTitleToken ? { ...item, title: null } : item)
+    );
+
     // Send ONE IPC message (atomic operation)
     const success = (await joplin.commands.execute('editor.execCommand', {
         name: BATCH_REPLACE_COMMAND,
@@ -522,18 +1182,402 @@ async function handleFetchLinkTitles(links?: LinkInfo[]): Promise<void> {
     if (!success) {
         await showToast('Content changed; update aborted', ToastType.Error);
         logger.warn('Batch link update aborted due to content mismatch');
-        return;
+        return 'changed while fetching, not updated';
     }
 
     // Count successful title fetches (non-fallback)
     const successCount = results.filter((r) => !r.result.isFallback).length;
 
-    await showToast(`Fetched ${successCount}/${resolvedLinks.length} titles`, ToastType.Success);
-    logger.debug(`Updated ${resolvedLinks.length} links, ${successCount} with fetched titles`);
+    const providerSummary = summarizeLinkTitleProviders(results.map((r) => r.result));
+    const cancelledNote = fetchState.cancelled ? `; cancelled, ${resolvedLinks.length - results.length} skipped` : '';
+    const reviewNote = accepted.length < results.length ? `; ${accepted.length} applied` : '';
+    await showToast(
+        `Fetched ${successCount}/${resolvedLinks.length} titles (${providerSummary}${cancelledNote}${reviewNote})`,
+        ToastType.Success
+    );
+    logger.debug(
+        `Updated ${accepted.length}/${resolvedLinks.length} links, ${successCount} with fetched titles: ${providerSummary}`
+    );
+    const cancelledAfter = fetchState.cancelled ? `; cancelled after ${results.length} of ${resolvedLinks.length}` : '';
+    return `${accepted.length} link${accepted.length !== 1 ? 's' : ''} updated in the editor${cancelledAfter}`;
+}
+
+/**
+ * Renders the link text for each fetched title (templated title or domain fallback).
+ * Note and resource titles are used as is.
+ */
+function proposeLinkTexts(
+    results: Array<{ link: LinkInfo; result: LinkTitleResult }>
+): Array<{ link: LinkInfo; result: LinkTitleResult; text: string }> {
+    return results.map(({ link, result }) => ({
+        link,
+        result,
+        text:
+            link.type === LinkType.JoplinResource
+                ? result.title
+                : formatLinkText(result, link.url, {
+                      linkTextTemplate: settingsCache.linkTextTemplate,
+                      linkTextTemplateOverrides: settingsCache.linkTextTemplateOverrides,
+                  }),
+    }));
+}
+
+/**
+ * Replacement for one titled link. Updates the title attribute with the plain
+ * title if present (a null title keeps it as is); reference links keep their
+ * label. With `useCanonicalUrl`, inline and bare links switch to the page's
+ * canonical URL.
+ */
+function buildTitledLinkReplacement({ link, text, title, canonicalUrl }: AcceptedLinkTitle) {
+    const url =
+        settingsCache.useCanonicalUrl && canonicalUrl && !link.referenceLabel
+            ? formatLinkDestination(canonicalUrl)
+            : link.url;
+    return {
+        from: link.markdownLinkFrom ?? link.from,
+        to: link.markdownLinkTo ?? link.to,
+        text: formatTitledLink({ ...link, url }, text, title),
+        expectedText: link.expectedText,
+        selectionBehavior: 'expand' as const,
+    };
+}
+
+/**
+ * Shows the review dialog when the `reviewLinkTitles` setting asks for it.
+ * @returns The accepted link texts with the title for the title attribute
+ * (the edited text if the user changed it), or null if the user cancelled
+ */
+async function reviewProposedLinkTitles(
+    proposals: Array<{ link: LinkInfo; result: LinkTitleResult; text: string }>
+): Promise<AcceptedLinkTitle[] | null> {
+    const unreviewed = proposals.map(({ link, result, text }) => ({
+        link,
+        text,
+        title: result.title,
+        canonicalUrl: result.canonicalUrl,
+    }));
+    if (
+        !shouldReviewLinkTitles(
+            settingsCache.reviewLinkTitles,
+            settingsCache.reviewLinkTitlesThreshold,
+            proposals.length
+        )
+    ) {
+        return unreviewed;
+    }
+
+    const decisions = await reviewLinkTitles(
+        proposals.map(({ link, result, text }) => ({
+            url: link.url,
+            currentText: getCurrentLinkText(link),
+            proposedText: text,
+            isFallback: result.isFallback,
+        }))
+    );
+    if (!decisions) {
+        return null;
+    }
+
+    return unreviewed.flatMap((proposal, index) => {
+        const { accepted, text } = decisions[index];
+        if (!accepted) {
+            return [];
+        }
+        return [{ ...proposal, text, title: text === proposal.text ? proposal.title : text }];
+    });
+}
+
+/**
+ * Fetches titles for a batch of links within the configured concurrency limits,
+ * showing throttled progress toasts while more links remain than can run at once.
+ * Links to notes and resources are looked up in the Joplin database, without
+ * the network or the title cache.
+ * @returns Results in link order; `undefined` for links skipped after cancellation
+ */
+async function fetchLinkTitlesWithProgress(
+    links: LinkInfo[],
+    fetchState: { cancelled: boolean },
+    bypassCache = false
+): Promise<Array<LinkTitleResult | undefined>> {
+    const cacheTtl = createLinkTitleCacheTtl(
+        settingsCache.linkTitleCacheTtlDays,
+        settingsCache.linkTitleCacheFallbackTtlMinutes
+    );
+    const cacheStore = await openLinkTitleCache(cacheTtl);
+    // Refreshes skip cached titles but still store what they fetch
+    const cache = bypassCache ? { get: () => null, set: cacheStore.set } : cacheStore;
+    const maxConcurrent = settingsCache.linkTitleFetchConcurrency;
+    const showProgress = links.length > maxConcurrent;
+    let lastProgressToastAt = Date.now();
+
+    if (showProgress) {
+        await showToast(`Fetching ${links.length} link titles…`, ToastType.Info);
+    }
+
+    const results = await runWithConcurrencyLimit(
+        links,
+        (link) =>
+            link.type === LinkType.JoplinResource
+                ? fetchJoplinLinkTitle(link.url)
+                : fetchLinkTitle(link.url, {
+                      linkTitleProviders: settingsCache.linkTitleProviders,
+                      linkPreviewApiKey: settingsCache.linkPreviewApiKey,
+                      linkTitleRequestHeaders: settingsCache.linkTitleRequestHeaders,
+                      linkTitleRules: settingsCache.linkTitleRules,
+                      pageTitleSources: settingsCache.pageTitleSources,
+                      oembedTitleTemplate: settingsCache.oembedTitleTemplate,
+                      titleCleanupRules: settingsCache.titleCleanupRules,
+                      cleanUpRuleTitles: settingsCache.cleanUpRuleTitles,
+                      cache,
+                  }),
+        {
+            maxConcurrent,
+            maxPerKey: settingsCache.linkTitleFetchPerHostConcurrency,
+            getKey: getLinkHost,
+            isCancelled: () => fetchState.cancelled,
+            onProgress: (completed, total) => {
+                const now = Date.now();
+                if (!showProgress || completed === total || fetchState.cancelled) return;
+                if (now - lastProgressToastAt < FETCH_PROGRESS_TOAST_INTERVAL_MS) return;
+                lastProgressToastAt = now;
+                void showToast(`Fetching ${completed}/${total}…`, ToastType.Info);
+            },
+        }
+    );
+
+    // Persist newly fetched titles even if the replacement is aborted
+    await saveLinkTitleCache(cacheTtl);
+
+    return results;
 }
 
 /**
- * Resolves the fetchable external links at the current cursor or selection.
+ * "Refresh Link Titles" / "Force Refresh All Link Titles" handler
+ * Re-fetches, without the cache, the titles of the links in the selection (or
+ * the whole note if no links are selected). Only links whose text is still the
+ * URL, the domain or a placeholder are refreshed unless `force` is set; a forced
+ * refresh keeps each link's title attribute. Links whose title still can't be
+ * fetched are left unchanged.
+ */
+async function handleRefreshLinkTitles(force: boolean): Promise<void> {
+    const contexts = await getCurrentEditorContexts();
+    const linkSelection = contexts.find(
+        (context): context is LinkSelectionContext => context.contextType === 'linkSelection'
+    );
+    const links =
+        linkSelection?.links ??
+        ((await joplin.commands.execute('editor.execCommand', { name: GET_LINKS_IN_DOCUMENT_COMMAND })) as
+            | LinkInfo[]
+            | undefined) ??
+        [];
+
+    const placeholders = parseLinkTitlePlaceholders(settingsCache.staleLinkTitlePlaceholders);
+    const refreshLinks = force ? links : links.filter((link) => isStaleLinkText(link, placeholders));
+    if (refreshLinks.length === 0) {
+        await showToast(links.length === 0 ? 'No link found' : 'No link titles to refresh', ToastType.Info);
+        return;
+    }
+
+    logger.debug(`Refreshing ${refreshLinks.length}/${links.length} link titles (force: ${force})`);
+    await handleFetchLinkTitles(refreshLinks, { keepTitleToken: force });
+}
+
+/**
+ * "Fetch Link Titles in Notes" handler (note list context menu)
+ * Fetches titles for every untitled external link (bare URL, `<url>`, `[](url)`)
+ * in the notes and saves them through the data API, then shows a per-note
+ * summary. The note open in the editor is skipped or, by default, handled by
+ * the editor's own fetch so unsaved edits aren't overwritten.
+ */
+async function handleFetchLinkTitlesInNotes(noteIds: string[]): Promise<void> {
+    if (activeLinkTitleFetch) {
+        await showToast('Already fetching link titles', ToastType.Info);
+        return;
+    }
+
+    if (noteIds.length === 0) {
+        await showToast('No notes selected', ToastType.Info);
+        return;
+    }
+
+    // Held for the whole run, including reading the notes and the open note's fetch
+    const fetchState = { cancelled: false };
+    activeLinkTitleFetch = fetchState;
+    try {
+        const openNoteId = (await joplin.workspace.selectedNote())?.id;
+        const jobs: Array<{ note: NoteBody; links: LinkInfo[] }> = [];
+        const summary: string[] = [];
+        let openNote: NoteBody | null = null;
+        let untouchedCount = 0;
+
+        for (const noteId of noteIds) {
+            const note = await getNoteBody(noteId);
+            if (!note) {
+                continue;
+            }
+
+            if (note.id === openNoteId) {
+                if (settingsCache.openNoteLinkTitles === 'skip') {
+                    summary.push(`${note.title}: skipped (open in the editor)`);
+                } else {
+                    openNote = note;
+                }
+                continue;
+            }
+
+            const links = findUntitledLinks(note.body);
+            if (links.length === 0) {
+                untouchedCount++;
+            } else {
+                jobs.push({ note, links });
+            }
+        }
+
+        if (jobs.length > 0) {
+            summary.push(...(await fetchLinkTitlesInNoteBodies(jobs, fetchState)));
+        }
+
+        if (openNote) {
+            summary.push(await fetchLinkTitlesInOpenNote(openNote, fetchState));
+        }
+
+        if (untouchedCount > 0) {
+            summary.push(`${untouchedCount} note${untouchedCount !== 1 ? 's' : ''} without untitled links`);
+        }
+
+        await joplin.views.dialogs.showMessageBox(`Fetch Link Titles\n\n${summary.join('\n')}`);
+    } finally {
+        activeLinkTitleFetch = null;
+    }
+}
+
+/**
+ * Fetches titles for the untitled links of several notes as one batch (so the
+ * concurrency limits, progress, cancellation and review apply across notes),
+ * then writes each note back. A note edited meanwhile is left unchanged.
+ * @returns One summary line per note
+ */
+async function fetchLinkTitlesInNoteBodies(
+    jobs: Array<{ note: NoteBody; links: LinkInfo[] }>,
+    fetchState: { cancelled: boolean }
+): Promise<string[]> {
+    const links = jobs.flatMap((job) => job.links);
+    const fetchedResults = await fetchLinkTitlesWithProgress(links, fetchState);
+
+    const results = links.flatMap((link, index) => {
+        const result = fetchedResults[index];
+        return result ? [{ link, result }] : [];
+    });
+    const accepted = await reviewProposedLinkTitles(proposeLinkTexts(results));
+    if (!accepted) {
+        return jobs.map(({ note }) => `${note.title}: not updated (review cancelled)`);
+    }
+
+    const acceptedByLink = new Map(accepted.map((item) => [item.link, item]));
+    const summary: string[] = [];
+    for (const { note, links: noteLinks } of jobs) {
+        const items = noteLinks.flatMap((link) => acceptedByLink.get(link) ?? []);
+        const fetchedCount = results.filter(
+            ({ link, result }) => noteLinks.includes(link) && !result.isFallback
+        ).length;
+        const counts = `${fetchedCount}/${noteLinks.length} titles fetched`;
+
+        if (items.length === 0) {
+            summary.push(`${note.title}: not updated (${counts})`);
+            continue;
+        }
+
+        const current = await getNoteBody(note.id);
+        const body =
+            current?.body === note.body
+                ? applyTextReplacements(note.body, items.map(buildTitledLinkReplacement))
+                : null;
+        if (body === null) {
+            summary.push(`${note.title}: changed while fetching, not updated`);
+            continue;
+        }
+
+        await putNoteBody(note.id, body);
+        summary.push(`${note.title}: ${items.length} link${items.length !== 1 ? 's' : ''} updated (${counts})`);
+    }
+
+    if (fetchState.cancelled) {
+        summary.push(`Cancelled; ${links.length - results.length} links skipped`);
+    }
+    logger.debug(`Fetched link titles in ${jobs.length} notes:`, summary);
+    return summary;
+}
+
+/**
+ * Runs the regular editor fetch on the untitled links of the note open in the editor.
+ * @returns The summary line for the note
+ */
+async function fetchLinkTitlesInOpenNote(note: NoteBody, fetchState: { cancelled: boolean }): Promise<string> {
+    if (fetchState.cancelled) {
+        return `${note.title}: not updated (fetching cancelled)`;
+    }
+
+    let text: unknown = null;
+    try {
+        text = await joplin.commands.execute('editor.execCommand', { name: GET_DOCUMENT_TEXT_COMMAND });
+    } catch (error) {
+        logger.debug('Failed to read the editor document:', error);
+    }
+
+    if (typeof text !== 'string') {
+        return `${note.title}: skipped (open in an editor without link support)`;
+    }
+
+    const links = findUntitledLinks(text);
+    if (links.length === 0) {
+        return `${note.title}: no untitled links`;
+    }
+
+    return `${note.title}: ${await fetchLinkTitlesInEditor(links, fetchState)}`;
+}
+
+/**
+ * "Fetch Link Titles in Notebook" handler (notebook context menu)
+ * Runs "Fetch Link Titles in Notes" on every note of the notebook and its sub-notebooks.
+ */
+async function handleFetchLinkTitlesInNotebook(folderId?: string): Promise<void> {
+    const id = folderId ?? (await joplin.workspace.selectedFolder())?.id;
+    if (!id) {
+        await showToast('No notebook selected', ToastType.Info);
+        return;
+    }
+
+    await handleFetchLinkTitlesInNotes(await getNotebookNoteIds(id));
+}
+
+/**
+ * "Cancel Fetching Link Titles" handler
+ * Stops starting new fetches in the running batch; fetches already in flight
+ * finish and every fetched title is applied.
+ */
+async function handleCancelFetchLinkTitles(): Promise<void> {
+    if (!activeLinkTitleFetch) {
+        await showToast('No link titles are being fetched', ToastType.Info);
+        return;
+    }
+
+    activeLinkTitleFetch.cancelled = true;
+    await showToast('Cancelling link title fetch…', ToastType.Info);
+    logger.debug('Link title fetch cancelled by user');
+}
+
+/**
+ * "Clear link title cache" handler
+ * Forgets every cached title so the next fetch hits the network again.
+ */
+async function handleClearLinkTitleCache(): Promise<void> {
+    const cleared = await clearLinkTitleCache();
+    await showToast(`Cleared ${cleared} cached link title${cleared !== 1 ? 's' : ''}`, ToastType.Success);
+    logger.debug(`Cleared ${cleared} cached link titles`);
+}
+
+/**
+ * Resolves the fetchable links (external or note/resource) at the current cursor or selection.
  * Mirrors getCurrentTaskContext: a selection yields its detected links, otherwise
  * a single fetchable link at the cursor is wrapped into a one-element array.
  */
@@ -555,19 +1599,383 @@ async function getFetchableLinksAtCursor(): Promise<LinkInfo[]> {
     return [];
 }
 
+/**
+ * Whether a link's URL can be rewritten in place: external URLs only, and not
+ * reference links, whose URL lives in the definition.
+ */
+function isRewritableUrlLink(link: LinkInfo): boolean {
+    return link.type === LinkType.ExternalUrl && !link.referenceLabel;
+}
+
+/**
+ * "Resolve Redirects" handler
+ * Follows the redirects of the link at the cursor or the selected links and
+ * replaces each URL with its final destination in one atomic batch replace.
+ * Link text and title attributes are kept; reference links are skipped.
+ */
+async function handleResolveRedirects(links?: LinkInfo[]): Promise<void> {
+    const resolvableLinks = (links ?? (await getFetchableLinksAtCursor())).filter(isRewritableUrlLink);
+    if (resolvableLinks.length === 0) {
+        await showToast('No link found', ToastType.Info);
+        return;
+    }
+
+    if (resolvableLinks.length > settingsCache.linkTitleFetchConcurrency) {
+        await showToast(`Resolving ${resolvableLinks.length} links…`, ToastType.Info);
+    }
+
+    const results = await runWithConcurrencyLimit(
+        resolvableLinks,
+        (link) => checkLink(link.url, settingsCache.linkTitleRequestHeaders),
+        {
+            maxConcurrent: settingsCache.linkTitleFetchConcurrency,
+            maxPerKey: settingsCache.linkTitleFetchPerHostConcurrency,
+            getKey: getLinkHost,
+        }
+    );
+
+    const replacements = resolvableLinks.flatMap((link, index) => {
+        const finalUrl = getRedirectedUrl(link.url, results[index]?.redirectedTo);
+        return (finalUrl && buildLinkUrlReplacement(link, finalUrl)) || [];
+    });
+    const failedCount = results.filter((result) => result?.error).length;
+    const failedNote = failedCount > 0 ? ` (${failedCount} failed)` : '';
+
+    if (replacements.length === 0) {
+        await showToast(`No redirects found${failedNote}`, ToastType.Info);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Redirect resolution aborted due to content mismatch');
+        return;
+    }
+
+    await showToast(`Resolved ${replacements.length}/${resolvableLinks.length} links${failedNote}`, ToastType.Success);
+}
+
+/**
+ * "Clean URL(s)" handler
+ * Removes tracking parameters from the link at the cursor or the selected
+ * links and normalizes their URLs, in one atomic batch replace. Reference
+ * links are skipped.
+ */
+async function handleCleanUrls(links?: LinkInfo[]): Promise<void> {
+    const cleanableLinks = (links ?? (await getFetchableLinksAtCursor())).filter(isRewritableUrlLink);
+    if (cleanableLinks.length === 0) {
+        await showToast('No link found', ToastType.Info);
+        return;
+    }
+
+    const patterns = parseTrackingParameters(settingsCache.trackingParameters);
+    const replacements = cleanableLinks.flatMap((link) => {
+        const cleaned = cleanUrl(link.url, patterns);
+        return (cleaned !== link.url && buildLinkUrlReplacement(link, cleaned)) || [];
+    });
+
+    if (replacements.length === 0) {
+        await showToast('URLs are already clean', ToastType.Info);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('URL cleaning aborted due to content mismatch');
+        return;
+    }
+
+    await showToast(`Cleaned ${replacements.length} URL${replacements.length !== 1 ? 's' : ''}`, ToastType.Success);
+}
+
+/**
+ * "Linkify" handler
+ * Marks up the bare URL at the cursor or the bare URLs in the selection without
+ * any network request, in one atomic batch replace. In `titleRules` mode, URLs
+ * no offline custom link title rule matches are left as they are.
+ */
+async function handleLinkify(mode: LinkifyMode, links?: LinkInfo[]): Promise<void> {
+    const bareUrls = (links ?? (await getFetchableLinksAtCursor())).filter(isBareUrlLink);
+    if (bareUrls.length === 0) {
+        await showToast('No bare URL found', ToastType.Info);
+        return;
+    }
+
+    const rules = mode === 'titleRules' ? parseLinkTitleRules(settingsCache.linkTitleRules) : [];
+    const replacements = bareUrls.flatMap((link) => buildLinkifyReplacement(link, mode, rules) ?? []);
+    if (replacements.length === 0) {
+        await showToast('No link title rule matches', ToastType.Info);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Linkify aborted due to content mismatch');
+        return;
+    }
+
+    const unmatchedCount = bareUrls.length - replacements.length;
+    const unmatchedNote = unmatchedCount > 0 ? ` (${unmatchedCount} without a matching rule)` : '';
+    await showToast(
+        `Linkified ${replacements.length} URL${replacements.length !== 1 ? 's' : ''}${unmatchedNote}`,
+        ToastType.Success
+    );
+}
+
+/**
+ * "Unlinkify" handler
+ * Replaces the inline link or autolink at the cursor, or those in the
+ * selection, with the link text or the bare URL, in one atomic batch replace.
+ */
+async function handleUnlinkify(mode: UnlinkifyMode, links?: LinkInfo[]): Promise<void> {
+    const replacements = (links ?? (await getFetchableLinksAtCursor()))
+        .filter(isUnlinkifiableLink)
+        .flatMap((link) => buildUnlinkifyReplacement(link, mode) ?? []);
+    if (replacements.length === 0) {
+        await showToast('No link found', ToastType.Info);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Unlinkify aborted due to content mismatch');
+        return;
+    }
+
+    await showToast(
+        `Unlinkified ${replacements.length} link${replacements.length !== 1 ? 's' : ''}`,
+        ToastType.Success
+    );
+}
+
+/**
+ * "Edit Link..." handler
+ * Opens the edit dialog for the markdown link or image at the cursor and
+ * writes the edited text, URL and title back in one atomic batch replace
+ * (a reference link's URL and title go to its definition).
+ */
+async function handleEditLink(linkContext?: LinkContext): Promise<void> {
+    const context =
+        linkContext ??
+        (await getCurrentEditorContexts()).find(
+            (candidate): candidate is LinkContext => candidate.contextType === 'link'
+        );
+    const snapshot = context
+        ? ((await joplin.commands.execute('editor.execCommand', { name: GET_MARKDOWN_LINKS_COMMAND })) as
+              | MarkdownLinksSnapshot
+              | undefined)
+        : undefined;
+    // Markdown images have no separate link range: their context range is the whole image
+    const target = context && snapshot ? findLinkEditTarget(snapshot, context.markdownLinkFrom ?? context.from) : null;
+    if (!target) {
+        await showToast('No markdown link found', ToastType.Info);
+        return;
+    }
+
+    const edited = await editLinkFields(getLinkEditFields(target), {
+        isImage: target.link.isImage,
+        isReferenceLink: target.definition !== undefined,
+    });
+    if (!edited) {
+        return;
+    }
+    if (!edited.url) {
+        await showToast('Link URL cannot be empty', ToastType.Error);
+        return;
+    }
+
+    const replacements = buildLinkEditReplacements(target, edited);
+    if (replacements.length === 0) {
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Link edit aborted due to content mismatch');
+        return;
+    }
+
+    await showToast(target.link.isImage ? 'Image updated' : 'Link updated', ToastType.Success);
+}
+
+/**
+ * "Convert to Reference/Inline Links" handler
+ * Converts the links in the selection, or in the whole note if nothing is
+ * selected, in one atomic batch replace: inline links become reference links
+ * with definitions appended at the end of the note, reference links become
+ * inline links and definitions left unused are removed.
+ */
+async function handleConvertLinkStyle(style: 'reference' | 'inline'): Promise<void> {
+    const snapshot = (await joplin.commands.execute('editor.execCommand', {
+        name: GET_MARKDOWN_LINKS_COMMAND,
+    })) as MarkdownLinksSnapshot | undefined;
+    if (!snapshot) {
+        await showToast('No note open in the editor', ToastType.Info);
+        return;
+    }
+
+    const conversion =
+        style === 'reference'
+            ? convertToReferenceLinks(snapshot, parseReferenceLabelStyle(settingsCache.referenceLinkLabels))
+            : convertToInlineLinks(snapshot);
+    if (conversion.convertedCount === 0) {
+        await showToast(style === 'reference' ? 'No inline links found' : 'No reference links found', ToastType.Info);
+        return;
+    }
+
+    const success = (await joplin.commands.execute('editor.execCommand', {
+        name: BATCH_REPLACE_COMMAND,
+        args: [conversion.replacements],
+    })) as boolean;
+
+    if (!success) {
+        await showToast('Content changed; update aborted', ToastType.Error);
+        logger.warn('Link style conversion aborted due to content mismatch');
+        return;
+    }
+
+    const count = conversion.convertedCount;
+    const removedNote =
+        conversion.removedDefinitionCount > 0
+            ? ` (${conversion.removedDefinitionCount} unused definition${conversion.removedDefinitionCount !== 1 ? 's' : ''} removed)`
+            : '';
+    await showToast(
+        `Converted ${count} link${count !== 1 ? 's' : ''} to ${style} links${removedNote}`,
+        ToastType.Success
+    );
+}
+
+/** Set while "Check Links in Note" runs, so checks don't overlap. */
+let linkCheckRunning = false;
+
+/**
+ * "Check Links in Note" handler
+ * Checks every external link of the open note (each URL once, with the title
+ * fetching concurrency limits), lists the results in the link check panel and,
+ * if enabled, highlights broken links in the editor until the next check.
+ */
+async function handleCheckLinksInNote(): Promise<void> {
+    if (linkCheckRunning) {
+        await showToast('Already checking links', ToastType.Info);
+        return;
+    }
+
+    // Set before the first await so a second run can't start meanwhile
+    linkCheckRunning = true;
+    try {
+        const note = await joplin.workspace.selectedNote();
+        if (!note) {
+            await showToast('No note open', ToastType.Info);
+            return;
+        }
+
+        const links = (
+            ((await joplin.commands.execute('editor.execCommand', { name: GET_LINKS_IN_DOCUMENT_COMMAND })) as
+                | LinkInfo[]
+                | undefined) ?? []
+        ).filter((link) => link.type === LinkType.ExternalUrl);
+        if (links.length === 0) {
+            await setBrokenLinkMarks([]);
+            await showToast('No links found', ToastType.Info);
+            return;
+        }
+
+        const uniqueLinks = links.filter((link, index) => links.findIndex((other) => other.url === link.url) === index);
+        await showLinkCheckProgress(note.title, uniqueLinks.length);
+
+        const results = await runWithConcurrencyLimit(
+            uniqueLinks,
+            (link) => checkLink(link.url, settingsCache.linkTitleRequestHeaders),
+            {
+                maxConcurrent: settingsCache.linkTitleFetchConcurrency,
+                maxPerKey: settingsCache.linkTitleFetchPerHostConcurrency,
+                getKey: getLinkHost,
+            }
+        );
+
+        const resultsByUrl = new Map(uniqueLinks.map((link, index) => [link.url, results[index]]));
+        const checked = links.flatMap((link) => {
+            const result = resultsByUrl.get(link.url);
+            return result ? [{ link, result }] : [];
+        });
+        await showLinkCheckResults(
+            note.id,
+            note.title,
+            checked.map(({ link, result }) => ({ result, pos: link.markdownLinkFrom ?? link.from }))
+        );
+
+        const broken = checked.filter(({ result }) => isBrokenLink(result));
+        await setBrokenLinkMarks(
+            settingsCache.markBrokenLinks
+                ? broken.map(({ link, result }) => ({
+                      from: link.markdownLinkFrom ?? link.from,
+                      to: link.markdownLinkTo ?? link.to,
+                      label: result.status !== undefined ? String(result.status) : (result.error ?? 'request failed'),
+                      expectedText: link.expectedText,
+                  }))
+                : []
+        );
+
+        await showToast(
+            `Checked ${uniqueLinks.length} links: ${broken.length} broken`,
+            broken.length > 0 ? ToastType.Error : ToastType.Success
+        );
+    } finally {
+        linkCheckRunning = false;
+    }
+}
+
+/**
+ * Replaces the broken link highlights in the editor. Failures are only logged
+ * (e.g. an editor without the content script).
+ */
+async function setBrokenLinkMarks(marks: BrokenLinkMark[]): Promise<void> {
+    try {
+        await joplin.commands.execute('editor.execCommand', { name: SET_BROKEN_LINKS_COMMAND, args: [marks] });
+    } catch (error) {
+        logger.debug('Failed to highlight broken links:', error);
+    }
+}
+
 /**
  * "Open All Links" handler
  * Opens all detected HTTP(S) links in the current selection
  */
 async function handleOpenAllLinksInSelection(ctx: LinkSelectionContext): Promise<void> {
-    if (ctx.links.length === 0) {
+    const links = ctx.links.filter((link) => link.type === LinkType.ExternalUrl);
+    if (links.length === 0) {
         return;
     }
 
     let successCount = 0;
     let failureCount = 0;
 
-    for (const link of ctx.links) {
+    for (const link of links) {
         try {
             await joplin.commands.execute('openItem', link.url);
             successCount++;
@@ -583,7 +1991,7 @@ async function handleOpenAllLinksInSelection(ctx: LinkSelectionContext): Promise
     }
 
     if (successCount > 0) {
-        await showToast(`Opened ${successCount}/${ctx.links.length} links`, ToastType.Info);
+        await showToast(`Opened ${successCount}/${links.length} links`, ToastType.Info);
         return;
     }
 
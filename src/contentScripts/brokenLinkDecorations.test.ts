@@ -0,0 +1,38 @@
+import { EditorState } from '@codemirror/state';
+import { brokenLinkDecorations, brokenLinksField, setBrokenLinksEffect } from './brokenLinkDecorations';
+
+describe('brokenLinkDecorations', () => {
+    const doc = 'See https://a.example and https://b.example';
+    const a = { from: 4, to: 21, label: '404', expectedText: 'https://a.example' };
+    const b = { from: 26, to: 43, label: 'timeout', expectedText: 'https://b.example' };
+
+    const getRanges = (state: EditorState) => {
+        const ranges: Array<[number, number, string]> = [];
+        state.field(brokenLinksField).between(0, state.doc.length, (from, to, decoration) => {
+            ranges.push([from, to, decoration.spec.attributes.title]);
+        });
+        return ranges;
+    };
+
+    it('marks the given ranges and replaces them on the next check', () => {
+        let state = EditorState.create({ doc, extensions: brokenLinkDecorations });
+        state = state.update({ effects: setBrokenLinksEffect.of([b, a]) }).state;
+        expect(getRanges(state)).toEqual([
+            [4, 21, 'Broken link: 404'],
+            [26, 43, 'Broken link: timeout'],
+        ]);
+
+        state = state.update({ effects: setBrokenLinksEffect.of([b]) }).state;
+        expect(getRanges(state)).toEqual([[26, 43, 'Broken link: timeout']]);
+    });
+
+    it('skips stale or invalid ranges and follows edits', () => {
+        let state = EditorState.create({ doc, extensions: brokenLinkDecorations });
+        state = state.update({
+            effects: setBrokenLinksEffect.of([a, { ...b, expectedText: 'https://c.example' }, { ...a, to: 999 }]),
+        }).state;
+        state = state.update({ changes: { from: 0, insert: '>> ' } }).state;
+
+        expect(getRanges(state)).toEqual([[7, 24, 'Broken link: 404']]);
+    });
+});
@@ -0,0 +1,62 @@
+import { EditorState, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import type { BrokenLinkMark } from '../types';
+
+/**
+ * Replaces the highlighted broken links (an empty list clears them).
+ */
+export const setBrokenLinksEffect = StateEffect.define<BrokenLinkMark[]>();
+
+/**
+ * Builds the decorations, skipping ranges that are out of bounds or no longer
+ * hold their expected text (the note was edited during the check).
+ */
+function buildBrokenLinkDecorations(marks: BrokenLinkMark[], state: EditorState): DecorationSet {
+    const ranges = marks
+        .filter(
+            (mark) =>
+                Number.isFinite(mark.from) &&
+                Number.isFinite(mark.to) &&
+                mark.from >= 0 &&
+                mark.from < mark.to &&
+                mark.to <= state.doc.length &&
+                (mark.expectedText === undefined || state.doc.sliceString(mark.from, mark.to) === mark.expectedText)
+        )
+        .map((mark) =>
+            Decoration.mark({
+                class: 'cm-contextUtils-brokenLink',
+                attributes: { title: `Broken link: ${mark.label}` },
+            }).range(mark.from, mark.to)
+        );
+    return Decoration.set(ranges, true);
+}
+
+/**
+ * Broken link highlights from the last "Check Links in Note". They follow
+ * edits and stay until the next check replaces them.
+ */
+export const brokenLinksField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(decorations, transaction) {
+        let next = decorations.map(transaction.changes);
+        for (const effect of transaction.effects) {
+            if (effect.is(setBrokenLinksEffect)) {
+                next = buildBrokenLinkDecorations(effect.value, transaction.state);
+            }
+        }
+        return next;
+    },
+    provide: (field) => EditorView.decorations.from(field),
+});
+
+const brokenLinkTheme = EditorView.baseTheme({
+    '.cm-contextUtils-brokenLink': {
+        textDecoration: 'underline wavy #e5484d',
+        textUnderlineOffset: '3px',
+    },
+});
+
+/**
+ * Editor extension for broken link highlighting.
+ */
+export const brokenLinkDecorations = [brokenLinksField, brokenLinkTheme];
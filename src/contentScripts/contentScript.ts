@@ -2,8 +2,12 @@ import { EditorView } from '@codemirror/view';
 import { EditorSelection } from '@codemirror/state';
 import type { CodeMirrorControl } from 'api/types';
 import { logger } from '../logger';
-import { detectContextAtPosition } from './contextDetection';
-import type { TextReplacement } from '../types';
+import { detectContextAtPosition, detectLinksInDocument } from './contextDetection';
+import { brokenLinkDecorations, setBrokenLinksEffect } from './brokenLinkDecorations';
+import { getWikilinksInRanges } from './wikilinkDetection';
+import { collectMarkdownLinks } from './markdownLinkCollection';
+import { writeRichClipboard } from './richClipboard';
+import type { BrokenLinkMark, TextReplacement } from '../types';
 
 /**
  * Command name for getting context at cursor
@@ -18,6 +22,36 @@ const EDITOR_CONTEXT_MENU_EVENT_GRACE_MS = 400;
  */
 export const BATCH_REPLACE_COMMAND = 'contextUtils-batchReplace';
 
+/**
+ * Command name for reading the whole editor document
+ */
+export const GET_DOCUMENT_TEXT_COMMAND = 'contextUtils-getDocumentText';
+
+/**
+ * Command name for getting every external link in the editor document
+ */
+export const GET_LINKS_IN_DOCUMENT_COMMAND = 'contextUtils-getLinksInDocument';
+
+/**
+ * Command name for getting the wikilinks in the selection (the whole document if nothing is selected)
+ */
+export const GET_WIKILINKS_COMMAND = 'contextUtils-getWikilinks';
+
+/**
+ * Command name for getting the markdown links and reference definitions of the document (for link style conversion)
+ */
+export const GET_MARKDOWN_LINKS_COMMAND = 'contextUtils-getMarkdownLinks';
+
+/**
+ * Command name for copying HTML with a plain text alternative (for Copy as Rich Link)
+ */
+export const WRITE_RICH_CLIPBOARD_COMMAND = 'contextUtils-writeRichClipboard';
+
+/**
+ * Command name for highlighting broken links (replaces the previous highlights)
+ */
+export const SET_BROKEN_LINKS_COMMAND = 'contextUtils-setBrokenLinks';
+
 /**
  * Command name for scrolling editor to specified position
  */
@@ -195,6 +229,38 @@ export default () => {
                 }
             );
 
+            // Register command to read the document, e.g. to find links in the whole note
+            editorControl.registerCommand(GET_DOCUMENT_TEXT_COMMAND, () => view.state.doc.toString());
+
+            // Register command to collect the external links of the whole note (for Refresh Link Titles)
+            editorControl.registerCommand(GET_LINKS_IN_DOCUMENT_COMMAND, () => detectLinksInDocument(view));
+
+            // Register command to collect the wikilinks to convert (selection, or whole note without one)
+            editorControl.registerCommand(GET_WIKILINKS_COMMAND, () => {
+                const selected = view.state.selection.ranges.filter((range) => !range.empty);
+                const ranges = selected.length > 0 ? selected : [{ from: 0, to: view.state.doc.length }];
+                return getWikilinksInRanges(view, ranges);
+            });
+
+            // Register command to collect links and definitions for converting between inline and reference links
+            editorControl.registerCommand(GET_MARKDOWN_LINKS_COMMAND, () => collectMarkdownLinks(view));
+
+            // Register command to copy HTML and plain text together (the plugin clipboard API writes one format)
+            editorControl.registerCommand(WRITE_RICH_CLIPBOARD_COMMAND, (html: string, text: string) => {
+                if (typeof html !== 'string' || typeof text !== 'string') {
+                    logger.error('writeRichClipboard: html and text must be strings');
+                    return false;
+                }
+                return writeRichClipboard(view.dom.ownerDocument, html, text);
+            });
+
+            // Register command to highlight the broken links found by Check Links in Note
+            editorControl.addExtension(brokenLinkDecorations);
+            editorControl.registerCommand(SET_BROKEN_LINKS_COMMAND, (marks: BrokenLinkMark[]) => {
+                view.dispatch({ effects: setBrokenLinksEffect.of(Array.isArray(marks) ? marks : []) });
+                return true;
+            });
+
             // Register command to scroll to a specific position
             editorControl.registerCommand(SCROLL_TO_POSITION_COMMAND, (pos: number) => {
                 if (typeof pos !== 'number' || !Number.isFinite(pos)) {
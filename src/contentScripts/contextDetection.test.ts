@@ -2,7 +2,7 @@
 import { EditorSelection, EditorState } from '@codemirror/state';
 import { markdown } from '@codemirror/lang-markdown';
 import { GFM } from '@lezer/markdown';
-import { detectContextAtPosition } from './contextDetection';
+import { detectContextAtPosition, detectLinksInDocument } from './contextDetection';
 import { EditorContext } from '../types';
 
 describe('contextDetection', () => {
@@ -100,23 +100,103 @@ describe('contextDetection', () => {
         expect(linkSelection?.links[0].expectedText).toBe(doc);
     });
 
-    it('excludes reference-style links from selection', () => {
+    it('includes reference-style links in selection with their label', () => {
         const doc = '[Ref][r]\n\n[r]: https://joplinapp.org';
         const view = createViewWithSelection(doc, 0, '[Ref][r]'.length);
         const contexts = detectContextAtPosition(view, 0);
         const linkSelection = getLinkSelection(contexts);
 
-        expect(linkSelection).toBeUndefined();
+        expect(linkSelection?.links).toEqual([
+            {
+                url: 'https://joplinapp.org',
+                type: 'external-url',
+                from: 0,
+                to: 8,
+                markdownLinkFrom: 0,
+                markdownLinkTo: 8,
+                referenceLabel: '[r]',
+                expectedText: '[Ref][r]',
+            },
+        ]);
+    });
+
+    it('includes shortcut and collapsed reference links using the link text as label', () => {
+        const doc = '[Joplin] and [Joplin][]\n\n[joplin]: https://joplinapp.org';
+        const view = createViewWithSelection(doc, 0, '[Joplin] and [Joplin][]'.length);
+        const contexts = detectContextAtPosition(view, 0);
+        const links = getLinkSelection(contexts)?.links ?? [];
+
+        expect(links.map((link) => [link.referenceLabel, link.expectedText, link.url])).toEqual([
+            ['[Joplin]', '[Joplin]', 'https://joplinapp.org'],
+            ['[Joplin]', '[Joplin][]', 'https://joplinapp.org'],
+        ]);
+    });
+
+    it('skips reference links without a definition and definition URLs in selection', () => {
+        const doc = '[Missing][nope] [Ref][r]\n\n[r]: https://joplinapp.org';
+        const view = createViewWithSelection(doc, 0, doc.length);
+        const contexts = detectContextAtPosition(view, 0);
+        const links = getLinkSelection(contexts)?.links ?? [];
+
+        expect(links).toHaveLength(1);
+        expect(links[0].expectedText).toBe('[Ref][r]');
     });
 
-    it('does not count a URL-shaped reference link label as a selection link', () => {
+    it('counts a URL-shaped reference link label once, as a reference link', () => {
         const doc = '[https://google.com][ref]\n\n[ref]: https://google.com';
         const selectedText = '[https://google.com][ref]';
         const view = createViewWithSelection(doc, 0, selectedText.length);
         const contexts = detectContextAtPosition(view, 0);
         const linkSelection = getLinkSelection(contexts);
 
-        expect(linkSelection).toBeUndefined();
+        expect(linkSelection?.links).toHaveLength(1);
+        expect(linkSelection?.links[0].referenceLabel).toBe('[ref]');
+        expect(linkSelection?.links[0].expectedText).toBe(selectedText);
+    });
+
+    it('makes a reference link at the cursor replaceable', () => {
+        const doc = '[Ref][r]\n\n[r]: https://joplinapp.org';
+        const view = createViewWithCursor(doc, 2);
+        const link = getContext(detectContextAtPosition(view, 2), 'link');
+
+        expect(link).toMatchObject({
+            url: 'https://joplinapp.org',
+            isReferenceLink: true,
+            referenceLabel: '[r]',
+            markdownLinkFrom: 0,
+            markdownLinkTo: 8,
+            linkText: 'Ref',
+            expectedText: '[Ref][r]',
+        });
+    });
+
+    it('records the link text of a markdown link at the cursor', () => {
+        const doc = 'See [**Joplin** \\[app\\]](https://joplinapp.org "Home") and https://example.com';
+        const link = getContext(detectContextAtPosition(createViewWithCursor(doc, 6), 6), 'link');
+
+        expect(link?.linkText).toBe('**Joplin** \\[app\\]');
+
+        const barePos = doc.indexOf('example');
+        const bareLink = getContext(detectContextAtPosition(createViewWithCursor(doc, barePos), barePos), 'link');
+        expect(bareLink?.url).toBe('https://example.com');
+        expect(bareLink?.linkText).toBeUndefined();
+    });
+
+    it('records the alt text of a markdown image at the cursor', () => {
+        const doc = '![Logo](https://example.com/logo.png)';
+        const link = getContext(detectContextAtPosition(createViewWithCursor(doc, 3), 3), 'link');
+
+        expect(link).toMatchObject({ isImage: true, linkText: 'Logo' });
+    });
+
+    it('does not make a reference definition URL at the cursor replaceable', () => {
+        const doc = '[Ref][r]\n\n[r]: https://joplinapp.org';
+        const pos = doc.indexOf('https://') + 3;
+        const view = createViewWithCursor(doc, pos);
+        const link = getContext(detectContextAtPosition(view, pos), 'link');
+
+        expect(link?.url).toBe('https://joplinapp.org');
+        expect(link?.expectedText).toBeUndefined();
     });
 
     it('excludes markdown images from selection', () => {
@@ -528,4 +608,51 @@ describe('contextDetection', () => {
         expect(taskContext?.tasks).toHaveLength(1);
         expect(taskContext?.uncheckedCount).toBe(1);
     });
+
+    it('detects wikilink context at cursor', () => {
+        const doc = 'See [[Project Plan#Next Steps|the plan]] for details';
+        const view = createViewWithCursor(doc, doc.indexOf('Plan'));
+
+        const wikilinkContext = getContext(detectContextAtPosition(view, view.state.selection.main.head), 'wikilink');
+
+        expect(wikilinkContext).toMatchObject({
+            noteTitle: 'Project Plan',
+            heading: 'Next Steps',
+            alias: 'the plan',
+            from: doc.indexOf('[['),
+            expectedText: '[[Project Plan#Next Steps|the plan]]',
+        });
+    });
+
+    it('ignores wikilinks in inline code', () => {
+        const doc = 'Type `[[Note]]` to link';
+        const view = createViewWithCursor(doc, doc.indexOf('Note'));
+
+        expect(getContext(detectContextAtPosition(view, view.state.selection.main.head), 'wikilink')).toBeUndefined();
+    });
+
+    it('collects every external and note link in the document regardless of the selection', () => {
+        const doc = [
+            '[GitHub](https://github.com "Repo") and https://example.com/',
+            '',
+            '```',
+            'https://code.example.com',
+            '```',
+            '',
+            '[Docs][d] ![img](https://img.example.com/a.png) [note](:/0123456789abcdef0123456789abcdef)',
+            '',
+            '[d]: https://docs.example.com',
+        ].join('\n');
+        const view = createViewWithCursor(doc, 0);
+
+        const links = detectLinksInDocument(view);
+
+        expect(links.map((link) => [link.url, link.expectedText])).toEqual([
+            ['https://github.com', '[GitHub](https://github.com "Repo")'],
+            ['https://example.com/', 'https://example.com/'],
+            ['https://docs.example.com', '[Docs][d]'],
+            [':/0123456789abcdef0123456789abcdef', '[note](:/0123456789abcdef0123456789abcdef)'],
+        ]);
+        expect(links[0].linkTitleToken).toBe('"Repo"');
+    });
 });
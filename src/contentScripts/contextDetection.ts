@@ -1,5 +1,6 @@
-import { syntaxTree } from '@codemirror/language';
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
 import { EditorView } from '@codemirror/view';
+import { SyntaxNode } from '@lezer/common';
 import {
     LinkContext,
     CodeContext,
@@ -11,17 +12,20 @@ import {
     LinkInfo,
     HeadingContext,
     QuoteContext,
+    WikilinkContext,
     LinkType,
 } from '../types';
 import { getHeadingAtPosition } from './headingExtraction';
 import { getQuoteAtPosition } from './quoteExtraction';
+import { getWikilinkAtPosition } from './wikilinkDetection';
 import {
     parseInlineCode,
     parseCodeBlock,
     extractUrl,
     classifyUrl,
     parseImageTag,
-    extractReferenceLabel,
+    getReferenceLinkLabel,
+    extractLinkText,
     findReferenceDefinition,
     findFootnoteDefinition,
 } from './parsingUtils';
@@ -34,6 +38,9 @@ import {
  */
 const TASK_CHECKBOX_PATTERN = /^(\s*(?:>\s*)*[-*+]\s+)\[([x ])\]/;
 
+/** How long to let the parser catch up before scanning the whole document, in milliseconds */
+const DOCUMENT_PARSE_TIMEOUT_MS = 1000;
+
 /**
  * Detects context at cursor position using CodeMirror 6 syntax tree
  * Can detect links, images, inline code, code blocks, or tasks
@@ -148,16 +155,19 @@ function detectQuoteContext(view: EditorView, pos: number): QuoteContext | null
 }
 
 /**
- * Detects primary context (code, links, images) via syntax tree traversal
+ * Detects primary context (code, links, images, wikilinks) via syntax tree traversal
  * Does NOT include task detection (that's handled separately)
  *
  * @param view - CodeMirror 6 EditorView instance
  * @param pos - Cursor position to check
  * @returns Primary context if found, null otherwise
  */
-function detectPrimaryContext(view: EditorView, pos: number): LinkContext | CodeContext | FootnoteContext | null {
+function detectPrimaryContext(
+    view: EditorView,
+    pos: number
+): LinkContext | CodeContext | FootnoteContext | WikilinkContext | null {
     const tree = syntaxTree(view.state);
-    let context: LinkContext | CodeContext | FootnoteContext | null = null;
+    let context: LinkContext | CodeContext | FootnoteContext | WikilinkContext | null = null;
 
     // Traverse syntax tree to find nodes at position
     tree.iterate({
@@ -212,36 +222,33 @@ function detectPrimaryContext(view: EditorView, pos: number): LinkContext | Code
                             markdownLinkTo: to,
                             // Preserve optional title attribute
                             linkTitleToken: extracted.linkTitleToken,
+                            linkText: extractLinkText(node.node, view) ?? undefined,
                             expectedText: fullLinkText,
                         };
                         return false; // Stop iteration
                     }
                 }
 
-                // If no URL found, check if it's a reference link
-                let label = extractReferenceLabel(node.node, view);
-
-                // Handle shortcut [foo] and collapsed [foo][] reference links
-                // - Shortcut: [foo] has no LinkLabel child, extractReferenceLabel returns null
-                // - Collapsed: [foo][] has LinkLabel child with value "[]"
-                if (!label || label === '[]') {
-                    label = view.state.doc.sliceString(from, to);
-                    // Strip trailing [] for collapsed reference links
-                    label = label.replace(/\[\]$/, '');
-                }
+                // If no URL found, check if it's a reference link ([text][ref], [foo][], or [foo])
+                const label = getReferenceLinkLabel(node.node, view);
 
                 if (label) {
                     const refUrl = findReferenceDefinition(view, label);
                     const classified = refUrl ? classifyUrl(refUrl) : null;
 
                     if (classified) {
-                        // Reference links: mark as such so Fetch Link Title can be hidden
                         context = {
                             contextType: 'link',
                             ...classified,
                             from,
                             to,
                             isReferenceLink: true,
+                            // Fetch Link Title rewrites only the bracket text, keeping the label
+                            markdownLinkFrom: from,
+                            markdownLinkTo: to,
+                            referenceLabel: label,
+                            linkText: extractLinkText(node.node, view) ?? undefined,
+                            expectedText: view.state.doc.sliceString(from, to),
                         };
                         return false; // Stop iteration
                     }
@@ -258,6 +265,7 @@ function detectPrimaryContext(view: EditorView, pos: number): LinkContext | Code
                         ...classified,
                         from,
                         to,
+                        linkText: extractLinkText(node.node, view) ?? undefined,
                         isImage: true,
                     };
                     return false; // Stop iteration
@@ -271,12 +279,14 @@ function detectPrimaryContext(view: EditorView, pos: number): LinkContext | Code
                 const classified = classifyUrl(url);
 
                 if (classified) {
+                    // A reference definition's URL ([ref]: url) must not be turned into a link
+                    const isDefinitionUrl = node.node.parent?.type.name === 'LinkReference';
                     context = {
                         contextType: 'link',
                         ...classified,
                         from,
                         to,
-                        expectedText: urlText,
+                        expectedText: isDefinitionUrl ? undefined : urlText,
                     };
                     return false; // Stop iteration
                 }
@@ -300,6 +310,15 @@ function detectPrimaryContext(view: EditorView, pos: number): LinkContext | Code
         },
     });
 
+    // If no context found yet, check for wikilinks ([[Note]]), which the
+    // markdown parser doesn't recognize either
+    if (!context) {
+        const wikilink = getWikilinkAtPosition(view, pos);
+        if (wikilink) {
+            context = { contextType: 'wikilink', ...wikilink };
+        }
+    }
+
     // If no context found yet, check for footnotes
     // CodeMirror's markdown parser does not recognize footnote syntax,
     // so we detect them via regex on the current line
@@ -470,12 +489,12 @@ function buildTaskContext(tasks: TaskInfo[]): TaskContext {
 }
 
 /**
- * Detects external HTTP(S) links across all non-empty CodeMirror selection ranges.
- * Only includes external URLs (not Joplin resources, emails, or anchors).
- * Excludes reference-style links since they can't be updated in place.
+ * Detects titleable links across all non-empty CodeMirror selection ranges:
+ * external URLs and links to Joplin notes/resources (not emails or anchors).
+ * Reference-style links are included when their label resolves to such a URL.
  *
  * @param view - CodeMirror EditorView
- * @returns LinkSelectionContext if external links found, null otherwise
+ * @returns LinkSelectionContext if links found, null otherwise
  */
 function detectLinksInSelection(view: EditorView): LinkSelectionContext | null {
     const links: LinkInfo[] = [];
@@ -501,7 +520,29 @@ function detectLinksInSelection(view: EditorView): LinkSelectionContext | null {
 }
 
 /**
- * Scans a single range for external link/URL/autolink nodes, appending any
+ * Collects every titleable link in the document, in document order, the
+ * same way as {@link detectLinksInSelection} does for a selection. Parses the
+ * rest of the document first, since the editor only parses what it has shown.
+ *
+ * @param view - CodeMirror EditorView
+ */
+export function detectLinksInDocument(view: EditorView): LinkInfo[] {
+    const links: LinkInfo[] = [];
+    ensureSyntaxTree(view.state, view.state.doc.length, DOCUMENT_PARSE_TIMEOUT_MS);
+    collectLinksInRange(view, 0, view.state.doc.length, links, new Set<string>());
+    return links.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Returns true for link types that batch link commands collect. Joplin
+ * note/resource links only appear as markdown links, never as bare URLs.
+ */
+function isCollectedLinkType(type: LinkType): boolean {
+    return type === LinkType.ExternalUrl || type === LinkType.JoplinResource;
+}
+
+/**
+ * Scans a single range for link/URL/autolink nodes, appending any
  * matches to the shared `links` array. `seenRanges` deduplicates by absolute
  * position so overlapping ranges don't yield the same link twice.
  */
@@ -528,8 +569,8 @@ function collectLinksInRange(
                 const extracted = extractUrl(node.node, view);
                 if (extracted) {
                     const classified = classifyUrl(extracted.url);
-                    // Only include external URLs
-                    if (classified && classified.type === LinkType.ExternalUrl) {
+                    // Only include external URLs and links to notes/resources
+                    if (classified && isCollectedLinkType(classified.type)) {
                         const key = `${extracted.from}-${extracted.to}`;
                         if (!seenRanges.has(key)) {
                             seenRanges.add(key);
@@ -546,14 +587,21 @@ function collectLinksInRange(
                             });
                         }
                     }
+                } else {
+                    collectReferenceLink(view, node.node, links, seenRanges);
                 }
-                // Skip reference links (no extracted URL)
                 return false;
             }
             // Handle bare URLs
             else if (type.name === 'URL' || type.name === 'Autolink') {
                 const parentType = node.node.parent?.type.name;
-                if (parentType === 'Image' || parentType === 'HTMLTag' || parentType === 'HTMLBlock') {
+                if (
+                    parentType === 'Image' ||
+                    parentType === 'HTMLTag' ||
+                    parentType === 'HTMLBlock' ||
+                    // Reference definition URLs ([ref]: url) are resolved through their links
+                    parentType === 'LinkReference'
+                ) {
                     return;
                 }
                 if (type.name === 'URL' && node.node.parent?.type.name === 'Autolink') {
@@ -583,3 +631,35 @@ function collectLinksInRange(
         },
     });
 }
+
+/**
+ * Appends a reference-style link ([text][ref], [foo][], or [foo]) whose label
+ * resolves to an external URL or a note/resource. The whole link is the replacement range; the
+ * label is kept so only the bracket text changes.
+ */
+function collectReferenceLink(view: EditorView, node: SyntaxNode, links: LinkInfo[], seenRanges: Set<string>): void {
+    const label = getReferenceLinkLabel(node, view);
+    const refUrl = label ? findReferenceDefinition(view, label) : null;
+    const classified = refUrl ? classifyUrl(refUrl) : null;
+
+    if (!label || !classified || !isCollectedLinkType(classified.type)) {
+        return;
+    }
+
+    const key = `${node.from}-${node.to}`;
+    if (seenRanges.has(key)) {
+        return;
+    }
+    seenRanges.add(key);
+
+    links.push({
+        url: classified.url,
+        type: classified.type,
+        from: node.from,
+        to: node.to,
+        markdownLinkFrom: node.from,
+        markdownLinkTo: node.to,
+        referenceLabel: label,
+        expectedText: view.state.doc.sliceString(node.from, node.to),
+    });
+}
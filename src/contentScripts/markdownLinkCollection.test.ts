@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { EditorSelection, EditorState } from '@codemirror/state';
+import { markdown } from '@codemirror/lang-markdown';
+import { GFM } from '@lezer/markdown';
+import { collectMarkdownLinks } from './markdownLinkCollection';
+
+describe('collectMarkdownLinks', () => {
+    const createView = (doc: string, from = 0, to = from) => {
+        const state = EditorState.create({
+            doc,
+            selection: EditorSelection.single(from, to),
+            extensions: [markdown({ extensions: [GFM] })],
+        });
+        return { state } as any;
+    };
+
+    it('collects inline and reference links with their text, destination and label', () => {
+        const doc = [
+            'See [the *docs*](<a b.md> "Docs"), [Repo][r], [Repo][] and [r].',
+            '',
+            '![logo][r] [^1]',
+            '',
+            '[r]: https://github.com',
+            '[^1]: https://example.com',
+        ].join('\n');
+
+        const snapshot = collectMarkdownLinks(createView(doc));
+
+        expect(snapshot.links).toEqual([
+            expect.objectContaining({ text: 'the *docs*', destination: '<a b.md>', linkTitleToken: '"Docs"' }),
+            expect.objectContaining({ text: 'Repo', referenceLabel: '[r]' }),
+            expect.objectContaining({ text: 'Repo', referenceLabel: '[Repo]' }),
+            expect.objectContaining({ text: 'r', referenceLabel: '[r]' }),
+            expect.objectContaining({ text: 'logo', referenceLabel: '[r]', isImage: true }),
+        ]);
+        expect(snapshot.links[0].expectedText).toBe('[the *docs*](<a b.md> "Docs")');
+        expect(snapshot.definitions).toEqual([
+            {
+                from: doc.indexOf('[r]:'),
+                to: doc.indexOf('[^1]:'),
+                label: '[r]',
+                destination: 'https://github.com',
+                expectedText: '[r]: https://github.com\n',
+            },
+        ]);
+        expect(snapshot.endsWithDefinition).toBe(false);
+    });
+
+    it('uses the selection ranges, or the whole document without a selection', () => {
+        const doc = '[a](https://a.example)\n\n[b]: https://b.example\n\n';
+
+        expect(collectMarkdownLinks(createView(doc, 1)).ranges).toEqual([{ from: 0, to: doc.length }]);
+        expect(collectMarkdownLinks(createView(doc, 0, 5)).ranges).toEqual([{ from: 0, to: 5 }]);
+        expect(collectMarkdownLinks(createView(doc))).toMatchObject({
+            docLength: doc.length,
+            trailingLineBreaks: 2,
+            endsWithDefinition: true,
+        });
+    });
+});
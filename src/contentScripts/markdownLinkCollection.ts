@@ -0,0 +1,149 @@
+/**
+ * Collects the markdown links and reference definitions of the editor document
+ * for converting links between inline and reference style. The edits are
+ * planned by the main plugin (`linkStyleConversion.ts`).
+ */
+
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
+import { EditorView } from '@codemirror/view';
+import { SyntaxNode } from '@lezer/common';
+import type { MarkdownLinkInfo, MarkdownLinksSnapshot, ReferenceDefinitionInfo } from '../types';
+import { extractLinkText } from './parsingUtils';
+
+/** How long to let the parser catch up before scanning the whole document, in milliseconds */
+const PARSE_TIMEOUT_MS = 1000;
+
+/** `[^1]` footnotes parse like shortcut reference links but aren't links */
+function isFootnoteLabel(label: string): boolean {
+    return label.startsWith('[^');
+}
+
+/**
+ * Reads a Link or Image node. Inline links get their destination and title
+ * token; reference links get the label they point to (the link text for
+ * collapsed `[foo][]` and shortcut `[foo]` links).
+ */
+function readLink(node: SyntaxNode, view: EditorView): MarkdownLinkInfo | null {
+    const { doc } = view.state;
+    const text = extractLinkText(node, view);
+    if (text === null) {
+        return null;
+    }
+
+    let isInline = false;
+    let destination: string | undefined;
+    let linkTitleToken: string | undefined;
+    let label: string | undefined;
+
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        const source = doc.sliceString(child.from, child.to);
+        if (child.name === 'LinkMark' && source === '(') {
+            isInline = true;
+        } else if (isInline && child.name === 'URL') {
+            destination = source;
+        } else if (isInline && child.name === 'LinkTitle') {
+            linkTitleToken = source;
+        } else if (child.name === 'LinkLabel') {
+            label = source;
+        }
+    }
+
+    const link = {
+        from: node.from,
+        to: node.to,
+        text,
+        expectedText: doc.sliceString(node.from, node.to),
+        ...(node.name === 'Image' ? { isImage: true } : {}),
+    };
+
+    if (isInline) {
+        // `[text]()` has nothing to move into a definition
+        return destination ? { ...link, destination, ...(linkTitleToken ? { linkTitleToken } : {}) } : null;
+    }
+
+    const referenceLabel = label && label !== '[]' ? label : `[${link.text}]`;
+    return isFootnoteLabel(referenceLabel) ? null : { ...link, referenceLabel };
+}
+
+/**
+ * Reads a LinkReference node. The range is widened to whole lines so removing
+ * the definition doesn't leave an empty line behind.
+ */
+function readDefinition(node: SyntaxNode, view: EditorView): ReferenceDefinitionInfo | null {
+    const { doc } = view.state;
+    let label: string | undefined;
+    let destination: string | undefined;
+    let linkTitleToken: string | undefined;
+
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        const text = doc.sliceString(child.from, child.to);
+        if (child.name === 'LinkLabel') {
+            label = text;
+        } else if (child.name === 'URL') {
+            destination = text;
+        } else if (child.name === 'LinkTitle') {
+            linkTitleToken = text;
+        }
+    }
+
+    if (!label || !destination || isFootnoteLabel(label)) {
+        return null;
+    }
+
+    const from = doc.lineAt(node.from).from;
+    const lineEnd = doc.lineAt(node.to).to;
+    const to = lineEnd < doc.length ? lineEnd + 1 : lineEnd;
+    return {
+        from,
+        to,
+        label,
+        destination,
+        ...(linkTitleToken ? { linkTitleToken } : {}),
+        expectedText: doc.sliceString(from, to),
+    };
+}
+
+/**
+ * Collects every markdown link and reference definition of the document, and
+ * the ranges to convert: the non-empty selection ranges, or the whole document
+ * if nothing is selected.
+ *
+ * @param view - CodeMirror 6 EditorView instance
+ */
+export function collectMarkdownLinks(view: EditorView): MarkdownLinksSnapshot {
+    const { doc, selection } = view.state;
+    const links: MarkdownLinkInfo[] = [];
+    const definitions: ReferenceDefinitionInfo[] = [];
+    let lastDefinitionEnd = -1;
+
+    const tree = ensureSyntaxTree(view.state, doc.length, PARSE_TIMEOUT_MS) ?? syntaxTree(view.state);
+    tree.iterate({
+        enter: (node) => {
+            if (node.name === 'Link' || node.name === 'Image') {
+                const link = readLink(node.node, view);
+                if (link) {
+                    links.push(link);
+                }
+            } else if (node.name === 'LinkReference') {
+                const definition = readDefinition(node.node, view);
+                if (definition) {
+                    definitions.push(definition);
+                    lastDefinitionEnd = node.to;
+                }
+                return false;
+            }
+        },
+    });
+
+    const selected = selection.ranges.filter((range) => !range.empty).map(({ from, to }) => ({ from, to }));
+    const trimmedLength = doc.sliceString(0, doc.length).trimEnd().length;
+
+    return {
+        links,
+        definitions,
+        ranges: selected.length > 0 ? selected : [{ from: 0, to: doc.length }],
+        docLength: doc.length,
+        trailingLineBreaks: doc.sliceString(Math.max(0, doc.length - 2)).replace(/[^\n]/g, '').length,
+        endsWithDefinition: lastDefinitionEnd >= 0 && lastDefinitionEnd >= trimmedLength,
+    };
+}
@@ -4,6 +4,7 @@ import {
     parseImageTag,
     parseInlineCode,
     extractReferenceLabel,
+    getReferenceLinkLabel,
     findReferenceDefinition,
     findFootnoteDefinition,
     extractUrl,
@@ -52,9 +53,34 @@ describe('parsingUtils', () => {
             });
         });
 
+        it('should identify Joplin URLs', () => {
+            const url = 'joplin://x-callback-url/openNote?id=a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4';
+            expect(classifyUrl(url)).toEqual({ url, type: LinkType.JoplinUrl });
+        });
+
+        it('should identify other URL schemes', () => {
+            for (const url of [
+                'file:///home/me/a.txt',
+                'ftp://example.com/f',
+                'obsidian://open?vault=v',
+                'tel:+15550100',
+            ]) {
+                expect(classifyUrl(url)).toEqual({ url, type: LinkType.CustomScheme });
+            }
+        });
+
+        it('should return null for script and data URLs', () => {
+            expect(classifyUrl('javascript:alert(1)')).toBeNull();
+            expect(classifyUrl('JavaScript:void(0)')).toBeNull();
+            expect(classifyUrl('data:text/html,<b>x</b>')).toBeNull();
+            expect(classifyUrl('vbscript:msgbox(1)')).toBeNull();
+        });
+
         it('should return null for invalid URLs', () => {
             expect(classifyUrl('invalid-url')).toBeNull();
             expect(classifyUrl('/local/path')).toBeNull();
+            expect(classifyUrl('C:/Users/me/a.txt')).toBeNull();
+            expect(classifyUrl('note:')).toBeNull();
         });
     });
 
@@ -214,6 +240,21 @@ describe('parsingUtils', () => {
             });
         });
 
+        describe('getReferenceLinkLabel', () => {
+            it('returns the explicit label of a full reference link', () => {
+                expect(extractFromFirstLink('[Google][2]', getReferenceLinkLabel)).toBe('[2]');
+            });
+
+            it('uses the link text for shortcut and collapsed reference links', () => {
+                expect(extractFromFirstLink('[Google]\n\n[Google]: https://google.com', getReferenceLinkLabel)).toBe(
+                    '[Google]'
+                );
+                expect(extractFromFirstLink('[Google][]\n\n[Google]: https://google.com', getReferenceLinkLabel)).toBe(
+                    '[Google]'
+                );
+            });
+        });
+
         describe('findReferenceDefinition', () => {
             it('should find definition for label', () => {
                 const text = '[Google][2]\n\n[2]: https://google.com';
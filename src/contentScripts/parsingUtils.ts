@@ -78,6 +78,9 @@ export function parseImageTag(htmlText: string): Omit<LinkContext, 'from' | 'to'
     return classifyUrl(url);
 }
 
+/** Schemes that run script or inline content when opened; never treated as links. */
+const UNSAFE_URL_SCHEME = /^(?:javascript|data|vbscript):/i;
+
 /**
  * Classifies a URL and determines its type
  * @param url - The URL to classify
@@ -91,9 +94,14 @@ export function classifyUrl(url: string): Omit<LinkContext, 'from' | 'to' | 'con
         return { url, type: LinkType.Email };
     } else if (url.match(/^https?:\/\//)) {
         return { url, type: LinkType.ExternalUrl };
+    } else if (url.match(/^joplin:\/\//i)) {
+        return { url, type: LinkType.JoplinUrl };
     } else if (url.match(/^#[^\s]+$/)) {
         // Internal anchor link (e.g., #heading-slug)
         return { url, type: LinkType.InternalAnchor };
+    } else if (url.match(/^[a-z][a-z0-9+.-]+:\S/i) && !UNSAFE_URL_SCHEME.test(url)) {
+        // Other schemes (file://, tel:, ...); single letters are Windows drive letters
+        return { url, type: LinkType.CustomScheme };
     }
 
     return null;
@@ -154,6 +162,26 @@ export function parseCodeBlock(
     return { code: match[1] };
 }
 
+/**
+ * Returns the text between the brackets of a Link or Image node (`text` of
+ * `[text](url)` or `[text][ref]`), as written
+ */
+export function extractLinkText(node: SyntaxNode, view: EditorView): string | null {
+    let textFrom = -1;
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.name !== 'LinkMark') {
+            continue;
+        }
+        const mark = view.state.doc.sliceString(child.from, child.to);
+        if (textFrom < 0 && mark.endsWith('[')) {
+            textFrom = child.to;
+        } else if (textFrom >= 0 && mark === ']') {
+            return view.state.doc.sliceString(textFrom, child.from);
+        }
+    }
+    return null;
+}
+
 /**
  * Extracts reference label from a Link node (e.g. "2" from [Google][2])
  */
@@ -170,6 +198,23 @@ export function extractReferenceLabel(node: SyntaxNode, view: EditorView): strin
     return null;
 }
 
+/**
+ * Returns the bracketed reference label a reference-style Link node points to.
+ * Handles full ([text][ref] → "[ref]"), collapsed ([foo][] → "[foo]"), and
+ * shortcut ([foo] → "[foo]") references. Does not check that a definition exists.
+ */
+export function getReferenceLinkLabel(node: SyntaxNode, view: EditorView): string | null {
+    const label = extractReferenceLabel(node, view);
+
+    // Shortcut [foo] has no LinkLabel child; collapsed [foo][] has LinkLabel "[]".
+    // Either way the link text itself is the label.
+    if (!label || label === '[]') {
+        return view.state.doc.sliceString(node.from, node.to).replace(/\[\]$/, '') || null;
+    }
+
+    return label;
+}
+
 /**
  * Finds the URL defined for a reference label
  * Scans the document using a cursor to allow early exit
@@ -0,0 +1,30 @@
+/**
+ * Writes HTML and plain text to the clipboard together. The plugin clipboard
+ * API writes one format at a time, so this goes through a copy event in the
+ * editor's document instead.
+ */
+
+/**
+ * Copies `html` with `text` as its plain text alternative. Returns false if
+ * the copy event didn't run (the caller can fall back to the plugin API).
+ */
+export function writeRichClipboard(doc: Document, html: string, text: string): boolean {
+    let written = false;
+    const onCopy = (event: ClipboardEvent) => {
+        if (!event.clipboardData) {
+            return;
+        }
+        event.clipboardData.setData('text/html', html);
+        event.clipboardData.setData('text/plain', text);
+        event.preventDefault();
+        written = true;
+    };
+
+    doc.addEventListener('copy', onCopy, true);
+    try {
+        doc.execCommand('copy');
+    } finally {
+        doc.removeEventListener('copy', onCopy, true);
+    }
+    return written;
+}
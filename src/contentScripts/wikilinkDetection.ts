@@ -0,0 +1,67 @@
+/**
+ * Wikilink detection for the markdown editor. The markdown parser doesn't know
+ * `[[...]]`, so wikilinks are found by scanning lines with `findWikilinks`;
+ * the syntax tree is only used to skip those inside code.
+ */
+
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
+import { EditorView } from '@codemirror/view';
+import { SyntaxNode } from '@lezer/common';
+import type { WikilinkInfo } from '../types';
+import { findWikilinks } from '../utils/wikilinks';
+
+/** How long to let the parser catch up before scanning far beyond the viewport, in milliseconds */
+const PARSE_TIMEOUT_MS = 1000;
+
+const CODE_NODE_NAMES = new Set(['InlineCode', 'CodeText', 'FencedCode', 'CodeBlock']);
+
+function isInCode(view: EditorView, pos: number): boolean {
+    for (let node: SyntaxNode | null = syntaxTree(view.state).resolveInner(pos, 1); node; node = node.parent) {
+        if (CODE_NODE_NAMES.has(node.name)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns the wikilink under the cursor, or null.
+ *
+ * @param view - CodeMirror 6 EditorView instance
+ * @param pos - Cursor position to check
+ */
+export function getWikilinkAtPosition(view: EditorView, pos: number): WikilinkInfo | null {
+    const line = view.state.doc.lineAt(pos);
+    const wikilink = findWikilinks(line.text, line.from).find(
+        (candidate) => pos >= candidate.from && pos <= candidate.to
+    );
+    return wikilink && !isInCode(view, wikilink.from) ? wikilink : null;
+}
+
+/**
+ * Returns the wikilinks that overlap any of the ranges, in document order.
+ * Whole lines are scanned so wikilinks cut by a range edge are still found.
+ *
+ * @param view - CodeMirror 6 EditorView instance
+ * @param ranges - Ranges to scan, e.g. the selection or the whole document
+ */
+export function getWikilinksInRanges(
+    view: EditorView,
+    ranges: ReadonlyArray<{ from: number; to: number }>
+): WikilinkInfo[] {
+    const { doc } = view.state;
+    const wikilinks = new Map<number, WikilinkInfo>();
+    ensureSyntaxTree(view.state, Math.max(0, ...ranges.map((range) => range.to)), PARSE_TIMEOUT_MS);
+
+    for (const range of ranges) {
+        const from = doc.lineAt(range.from).from;
+        const to = doc.lineAt(range.to).to;
+        for (const wikilink of findWikilinks(doc.sliceString(from, to), from)) {
+            if (wikilink.from < range.to && wikilink.to > range.from && !isInCode(view, wikilink.from)) {
+                wikilinks.set(wikilink.from, wikilink);
+            }
+        }
+    }
+
+    return [...wikilinks.values()].sort((a, b) => a.from - b.from);
+}
@@ -0,0 +1,77 @@
+import joplin from 'api';
+import { escapeHtml } from '../utils/htmlUtils';
+import { LinkEditFields, parseLinkEditForm } from '../utils/linkEditing';
+
+const DIALOG_ID = 'contextUtils-linkEditDialog';
+const EDIT_FORM_NAME = 'linkEdit';
+
+let dialogHandle: string | null = null;
+
+async function getDialog(): Promise<string> {
+    if (dialogHandle) {
+        return dialogHandle;
+    }
+
+    const handle = await joplin.views.dialogs.create(DIALOG_ID);
+    await joplin.views.dialogs.addScript(handle, './dialogs/linkEditWebview.css');
+    await joplin.views.dialogs.setButtons(handle, [
+        { id: 'ok', title: 'Save' },
+        { id: 'cancel', title: 'Cancel' },
+    ]);
+    await joplin.views.dialogs.setFitToContent(handle, false);
+
+    dialogHandle = handle;
+    return handle;
+}
+
+/** What kind of link is being edited, for the field labels and hints. */
+export interface LinkEditDialogOptions {
+    isImage?: boolean;
+    isReferenceLink?: boolean;
+}
+
+function buildFieldHtml(name: keyof LinkEditFields, label: string, value: string): string {
+    return `
+        <label for="${name}">${label}</label>
+        <input type="text" name="${name}" id="${name}" value="${escapeHtml(value)}">`;
+}
+
+/**
+ * Builds the dialog markup. The dialog needs no script: the fields come back
+ * in the form data.
+ */
+function buildDialogHtml(fields: LinkEditFields, options: LinkEditDialogOptions): string {
+    const referenceHint = options.isReferenceLink
+        ? '<p class="hint">The URL and title are changed in the reference definition, for every link that uses it.</p>'
+        : '';
+
+    return `
+        <div id="linkEdit">
+            <h2>${options.isImage ? 'Edit Image' : 'Edit Link'}</h2>
+            ${referenceHint}
+            <form name="${EDIT_FORM_NAME}">
+                ${buildFieldHtml('text', options.isImage ? 'Alt text' : 'Text', fields.text)}
+                ${buildFieldHtml('url', 'URL', fields.url)}
+                ${buildFieldHtml('title', 'Title (optional)', fields.title)}
+            </form>
+        </div>`;
+}
+
+/**
+ * Shows the link's text, URL and title for editing.
+ * @returns The edited fields, or null if the user cancelled
+ */
+export async function editLinkFields(
+    fields: LinkEditFields,
+    options: LinkEditDialogOptions = {}
+): Promise<LinkEditFields | null> {
+    const handle = await getDialog();
+    await joplin.views.dialogs.setHtml(handle, buildDialogHtml(fields, options));
+
+    const result = await joplin.views.dialogs.open(handle);
+    if (result.id !== 'ok') {
+        return null;
+    }
+
+    return parseLinkEditForm(result.formData?.[EDIT_FORM_NAME]);
+}
@@ -0,0 +1,77 @@
+import joplin from 'api';
+import { escapeHtml } from '../utils/htmlUtils';
+import { LinkTitleReviewDecision, LinkTitleReviewItem, parseLinkTitleReviewForm } from '../utils/linkTitleReview';
+
+const DIALOG_ID = 'contextUtils-linkTitleReviewDialog';
+const REVIEW_FORM_NAME = 'linkTitleReview';
+
+let dialogHandle: string | null = null;
+
+async function getDialog(): Promise<string> {
+    if (dialogHandle) {
+        return dialogHandle;
+    }
+
+    const handle = await joplin.views.dialogs.create(DIALOG_ID);
+    await joplin.views.dialogs.addScript(handle, './dialogs/linkTitleReviewWebview.css');
+    await joplin.views.dialogs.setButtons(handle, [
+        { id: 'ok', title: 'Apply' },
+        { id: 'cancel', title: 'Cancel' },
+    ]);
+    await joplin.views.dialogs.setFitToContent(handle, false);
+
+    dialogHandle = handle;
+    return handle;
+}
+
+function buildItemHtml(item: LinkTitleReviewItem, index: number): string {
+    const checked = item.isFallback ? '' : ' checked';
+    const fallbackNote = item.isFallback ? '<span class="fallback">title not found, domain used</span>' : '';
+
+    return `
+        <tr>
+            <td><input type="checkbox" name="accept${index}" id="accept${index}"${checked}></td>
+            <td>
+                <label for="accept${index}" class="current">${escapeHtml(item.currentText)}</label>
+                <div class="url">${escapeHtml(item.url)}</div>
+            </td>
+            <td>
+                <input type="text" name="text${index}" value="${escapeHtml(item.proposedText)}">
+                ${fallbackNote}
+            </td>
+        </tr>`;
+}
+
+/**
+ * Builds the dialog markup. The dialog needs no script: checked boxes and the
+ * text fields come back in the form data.
+ */
+function buildDialogHtml(items: LinkTitleReviewItem[]): string {
+    return `
+        <div id="linkTitleReview">
+            <h2>Review Link Titles</h2>
+            <p class="hint">Uncheck a link to leave it unchanged, or edit its new text before applying.</p>
+            <form name="${REVIEW_FORM_NAME}">
+                <table>
+                    <thead><tr><th></th><th>Current text</th><th>New text</th></tr></thead>
+                    <tbody>${items.map(buildItemHtml).join('')}</tbody>
+                </table>
+            </form>
+        </div>`;
+}
+
+/**
+ * Shows the proposed link texts for review.
+ * @returns One decision per item, or null if the user cancelled
+ */
+export async function reviewLinkTitles(items: LinkTitleReviewItem[]): Promise<LinkTitleReviewDecision[] | null> {
+    const handle = await getDialog();
+    await joplin.views.dialogs.setHtml(handle, buildDialogHtml(items));
+
+    const result = await joplin.views.dialogs.open(handle);
+    if (result.id !== 'ok') {
+        return null;
+    }
+
+    return parseLinkTitleReviewForm(result.formData?.[REVIEW_FORM_NAME], items.length);
+}
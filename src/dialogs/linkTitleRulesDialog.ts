@@ -0,0 +1,137 @@
+import joplin from 'api';
+import { logger } from '../logger';
+import { saveSettingValue, settingsCache } from '../settings';
+import { showToast, ToastType } from '../utils/toastUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+import {
+    LinkTitleRuleRow,
+    loadLinkTitleRuleRows,
+    serializeLinkTitleRules,
+    testLinkTitleRules,
+    validateLinkTitleRule,
+} from '../utils/linkTitleRulesEditor';
+
+const DIALOG_ID = 'contextUtils-linkTitleRulesDialog';
+
+/** Name of the form (and hidden field) the webview keeps in sync with the edited rows. */
+const RULES_FORM_NAME = 'linkTitleRules';
+const RULES_FIELD_NAME = 'rules';
+
+/** Message posted by the webview whenever a rule or the test URLs change. */
+interface CheckRulesMessage {
+    type: 'checkRules';
+    rules: LinkTitleRuleRow[];
+    testUrls: string;
+}
+
+let dialogHandle: string | null = null;
+
+function isCheckRulesMessage(message: unknown): message is CheckRulesMessage {
+    const candidate = message as Partial<CheckRulesMessage> | null;
+    return candidate?.type === 'checkRules' && Array.isArray(candidate.rules) && typeof candidate.testUrls === 'string';
+}
+
+function toRows(json: string): LinkTitleRuleRow[] {
+    return loadLinkTitleRuleRows(json).rows;
+}
+
+/**
+ * Validates the rows and runs the test URLs for the webview.
+ */
+function handleDialogMessage(message: unknown) {
+    if (!isCheckRulesMessage(message)) {
+        logger.warn('Ignoring unknown link title rules dialog message:', message);
+        return null;
+    }
+
+    const rows = toRows(JSON.stringify(message.rules));
+    return {
+        errors: rows.map(validateLinkTitleRule),
+        results: testLinkTitleRules(rows, message.testUrls.split('\n')),
+    };
+}
+
+async function getDialog(): Promise<string> {
+    if (dialogHandle) {
+        return dialogHandle;
+    }
+
+    const handle = await joplin.views.dialogs.create(DIALOG_ID);
+    await joplin.views.dialogs.addScript(handle, './dialogs/linkTitleRulesWebview.css');
+    await joplin.views.dialogs.addScript(handle, './dialogs/linkTitleRulesWebview.js');
+    await joplin.views.dialogs.setButtons(handle, [
+        { id: 'ok', title: 'Save' },
+        { id: 'cancel', title: 'Cancel' },
+    ]);
+    await joplin.views.dialogs.setFitToContent(handle, false);
+    await joplin.views.panels.onMessage(handle, handleDialogMessage);
+
+    dialogHandle = handle;
+    return handle;
+}
+
+/**
+ * Builds the dialog markup. The webview script renders the rule list from
+ * `data-rules` and mirrors every edit into the hidden form field, which is
+ * what the dialog returns on Save.
+ */
+function buildDialogHtml(rows: LinkTitleRuleRow[], loadError: string | null): string {
+    const rulesJson = escapeHtml(JSON.stringify(rows));
+    const errorHtml = loadError ? `<p class="load-error">${escapeHtml(loadError)}</p>` : '';
+
+    return `
+        <div id="linkTitleRulesEditor" data-rules="${rulesJson}">
+            <h2>Link Title Rules</h2>
+            <p class="hint">
+                Rules are tried in order. Titles can use <code>$1</code>–<code>$9</code>, <code>$&amp;</code>,
+                <code>{domain}</code>, and (fetching the page) <code>{pageTitle}</code> or <code>{og:…}</code>.
+            </p>
+            ${errorHtml}
+            <div class="rules"></div>
+            <button type="button" class="add-rule">Add rule</button>
+            <h3>Test URLs</h3>
+            <textarea class="test-urls" rows="4" placeholder="Paste URLs, one per line"></textarea>
+            <ul class="test-results"></ul>
+            <form name="${RULES_FORM_NAME}">
+                <input type="hidden" name="${RULES_FIELD_NAME}" value="${rulesJson}">
+            </form>
+        </div>`;
+}
+
+/**
+ * Opens the rules editor and saves the edited rules to the `linkTitleRules`
+ * setting when the user clicks Save.
+ */
+export async function openLinkTitleRulesDialog(): Promise<void> {
+    const handle = await getDialog();
+    const { rows, error } = loadLinkTitleRuleRows(settingsCache.linkTitleRules);
+    await joplin.views.dialogs.setHtml(handle, buildDialogHtml(rows, error));
+
+    const result = await joplin.views.dialogs.open(handle);
+    if (result.id !== 'ok') {
+        return;
+    }
+
+    const rulesJson = result.formData?.[RULES_FORM_NAME]?.[RULES_FIELD_NAME];
+    if (typeof rulesJson !== 'string') {
+        // Without the form field we can't tell an emptied list from a webview failure.
+        logger.warn('Link title rules dialog returned no rules; keeping the saved rules.');
+        await showToast('Link title rules were not saved', ToastType.Error);
+        return;
+    }
+
+    const editedRows = toRows(rulesJson);
+    await saveSettingValue('linkTitleRules', serializeLinkTitleRules(editedRows));
+
+    const invalidCount = editedRows.filter(
+        (row) => (row.pattern || row.title.trim()) && validateLinkTitleRule(row)
+    ).length;
+    if (invalidCount > 0) {
+        await showToast(
+            `Saved link title rules; ${invalidCount} invalid rule${invalidCount !== 1 ? 's are' : ' is'} ignored`,
+            ToastType.Info
+        );
+    } else {
+        await showToast('Saved link title rules', ToastType.Success);
+    }
+}
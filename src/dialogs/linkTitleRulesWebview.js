@@ -0,0 +1,171 @@
+/* global webviewApi */
+
+/**
+ * Webview script for the "Edit Link Title Rules" dialog.
+ *
+ * Renders the rule rows from `data-rules`, keeps the hidden form field in sync
+ * with every edit (the dialog returns it on Save), and asks the plugin to
+ * validate the rules and run the test URLs after each change.
+ */
+(function () {
+    const CHECK_DELAY_MS = 200;
+
+    function createButton(label, title, onClick) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = label;
+        button.title = title;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    function createInput(className, placeholder, value, onInput) {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = className;
+        input.placeholder = placeholder;
+        input.value = value;
+        input.spellcheck = false;
+        input.addEventListener('input', () => onInput(input.value));
+        return input;
+    }
+
+    function describeResult(result) {
+        if (result.ruleIndex === null) {
+            return 'No rule matched';
+        }
+        const rule = `Rule ${result.ruleIndex + 1}`;
+        return result.needsPage ? `${rule} (title needs the page to be fetched)` : `${rule} → ${result.title}`;
+    }
+
+    function initialize(root) {
+        const rulesList = root.querySelector('.rules');
+        const testUrls = root.querySelector('.test-urls');
+        const testResults = root.querySelector('.test-results');
+        const rulesField = root.querySelector('input[name="rules"]');
+        let rows = JSON.parse(root.dataset.rules || '[]');
+        let errorElements = [];
+        let checkTimer = null;
+
+        async function check() {
+            const response = await webviewApi.postMessage({
+                type: 'checkRules',
+                rules: rows,
+                testUrls: testUrls.value,
+            });
+            if (!response) {
+                return;
+            }
+
+            response.errors.forEach((error, index) => {
+                if (errorElements[index]) {
+                    errorElements[index].textContent = error || '';
+                    errorElements[index].parentElement.classList.toggle('invalid', Boolean(error));
+                }
+            });
+
+            testResults.replaceChildren(
+                ...response.results.map((result) => {
+                    const item = document.createElement('li');
+                    const url = document.createElement('span');
+                    url.className = 'url';
+                    url.textContent = result.url;
+                    item.append(url, document.createTextNode(describeResult(result)));
+                    item.classList.toggle('no-match', result.ruleIndex === null);
+                    return item;
+                })
+            );
+        }
+
+        function changed() {
+            rulesField.value = JSON.stringify(rows);
+            clearTimeout(checkTimer);
+            checkTimer = setTimeout(check, CHECK_DELAY_MS);
+        }
+
+        function move(index, offset) {
+            const target = index + offset;
+            if (target < 0 || target >= rows.length) {
+                return;
+            }
+            [rows[index], rows[target]] = [rows[target], rows[index]];
+            render();
+        }
+
+        function render() {
+            errorElements = [];
+            rulesList.replaceChildren(
+                ...rows.map((row, index) => {
+                    const element = document.createElement('div');
+                    element.className = 'rule';
+
+                    const number = document.createElement('span');
+                    number.className = 'rule-number';
+                    number.textContent = String(index + 1);
+
+                    const error = document.createElement('div');
+                    error.className = 'rule-error';
+                    errorElements.push(error);
+
+                    element.append(
+                        number,
+                        createInput('pattern', 'Pattern (regex)', row.pattern, (value) => {
+                            row.pattern = value;
+                            changed();
+                        }),
+                        createInput('title', 'Title, e.g. $1', row.title, (value) => {
+                            row.title = value;
+                            changed();
+                        }),
+                        createInput('flags', 'Flags', row.flags, (value) => {
+                            row.flags = value;
+                            changed();
+                        }),
+                        createButton('↑', 'Move up', () => move(index, -1)),
+                        createButton('↓', 'Move down', () => move(index, 1)),
+                        createButton('✕', 'Delete rule', () => {
+                            rows.splice(index, 1);
+                            render();
+                        }),
+                        error
+                    );
+                    return element;
+                })
+            );
+            changed();
+        }
+
+        root.querySelector('.add-rule').addEventListener('click', () => {
+            rows.push({ pattern: '', title: '', flags: '' });
+            render();
+            rulesList.lastElementChild?.querySelector('.pattern')?.focus();
+        });
+        testUrls.addEventListener('input', changed);
+
+        render();
+    }
+
+    // The dialog HTML may be set after this script loads, so wait for it if needed.
+    function start() {
+        const root = document.getElementById('linkTitleRulesEditor');
+        if (root) {
+            initialize(root);
+            return;
+        }
+
+        const observer = new MutationObserver(() => {
+            const addedRoot = document.getElementById('linkTitleRulesEditor');
+            if (addedRoot) {
+                observer.disconnect();
+                initialize(addedRoot);
+            }
+        });
+        observer.observe(document.body, { childList: true, subtree: true });
+    }
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', start);
+    } else {
+        start();
+    }
+})();
@@ -1,17 +1,36 @@
 import joplin from 'api';
-import { LinkContext, EditorContext, LinkType, COMMAND_IDS } from './types';
+import { LinkContext, LinkInfo, EditorContext, LinkType, COMMAND_IDS } from './types';
 import { MenuItem, MenuItemLocation } from 'api/types';
 import { logger } from './logger';
 import { extractJoplinResourceId } from './utils/urlUtils';
 import { getTaskToggleMenuLabel } from './utils/taskToggleUtils';
-import { isFetchableLink, linkContextToLinkInfo, getFetchLinkTitlesMenuLabel } from './utils/linkTitleUtils';
+import {
+    isFetchableLink,
+    linkContextToLinkInfo,
+    getFetchLinkTitlesMenuLabel,
+    parseLinkTitleRules,
+} from './utils/linkTitleUtils';
+import { getCleanUrlsMenuLabel, getResolveRedirectsMenuLabel } from './utils/linkUrlRewrite';
 import { GET_CONTEXT_AT_CURSOR_COMMAND, IS_EDITOR_CONTEXT_MENU_ORIGIN_COMMAND } from './contentScripts/contentScript';
 import { settingsCache } from './settings';
+import { cleanUrl, parseTrackingParameters } from './utils/urlCleaning';
+import { getCustomUrlSchemeActions, parseCustomUrlSchemes } from './utils/customUrlSchemes';
+import {
+    buildLinkifyReplacement,
+    buildUnlinkifyReplacement,
+    getLinkifyMenuLabel,
+    getUnlinkifyMenuLabel,
+    isBareUrlLink,
+} from './utils/linkify';
+import { isShareableLink } from './utils/linkCopyFormats';
 
 const CONTENT_SCRIPT_ID = 'contextUtilsLinkDetection';
 const TOGGLE_TASK_EDIT_MENU_ITEM_ID = 'contextUtilsToggleTaskEditMenuItem';
 const CONTEXTUAL_COPY_EDIT_MENU_ITEM_ID = 'contextUtilsContextualCopyEditMenuItem';
 const FETCH_LINK_TITLES_EDIT_MENU_ITEM_ID = 'contextUtilsFetchLinkTitlesEditMenuItem';
+const FETCH_LINK_TITLES_IN_NOTES_MENU_ITEM_ID = 'contextUtilsFetchLinkTitlesInNotesMenuItem';
+const FETCH_LINK_TITLES_IN_NOTEBOOK_MENU_ITEM_ID = 'contextUtilsFetchLinkTitlesInNotebookMenuItem';
+const CONVERT_ALL_WIKILINKS_EDIT_MENU_ITEM_ID = 'contextUtilsConvertAllWikilinksEditMenuItem';
 const TOGGLE_TASK_ACCELERATOR = 'CmdOrCtrl+Shift+Space';
 const CONTEXTUAL_COPY_ACCELERATOR = 'CmdOrCtrl+Shift+X';
 
@@ -86,14 +105,22 @@ export function registerContextMenuFilter(): void {
                 settingsCache.showOpenLink ||
                 settingsCache.showPinToTabs ||
                 settingsCache.showCopyPath ||
+                settingsCache.showCopyLinkAs ||
+                settingsCache.showCopyLinkAsHtml ||
                 settingsCache.showCopyCode ||
                 settingsCache.showToggleTask ||
                 settingsCache.showGoToFootnote ||
                 settingsCache.showGoToHeading ||
                 settingsCache.showFetchLinkTitle ||
+                settingsCache.showResolveRedirects ||
+                settingsCache.showCleanUrl ||
+                settingsCache.showConvertLinkStyle ||
+                settingsCache.showLinkify ||
+                settingsCache.showEditLink ||
                 settingsCache.showOpenAllLinksInSelection ||
                 settingsCache.showCopyHeadingLink ||
-                settingsCache.showCopyQuote;
+                settingsCache.showCopyQuote ||
+                settingsCache.showConvertWikilink;
 
             // Get contexts directly from editor (pull architecture)
             // This is guaranteed to match the current cursor position
@@ -132,11 +159,27 @@ export function registerContextMenuFilter(): void {
 
                     const isNote = idType === 'note';
 
-                    // Show "Open Link" for external links and emails only.
-                    if (
-                        settingsCache.showOpenLink &&
-                        (context.type === LinkType.ExternalUrl || context.type === LinkType.Email)
-                    ) {
+                    // Other schemes only get the actions configured for them
+                    const schemeActions =
+                        context.type === LinkType.CustomScheme
+                            ? getCustomUrlSchemeActions(
+                                  context.url,
+                                  parseCustomUrlSchemes(settingsCache.customUrlSchemes)
+                              )
+                            : [];
+                    const isOpenableUrl =
+                        context.type === LinkType.ExternalUrl ||
+                        context.type === LinkType.Email ||
+                        context.type === LinkType.JoplinUrl ||
+                        schemeActions.includes('open');
+                    const isCopyableUrl =
+                        context.type === LinkType.ExternalUrl ||
+                        context.type === LinkType.Email ||
+                        context.type === LinkType.JoplinUrl ||
+                        schemeActions.includes('copy');
+
+                    // Show "Open Link" for external links, emails, Joplin URLs and configured schemes.
+                    if (settingsCache.showOpenLink && isOpenableUrl) {
                         contextSensitiveItems.push({
                             commandName: COMMAND_IDS.OPEN_LINK,
                             commandArgs: [context],
@@ -154,10 +197,7 @@ export function registerContextMenuFilter(): void {
                         });
                     }
 
-                    if (
-                        (context.type === LinkType.ExternalUrl || context.type === LinkType.Email) &&
-                        settingsCache.showCopyPath
-                    ) {
+                    if (isCopyableUrl && settingsCache.showCopyPath) {
                         // For external URLs and emails, still show copy option
                         contextSensitiveItems.push({
                             commandName: COMMAND_IDS.COPY_PATH,
@@ -166,7 +206,19 @@ export function registerContextMenuFilter(): void {
                         });
                     }
 
-                    // Show "Fetch Link Title" only for fetchable external HTTP(S) URLs
+                    if (schemeActions.includes('path') && settingsCache.showCopyPath) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.COPY_DECODED_PATH,
+                            commandArgs: [context],
+                            label: 'Copy Path',
+                        });
+                    }
+
+                    if (!context.isImage) {
+                        contextSensitiveItems.push(...getCopyLinkAsMenuItems(context));
+                    }
+
+                    // Show "Fetch Link Title" only for fetchable external HTTP(S) URLs and note/resource links
                     if (settingsCache.showFetchLinkTitle && isFetchableLink(context)) {
                         contextSensitiveItems.push({
                             commandName: COMMAND_IDS.FETCH_LINK_TITLES,
@@ -175,6 +227,42 @@ export function registerContextMenuFilter(): void {
                         });
                     }
 
+                    // Only external URLs can be rewritten. Reference links are skipped:
+                    // their URL lives in the definition
+                    const isRewritableUrl =
+                        isFetchableLink(context) && context.type === LinkType.ExternalUrl && !context.isReferenceLink;
+                    if (settingsCache.showResolveRedirects && isRewritableUrl) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.RESOLVE_REDIRECTS,
+                            commandArgs: [[linkContextToLinkInfo(context)]],
+                            label: getResolveRedirectsMenuLabel(1),
+                        });
+                    }
+
+                    if (settingsCache.showCleanUrl && isRewritableUrl && isUnclean(context.url)) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.CLEAN_URLS,
+                            commandArgs: [[linkContextToLinkInfo(context)]],
+                            label: getCleanUrlsMenuLabel(1),
+                        });
+                    }
+
+                    if (settingsCache.showLinkify && !context.isImage) {
+                        contextSensitiveItems.push(...getLinkifyMenuItems([linkContextToLinkInfo(context)]));
+                    }
+
+                    // Markdown links and images only: bare URLs, autolinks and HTML images have no fields to edit
+                    if (
+                        settingsCache.showEditLink &&
+                        (context.markdownLinkFrom !== undefined || (context.isImage && context.linkText !== undefined))
+                    ) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.EDIT_LINK,
+                            commandArgs: [context],
+                            label: context.isImage ? 'Edit Image...' : 'Edit Link...',
+                        });
+                    }
+
                     if (context.type === LinkType.InternalAnchor && settingsCache.showGoToHeading) {
                         // For internal anchor links (#heading), show "Go to heading"
                         contextSensitiveItems.push({
@@ -230,12 +318,42 @@ export function registerContextMenuFilter(): void {
                             label: 'Copy Quote',
                         });
                     }
+                } else if (context.contextType === 'wikilink') {
+                    if (settingsCache.showOpenLink) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.OPEN_WIKILINK,
+                            commandArgs: [context],
+                            label: 'Open Note',
+                        });
+                    }
+
+                    if (settingsCache.showPinToTabs) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.PIN_WIKILINK_TO_TABS,
+                            commandArgs: [context],
+                            label: 'Open Note as Pinned Tab',
+                        });
+                    }
+
+                    if (settingsCache.showConvertWikilink) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.CONVERT_WIKILINK,
+                            commandArgs: [context],
+                            label: 'Convert to Joplin Link',
+                        });
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.CONVERT_ALL_WIKILINKS,
+                            label: 'Convert All Wikilinks',
+                        });
+                    }
                 } else if (context.contextType === 'linkSelection') {
-                    if (settingsCache.showOpenAllLinksInSelection) {
+                    // Note/resource links are only titled; the other actions work on external URLs
+                    const externalLinks = context.links.filter((link) => link.type === LinkType.ExternalUrl);
+                    if (settingsCache.showOpenAllLinksInSelection && externalLinks.length > 0) {
                         contextSensitiveItems.push({
                             commandName: COMMAND_IDS.OPEN_ALL_LINKS_IN_SELECTION,
-                            commandArgs: [context],
-                            label: `Open All Links (${context.links.length})`,
+                            commandArgs: [{ ...context, links: externalLinks }],
+                            label: `Open All Links (${externalLinks.length})`,
                         });
                     }
 
@@ -247,6 +365,44 @@ export function registerContextMenuFilter(): void {
                             label: getFetchLinkTitlesMenuLabel(context.links.length),
                         });
                     }
+
+                    const resolvableLinks = externalLinks.filter((link) => !link.referenceLabel);
+                    if (settingsCache.showResolveRedirects && resolvableLinks.length > 0) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.RESOLVE_REDIRECTS,
+                            commandArgs: [resolvableLinks],
+                            label: getResolveRedirectsMenuLabel(resolvableLinks.length),
+                        });
+                    }
+
+                    const uncleanLinks = resolvableLinks.filter((link) => isUnclean(link.url));
+                    if (settingsCache.showCleanUrl && uncleanLinks.length > 0) {
+                        contextSensitiveItems.push({
+                            commandName: COMMAND_IDS.CLEAN_URLS,
+                            commandArgs: [uncleanLinks],
+                            label: getCleanUrlsMenuLabel(uncleanLinks.length),
+                        });
+                    }
+
+                    if (settingsCache.showLinkify) {
+                        contextSensitiveItems.push(...getLinkifyMenuItems(context.links));
+                    }
+
+                    // Both conversions work on the whole selection, including links of other types
+                    if (settingsCache.showConvertLinkStyle) {
+                        if (context.links.some((link) => link.markdownLinkFrom !== undefined && !link.referenceLabel)) {
+                            contextSensitiveItems.push({
+                                commandName: COMMAND_IDS.CONVERT_TO_REFERENCE_LINKS,
+                                label: 'Convert to Reference Links',
+                            });
+                        }
+                        if (context.links.some((link) => link.referenceLabel)) {
+                            contextSensitiveItems.push({
+                                commandName: COMMAND_IDS.CONVERT_TO_INLINE_LINKS,
+                                label: 'Convert to Inline Links',
+                            });
+                        }
+                    }
                 }
             }
 
@@ -304,6 +460,113 @@ export async function registerApplicationMenuItems(): Promise<void> {
         COMMAND_IDS.FETCH_LINK_TITLES,
         MenuItemLocation.Edit
     );
+
+    await joplin.views.menuItems.create(
+        CONVERT_ALL_WIKILINKS_EDIT_MENU_ITEM_ID,
+        COMMAND_IDS.CONVERT_ALL_WIKILINKS,
+        MenuItemLocation.Edit
+    );
+
+    await joplin.views.menuItems.create(
+        FETCH_LINK_TITLES_IN_NOTES_MENU_ITEM_ID,
+        COMMAND_IDS.FETCH_LINK_TITLES_IN_NOTES,
+        MenuItemLocation.NoteListContextMenu
+    );
+
+    await joplin.views.menuItems.create(
+        FETCH_LINK_TITLES_IN_NOTEBOOK_MENU_ITEM_ID,
+        COMMAND_IDS.FETCH_LINK_TITLES_IN_NOTEBOOK,
+        MenuItemLocation.FolderContextMenu
+    );
+}
+
+/**
+ * Builds the Linkify items for the bare URLs among `links` and the Unlinkify
+ * items for the links whose markup can be removed.
+ */
+function getLinkifyMenuItems(links: LinkInfo[]): MenuItem[] {
+    const items: MenuItem[] = [];
+
+    const bareUrls = links.filter(isBareUrlLink);
+    if (bareUrls.length > 0) {
+        items.push(
+            {
+                commandName: COMMAND_IDS.LINKIFY_AS_AUTOLINKS,
+                commandArgs: [bareUrls],
+                label: getLinkifyMenuLabel('autolink', bareUrls.length),
+            },
+            {
+                commandName: COMMAND_IDS.LINKIFY_WITH_URL_TEXT,
+                commandArgs: [bareUrls],
+                label: getLinkifyMenuLabel('urlText', bareUrls.length),
+            }
+        );
+
+        const rules = parseLinkTitleRules(settingsCache.linkTitleRules);
+        const ruleMatches = bareUrls.filter((link) => buildLinkifyReplacement(link, 'titleRules', rules));
+        if (ruleMatches.length > 0) {
+            items.push({
+                commandName: COMMAND_IDS.LINKIFY_WITH_TITLE_RULES,
+                commandArgs: [ruleMatches],
+                label: getLinkifyMenuLabel('titleRules', ruleMatches.length),
+            });
+        }
+    }
+
+    const textLinks = links.filter((link) => buildUnlinkifyReplacement(link, 'text'));
+    if (textLinks.length > 0) {
+        items.push({
+            commandName: COMMAND_IDS.UNLINKIFY_TO_TEXT,
+            commandArgs: [textLinks],
+            label: getUnlinkifyMenuLabel('text', textLinks.length),
+        });
+    }
+
+    const urlLinks = links.filter((link) => buildUnlinkifyReplacement(link, 'url'));
+    if (urlLinks.length > 0) {
+        items.push({
+            commandName: COMMAND_IDS.UNLINKIFY_TO_URL,
+            commandArgs: [urlLinks],
+            label: getUnlinkifyMenuLabel('url', urlLinks.length),
+        });
+    }
+
+    return items;
+}
+
+/**
+ * Builds the "Copy Link Text" and "Copy as..." items the settings enable for a
+ * link. HTML and rich links are only offered for URLs that work outside Joplin.
+ */
+function getCopyLinkAsMenuItems(context: LinkContext): MenuItem[] {
+    const items: MenuItem[] = [];
+    const isShareable = isShareableLink(context);
+
+    if (settingsCache.showCopyLinkAs && context.linkText?.trim()) {
+        items.push({ commandName: COMMAND_IDS.COPY_LINK_TEXT, commandArgs: [context], label: 'Copy Link Text' });
+    }
+    if (settingsCache.showCopyLinkAs && (context.linkText || isShareable)) {
+        items.push({
+            commandName: COMMAND_IDS.COPY_LINK_AS_MARKDOWN,
+            commandArgs: [context],
+            label: 'Copy as Markdown',
+        });
+    }
+    if (settingsCache.showCopyLinkAsHtml && isShareable) {
+        items.push(
+            { commandName: COMMAND_IDS.COPY_LINK_AS_HTML, commandArgs: [context], label: 'Copy as HTML' },
+            { commandName: COMMAND_IDS.COPY_LINK_AS_RICH_TEXT, commandArgs: [context], label: 'Copy as Rich Link' }
+        );
+    }
+
+    return items;
+}
+
+/**
+ * Whether "Clean URL" would change the URL.
+ */
+function isUnclean(url: string): boolean {
+    return cleanUrl(url, parseTrackingParameters(settingsCache.trackingParameters)) !== url;
 }
 
 /**
@@ -316,6 +579,8 @@ function getLabelForOpenLink(linkContext: LinkContext): string {
             return 'Open Link in Browser';
         case LinkType.Email:
             return 'Send Email';
+        case LinkType.JoplinUrl:
+            return 'Open in Joplin';
         default:
             return 'Open Link';
     }
@@ -0,0 +1,133 @@
+import joplin from 'api';
+import { COMMAND_IDS } from '../types';
+import { SCROLL_TO_POSITION_COMMAND } from '../contentScripts/contentScript';
+import { logger } from '../logger';
+import { escapeHtml } from '../utils/htmlUtils';
+import { isBrokenLink, LinkCheckResult } from '../utils/linkChecker';
+import { showToast, ToastType } from '../utils/toastUtils';
+
+const PANEL_ID = 'contextUtils-linkCheckPanel';
+
+/** One checked link in the note. */
+export interface LinkCheckEntry {
+    result: LinkCheckResult;
+    /** Start of the link in the note, for jumping to it. */
+    pos: number;
+}
+
+interface LinkCheckPanelMessage {
+    type: 'scrollTo' | 'recheck' | 'close';
+    pos?: number;
+}
+
+let panelHandle: string | null = null;
+
+/** Note the shown results belong to; entries only jump within that note. */
+let checkedNoteId: string | null = null;
+
+async function handlePanelMessage(message: LinkCheckPanelMessage): Promise<void> {
+    switch (message.type) {
+        case 'scrollTo': {
+            const note = await joplin.workspace.selectedNote();
+            if (note?.id !== checkedNoteId) {
+                await showToast('Open the checked note to jump to its links', ToastType.Info);
+                return;
+            }
+            await joplin.commands.execute('editor.execCommand', {
+                name: SCROLL_TO_POSITION_COMMAND,
+                args: [message.pos],
+            });
+            return;
+        }
+        case 'recheck':
+            await joplin.commands.execute(COMMAND_IDS.CHECK_LINKS_IN_NOTE);
+            return;
+        case 'close':
+            if (panelHandle) {
+                await joplin.views.panels.hide(panelHandle);
+            }
+            return;
+        default:
+            logger.warn('Unknown link check panel message:', message);
+    }
+}
+
+async function getPanel(): Promise<string> {
+    if (panelHandle) {
+        return panelHandle;
+    }
+
+    const handle = await joplin.views.panels.create(PANEL_ID);
+    await joplin.views.panels.addScript(handle, './panels/linkCheckWebview.css');
+    await joplin.views.panels.addScript(handle, './panels/linkCheckWebview.js');
+    await joplin.views.panels.onMessage(handle, handlePanelMessage);
+
+    panelHandle = handle;
+    return handle;
+}
+
+function describeStatus(result: LinkCheckResult): string {
+    if (result.status === undefined) {
+        return 'Error';
+    }
+    return result.redirectedTo ? `${result.status} ↪` : String(result.status);
+}
+
+function buildEntryHtml({ result, pos }: LinkCheckEntry): string {
+    const state = isBrokenLink(result) ? 'broken' : result.redirectedTo ? 'redirected' : 'ok';
+    const detail = result.error ?? (result.redirectedTo ? `→ ${result.redirectedTo}` : '');
+
+    return `
+        <li>
+            <button type="button" class="entry ${state}" data-pos="${pos}" title="Jump to link">
+                <span class="status">${escapeHtml(describeStatus(result))}</span>
+                <span class="url">${escapeHtml(result.url)}</span>
+                <span class="time">${result.durationMs} ms</span>
+                ${detail ? `<span class="detail">${escapeHtml(detail)}</span>` : ''}
+            </button>
+        </li>`;
+}
+
+function buildPanelHtml(noteTitle: string, body: string): string {
+    return `
+        <div id="linkCheck">
+            <div class="header">
+                <h2>${escapeHtml(noteTitle)}</h2>
+                <button type="button" data-action="recheck">Check again</button>
+                <button type="button" data-action="close">Close</button>
+            </div>
+            ${body}
+        </div>`;
+}
+
+/**
+ * Opens the panel in its "checking" state.
+ */
+export async function showLinkCheckProgress(noteTitle: string, linkCount: number): Promise<void> {
+    const handle = await getPanel();
+    await joplin.views.panels.setHtml(
+        handle,
+        buildPanelHtml(noteTitle, `<p class="summary">Checking ${linkCount} link${linkCount !== 1 ? 's' : ''}…</p>`)
+    );
+    await joplin.views.panels.show(handle);
+}
+
+/**
+ * Shows the results of a link check, one entry per link in document order.
+ */
+export async function showLinkCheckResults(
+    noteId: string,
+    noteTitle: string,
+    entries: LinkCheckEntry[]
+): Promise<void> {
+    const brokenCount = entries.filter(({ result }) => isBrokenLink(result)).length;
+    const summary = `${entries.length} link${entries.length !== 1 ? 's' : ''}, ${brokenCount} broken`;
+
+    checkedNoteId = noteId;
+    const handle = await getPanel();
+    await joplin.views.panels.setHtml(
+        handle,
+        buildPanelHtml(noteTitle, `<p class="summary">${summary}</p><ul>${entries.map(buildEntryHtml).join('')}</ul>`)
+    );
+    await joplin.views.panels.show(handle);
+}
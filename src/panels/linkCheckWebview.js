@@ -0,0 +1,23 @@
+/* global webviewApi */
+
+/**
+ * Webview script for the "Check Links in Note" panel. The plugin re-renders
+ * the panel HTML, so clicks are handled by delegation: header buttons send
+ * their `data-action`, and entries ask the plugin to jump to their link.
+ */
+(function () {
+    document.addEventListener('click', (event) => {
+        const target = event.target instanceof Element ? event.target : null;
+
+        const actionButton = target?.closest('[data-action]');
+        if (actionButton) {
+            webviewApi.postMessage({ type: actionButton.dataset.action });
+            return;
+        }
+
+        const entry = target?.closest('[data-pos]');
+        if (entry) {
+            webviewApi.postMessage({ type: 'scrollTo', pos: Number(entry.dataset.pos) });
+        }
+    });
+})();
@@ -9,9 +9,12 @@
 
 import joplin from 'api';
 import { SettingItem, SettingItemType } from 'api/types';
+import { DEFAULT_TITLE_CLEANUP_RULES } from './utils/titleCleanup';
+import { DEFAULT_TRACKING_PARAMETERS } from './utils/urlCleaning';
+import { DEFAULT_CUSTOM_URL_SCHEMES } from './utils/customUrlSchemes';
 
 const SECTION_ID = 'contextUtils';
-type SettingConfigEntry<T extends string | boolean> = {
+type SettingConfigEntry<T extends string | boolean | number> = {
     key: string;
     defaultValue: T;
     type: SettingItemType;
@@ -20,6 +23,8 @@ type SettingConfigEntry<T extends string | boolean> = {
     secure?: boolean;
     isEnum?: boolean;
     options?: Record<string, string>;
+    minimum?: number;
+    maximum?: number;
 };
 
 const SETTINGS_CONFIG = {
@@ -44,13 +49,97 @@ const SETTINGS_CONFIG = {
         label: 'Show "Fetch Link Title" in context menu',
         description: 'Display option to fetch and insert the title of HTTP(S) links',
     },
+    showResolveRedirects: {
+        key: `${SECTION_ID}.showResolveRedirects`,
+        defaultValue: false,
+        type: SettingItemType.Bool,
+        label: 'Show "Resolve Redirects" in context menu',
+        description: 'Display option to replace shortened or redirecting HTTP(S) links with their final destination',
+    },
+    showCleanUrl: {
+        key: `${SECTION_ID}.showCleanUrl`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Show "Clean URL" in context menu',
+        description: 'Display option to remove tracking parameters from HTTP(S) links that have any',
+    },
+    trackingParameters: {
+        key: `${SECTION_ID}.trackingParameters`,
+        defaultValue: DEFAULT_TRACKING_PARAMETERS,
+        type: SettingItemType.String,
+        label: 'Tracking parameters removed by "Clean URL"',
+        description:
+            'Comma-separated query parameter names (case-insensitive); a trailing * matches any suffix, e.g. utm_*. The default covers common ad and newsletter trackers.',
+    },
+    useCanonicalUrl: {
+        key: `${SECTION_ID}.useCanonicalUrl`,
+        defaultValue: false,
+        type: SettingItemType.Bool,
+        label: "Use the page's canonical URL when fetching link titles",
+        description:
+            'When a title is read from the page itself and the page declares a <link rel="canonical"> URL, use that URL for the link. Reference links keep their definition.',
+    },
+    showLinkify: {
+        key: `${SECTION_ID}.showLinkify`,
+        defaultValue: false,
+        type: SettingItemType.Bool,
+        label: 'Show "Linkify" and "Unlinkify" in context menu',
+        description:
+            'Display options to mark up bare URLs as <URL> or [domain/path](URL) links (or with custom link title rules) without fetching anything, and to turn links back into text',
+    },
+    showEditLink: {
+        key: `${SECTION_ID}.showEditLink`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Show "Edit Link..." in context menu',
+        description:
+            'Display option to edit the text, URL and title of the markdown link or image at the cursor in a dialog, with markdown escaping handled for you',
+    },
+    showConvertLinkStyle: {
+        key: `${SECTION_ID}.showConvertLinkStyle`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Show "Convert to Reference/Inline Links" in context menu',
+        description:
+            'Display options to convert the selected links between inline [text](url) and reference [text][1] style',
+    },
+    referenceLinkLabels: {
+        key: `${SECTION_ID}.referenceLinkLabels`,
+        defaultValue: 'numeric',
+        type: SettingItemType.String,
+        label: 'Labels of new reference links',
+        description: 'How "Convert to Reference Links" labels the definitions it adds',
+        isEnum: true,
+        options: {
+            numeric: 'Numbers, e.g. [1]',
+            text: 'From the link text, e.g. [project-plan]',
+        },
+    },
     linkPreviewApiKey: {
         key: `${SECTION_ID}.linkPreviewApiKey`,
         defaultValue: '',
         type: SettingItemType.String,
         secure: true,
         label: 'linkpreview.net API key',
-        description: 'Optional. If set, linkpreview.net is tried first when fetching link titles.',
+        description:
+            'Optional. If set, linkpreview.net is used when fetching link titles (see "Link title providers" for its position in the chain).',
+    },
+    linkTitleRequestHeaders: {
+        key: `${SECTION_ID}.linkTitleRequestHeaders`,
+        defaultValue: '',
+        type: SettingItemType.String,
+        secure: true,
+        label: 'Request headers for link title fetching (JSON)',
+        description:
+            'Optional. JSON array of {pattern, headers, flags?} rules adding headers such as Authorization, Cookie or User-Agent when fetching pages whose URL matches the pattern, e.g. [{"pattern":"^https://wiki\\\\.example\\\\.com/","headers":{"Authorization":"Bearer …"}}]. Headers are only sent to matching URLs (each redirect is matched again) and never to linkpreview.net.',
+    },
+    linkTitleProviders: {
+        key: `${SECTION_ID}.linkTitleProviders`,
+        defaultValue: 'rules, linkpreview, oembed, direct',
+        type: SettingItemType.String,
+        label: 'Link title providers (in order)',
+        description:
+            'Comma-separated list of title sources "Fetch Link Title" tries in order until one produces a title: rules (custom link title rules), linkpreview (linkpreview.net, needs an API key), oembed (oEmbed endpoint of video, slide and social sites), direct (fetch the page itself). Providers not listed are disabled. If none succeeds, the domain is used.',
     },
     linkTitleRules: {
         key: `${SECTION_ID}.linkTitleRules`,
@@ -59,7 +148,144 @@ const SETTINGS_CONFIG = {
         type: SettingItemType.String,
         label: 'Custom link title rules (JSON)',
         description:
-            'JSON array of {pattern, title, flags?} rules. When a rule\'s regex matches a link URL, "Fetch Link Title" uses its title template ($1..$9 capture groups, $& whole match) instead of fetching the page. The default rule handles Jira issue links. See the README for details.',
+            'JSON array of {pattern, title, flags?} rules. When a rule\'s regex matches a link URL, "Fetch Link Title" uses its title template ($1..$9 capture groups, $& whole match, {domain}) instead of fetching the page. Templates that use {pageTitle} or OpenGraph fields such as {og:site_name} fetch the page, e.g. "$1: {pageTitle}". The default rule handles Jira issue links. Run "Edit Link Title Rules" from the command palette to edit and test rules in a dialog.',
+    },
+    titleCleanupRules: {
+        key: `${SECTION_ID}.titleCleanupRules`,
+        defaultValue: JSON.stringify(DEFAULT_TITLE_CLEANUP_RULES),
+        type: SettingItemType.String,
+        label: 'Title cleanup rules (JSON)',
+        description:
+            'JSON array of {pattern, replacement?, flags?} regexes applied in order to fetched titles, e.g. to strip " | GitHub" or "(3) " notification counts. A missing replacement removes the match. The default handles common sites.',
+    },
+    cleanUpRuleTitles: {
+        key: `${SECTION_ID}.cleanUpRuleTitles`,
+        defaultValue: false,
+        type: SettingItemType.Bool,
+        label: 'Apply title cleanup rules to custom link title rule titles',
+        description: 'By default, titles produced by custom link title rules are used exactly as the rule builds them.',
+    },
+    pageTitleSources: {
+        key: `${SECTION_ID}.pageTitleSources`,
+        defaultValue: 'og:title, twitter:title, json-ld, title',
+        type: SettingItemType.String,
+        label: 'Page title sources (in order of precedence)',
+        description:
+            'Comma-separated list of where "Fetch Link Title" looks for a title in the fetched page: og:title (OpenGraph), twitter:title (Twitter card), json-ld (JSON-LD headline), title (the <title> tag). The first available source wins; sources not listed are ignored.',
+    },
+    linkTextTemplate: {
+        key: `${SECTION_ID}.linkTextTemplate`,
+        defaultValue: '{title}',
+        type: SettingItemType.String,
+        label: 'Link text template',
+        description:
+            'Link text written by "Fetch Link Title". Placeholders: {title}, {domain}, {path}, {date} (today, YYYY-MM-DD), {provider} (where the title came from). Examples: "{title} ({domain})", "{title} — accessed {date}". Not applied to domain fallbacks.',
+    },
+    linkTextTemplateOverrides: {
+        key: `${SECTION_ID}.linkTextTemplateOverrides`,
+        defaultValue: '[]',
+        type: SettingItemType.String,
+        label: 'Link text template overrides (JSON)',
+        description:
+            'JSON array of per-site templates: [{"pattern": "regex", "template": "...", "flags": "i"}]. The pattern is tested against the full URL like custom link title rules; the first match replaces the link text template.',
+    },
+    oembedTitleTemplate: {
+        key: `${SECTION_ID}.oembedTitleTemplate`,
+        defaultValue: '{title}',
+        type: SettingItemType.String,
+        label: 'oEmbed link text template',
+        description:
+            'Link text used for titles from the oembed provider. Placeholders: {title}, {author} (e.g. channel or uploader), {site} (e.g. YouTube). Example: "{title} - {author}". Missing fields are left out.',
+    },
+    linkTitleCacheTtlDays: {
+        key: `${SECTION_ID}.linkTitleCacheTtlDays`,
+        defaultValue: 30,
+        type: SettingItemType.Int,
+        label: 'Link title cache lifetime (days)',
+        description:
+            'Fetched link titles are cached on disk and reused for this many days before the page is fetched again. Set to 0 to disable the cache.',
+        minimum: 0,
+        maximum: 3650,
+    },
+    linkTitleCacheFallbackTtlMinutes: {
+        key: `${SECTION_ID}.linkTitleCacheFallbackTtlMinutes`,
+        defaultValue: 60,
+        type: SettingItemType.Int,
+        label: 'Link title cache lifetime for failed fetches (minutes)',
+        description:
+            'How long a domain-name fallback (used when a page title could not be fetched) is cached before retrying. Set to 0 to never cache fallbacks.',
+        minimum: 0,
+        maximum: 10080,
+    },
+    linkTitleFetchConcurrency: {
+        key: `${SECTION_ID}.linkTitleFetchConcurrency`,
+        defaultValue: 6,
+        type: SettingItemType.Int,
+        label: 'Maximum simultaneous link title fetches',
+        description: 'How many links "Fetch Link Titles" fetches at the same time when updating a selection.',
+        minimum: 1,
+        maximum: 32,
+    },
+    linkTitleFetchPerHostConcurrency: {
+        key: `${SECTION_ID}.linkTitleFetchPerHostConcurrency`,
+        defaultValue: 2,
+        type: SettingItemType.Int,
+        label: 'Maximum simultaneous link title fetches per site',
+        description: 'How many links on the same host are fetched at the same time, so a single site is not flooded.',
+        minimum: 1,
+        maximum: 16,
+    },
+    reviewLinkTitles: {
+        key: `${SECTION_ID}.reviewLinkTitles`,
+        defaultValue: 'never',
+        type: SettingItemType.String,
+        label: 'Review fetched link titles before applying',
+        description:
+            'Show a dialog listing each link, its current text and the proposed title, where titles can be edited or left out before the note is updated.',
+        isEnum: true,
+        options: {
+            always: 'Always',
+            threshold: 'Only for batches larger than the review threshold',
+            never: 'Never',
+        },
+    },
+    reviewLinkTitlesThreshold: {
+        key: `${SECTION_ID}.reviewLinkTitlesThreshold`,
+        defaultValue: 10,
+        type: SettingItemType.Int,
+        label: 'Review threshold (links)',
+        description:
+            'With "Only for batches larger than the review threshold", the review dialog is shown when more links than this are fetched at once.',
+        minimum: 1,
+        maximum: 1000,
+    },
+    markBrokenLinks: {
+        key: `${SECTION_ID}.markBrokenLinks`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Highlight broken links after "Check Links in Note"',
+        description: 'Underline links that failed the last check in the editor, until the note is checked again',
+    },
+    staleLinkTitlePlaceholders: {
+        key: `${SECTION_ID}.staleLinkTitlePlaceholders`,
+        defaultValue: '',
+        type: SettingItemType.String,
+        label: 'Placeholder link texts to refresh',
+        description:
+            'Comma-separated link texts that "Refresh Link Titles" treats as missing titles, in addition to the URL and the domain, e.g. "Untitled, link". Case-insensitive.',
+    },
+    openNoteLinkTitles: {
+        key: `${SECTION_ID}.openNoteLinkTitles`,
+        defaultValue: 'editor',
+        type: SettingItemType.String,
+        label: 'Fetch link titles in notes: note open in the editor',
+        description:
+            'How "Fetch Link Titles in Notes/Notebook" handles the note currently open in the editor: fetch its titles through the editor (keeps unsaved edits), or skip it.',
+        isEnum: true,
+        options: {
+            editor: 'Fetch through the editor',
+            skip: 'Skip',
+        },
     },
     showOpenAllLinksInSelection: {
         key: `${SECTION_ID}.showOpenAllLinksInSelection`,
@@ -89,6 +315,29 @@ const SETTINGS_CONFIG = {
         label: 'Show "Copy URL/Email" in context menu',
         description: 'Display option to copy URL or email address to clipboard',
     },
+    showCopyLinkAs: {
+        key: `${SECTION_ID}.showCopyLinkAs`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Show "Copy Link Text" and "Copy as Markdown" in context menu',
+        description: "Display options to copy a link's text, or the link as an inline markdown link",
+    },
+    showCopyLinkAsHtml: {
+        key: `${SECTION_ID}.showCopyLinkAsHtml`,
+        defaultValue: false,
+        type: SettingItemType.Bool,
+        label: 'Show "Copy as HTML" and "Copy as Rich Link" in context menu',
+        description:
+            'Display options to copy a link as HTML or as a rich link (a clickable title when pasted into apps like Slack, Outlook or Google Docs)',
+    },
+    customUrlSchemes: {
+        key: `${SECTION_ID}.customUrlSchemes`,
+        defaultValue: DEFAULT_CUSTOM_URL_SCHEMES,
+        type: SettingItemType.String,
+        label: 'Additional URL schemes',
+        description:
+            'Comma-separated "scheme: actions" entries for links other than http(s), mailto and Joplin links, e.g. "file: open path, tel: copy". Actions: open (with the default app), copy (the URL), path (copy the decoded path). A scheme without actions gets "open copy".',
+    },
     showCopyCode: {
         key: `${SECTION_ID}.showCopyCode`,
         defaultValue: true,
@@ -111,6 +360,13 @@ const SETTINGS_CONFIG = {
         label: 'Show "Copy Quote" in context menu',
         description: 'Display option to copy block quote contents without quote markers',
     },
+    showConvertWikilink: {
+        key: `${SECTION_ID}.showConvertWikilink`,
+        defaultValue: true,
+        type: SettingItemType.Bool,
+        label: 'Show "Convert to Joplin Link" in context menu',
+        description: 'Display options to replace [[Note Title]] wikilinks with Joplin note links',
+    },
     defaultHeadingCopyMode: {
         key: `${SECTION_ID}.defaultHeadingCopyMode`,
         defaultValue: 'internal',
@@ -151,9 +407,15 @@ const SETTINGS_CONFIG = {
         label: 'Show "Open Note as Pinned Tab" in context menu',
         description: 'Display option to open notes as a pinned tab (requires Note Tabs plugin)',
     },
-} as const satisfies Record<string, SettingConfigEntry<string | boolean>>;
+} as const satisfies Record<string, SettingConfigEntry<string | boolean | number>>;
 
-type WidenSettingValue<T extends string | boolean> = T extends boolean ? boolean : T extends string ? string : never;
+type WidenSettingValue<T extends string | boolean | number> = T extends boolean
+    ? boolean
+    : T extends string
+      ? string
+      : T extends number
+        ? number
+        : never;
 type SettingKey = keyof typeof SETTINGS_CONFIG;
 
 export type SettingsCache = {
@@ -176,6 +438,15 @@ async function updateSettingCacheValue<K extends SettingKey>(key: K): Promise<vo
     settingsCache[key] = (await joplin.settings.value(config.key)) as SettingsCache[K];
 }
 
+/**
+ * Saves a setting from plugin code (e.g. a dialog) and updates the cache
+ * immediately rather than waiting for the change event.
+ */
+export async function saveSettingValue<K extends SettingKey>(key: K, value: SettingsCache[K]): Promise<void> {
+    await joplin.settings.setValue(SETTINGS_CONFIG[key].key, value);
+    settingsCache[key] = value;
+}
+
 /**
  * Updates the settings cache by reading all values from Joplin settings
  */
@@ -220,6 +491,8 @@ export async function registerSettings(): Promise<void> {
             secure: 'secure' in config ? config.secure : undefined,
             isEnum: 'isEnum' in config ? config.isEnum : undefined,
             options: 'options' in config ? config.options : undefined,
+            minimum: 'minimum' in config ? config.minimum : undefined,
+            maximum: 'maximum' in config ? config.maximum : undefined,
         };
     }
 
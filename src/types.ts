@@ -22,9 +22,15 @@ export interface LinkContext {
     /** True if this is a reference-style link [text][ref] */
     isReferenceLink?: boolean;
 
+    /** Bracketed label of a reference-style link ("[ref]"; the link text for [foo] and [foo][]) */
+    referenceLabel?: string;
+
     /** Optional raw title attribute token from markdown link [text](url "title") */
     linkTitleToken?: string;
 
+    /** Link text (alt text for images) between the brackets of a markdown link, as written (none for bare URLs, autolinks and HTML images) */
+    linkText?: string;
+
     /** Expected text for optimistic concurrency checks */
     expectedText?: string;
 
@@ -130,6 +136,35 @@ export interface QuoteContext {
     to: number;
 }
 
+/**
+ * Represents an Obsidian-style wikilink ([[Note]], [[Note#Heading]], [[Note|alias]])
+ */
+export interface WikilinkInfo {
+    /** Title of the target note */
+    noteTitle: string;
+
+    /** Heading text after `#`, if any */
+    heading?: string;
+
+    /** Display text after `|`, if any */
+    alias?: string;
+
+    /** Position of the whole `[[...]]` */
+    from: number;
+    to: number;
+
+    /** The `[[...]]` source, for optimistic concurrency checks */
+    expectedText: string;
+}
+
+/**
+ * Represents a detected wikilink at the cursor
+ */
+export interface WikilinkContext extends WikilinkInfo {
+    /** Discriminator for union type */
+    contextType: 'wikilink';
+}
+
 /**
  * Represents information about a single link in a selection (for batch operations)
  */
@@ -151,6 +186,9 @@ export interface LinkInfo {
     /** Optional raw title attribute token from markdown link [text](url "title") */
     linkTitleToken?: string;
 
+    /** Bracketed label of a reference-style link; the URL comes from its definition */
+    referenceLabel?: string;
+
     /** Expected text for optimistic concurrency checks */
     expectedText?: string;
 }
@@ -182,6 +220,12 @@ export enum LinkType {
 
     /** Internal anchor link (#heading) */
     InternalAnchor = 'internal-anchor',
+
+    /** Joplin x-callback URL (joplin://x-callback-url/openNote?id=...) */
+    JoplinUrl = 'joplin-url',
+
+    /** Any other URL scheme (file://, obsidian://, tel:, ...); handled per the customUrlSchemes setting */
+    CustomScheme = 'custom-scheme',
 }
 
 export type EditorContext =
@@ -191,7 +235,8 @@ export type EditorContext =
     | FootnoteContext
     | LinkSelectionContext
     | HeadingContext
-    | QuoteContext;
+    | QuoteContext
+    | WikilinkContext;
 
 /**
  * Command IDs - must be globally unique
@@ -201,13 +246,40 @@ export const COMMAND_IDS = {
     ADD_EXTERNAL_LINK: 'contextUtils.addExternalLink',
     ADD_LINK_TO_NOTE: 'contextUtils.addLinkToNote',
     COPY_PATH: 'contextUtils.copyPath',
+    COPY_DECODED_PATH: 'contextUtils.copyDecodedPath',
+    COPY_LINK_TEXT: 'contextUtils.copyLinkText',
+    COPY_LINK_AS_MARKDOWN: 'contextUtils.copyLinkAsMarkdown',
+    COPY_LINK_AS_HTML: 'contextUtils.copyLinkAsHtml',
+    COPY_LINK_AS_RICH_TEXT: 'contextUtils.copyLinkAsRichText',
     COPY_CODE: 'contextUtils.copyCode',
     CONTEXTUAL_COPY: 'contextUtils.contextualCopy',
     TOGGLE_CHECKBOX: 'contextUtils.toggleCheckbox',
     GO_TO_FOOTNOTE: 'contextUtils.goToFootnote',
     GO_TO_HEADING: 'contextUtils.goToHeading',
     PIN_TO_TABS: 'contextUtils.pinToTabs',
+    OPEN_WIKILINK: 'contextUtils.openWikilink',
+    PIN_WIKILINK_TO_TABS: 'contextUtils.pinWikilinkToTabs',
+    CONVERT_WIKILINK: 'contextUtils.convertWikilink',
+    CONVERT_ALL_WIKILINKS: 'contextUtils.convertAllWikilinks',
+    CONVERT_TO_REFERENCE_LINKS: 'contextUtils.convertToReferenceLinks',
+    CONVERT_TO_INLINE_LINKS: 'contextUtils.convertToInlineLinks',
+    LINKIFY_AS_AUTOLINKS: 'contextUtils.linkifyAsAutolinks',
+    LINKIFY_WITH_URL_TEXT: 'contextUtils.linkifyWithUrlText',
+    LINKIFY_WITH_TITLE_RULES: 'contextUtils.linkifyWithTitleRules',
+    UNLINKIFY_TO_TEXT: 'contextUtils.unlinkifyToText',
+    UNLINKIFY_TO_URL: 'contextUtils.unlinkifyToUrl',
+    EDIT_LINK: 'contextUtils.editLink',
     FETCH_LINK_TITLES: 'contextUtils.fetchLinkTitles',
+    RESOLVE_REDIRECTS: 'contextUtils.resolveRedirects',
+    CLEAN_URLS: 'contextUtils.cleanUrls',
+    REFRESH_LINK_TITLES: 'contextUtils.refreshLinkTitles',
+    FORCE_REFRESH_LINK_TITLES: 'contextUtils.forceRefreshLinkTitles',
+    FETCH_LINK_TITLES_IN_NOTES: 'contextUtils.fetchLinkTitlesInNotes',
+    FETCH_LINK_TITLES_IN_NOTEBOOK: 'contextUtils.fetchLinkTitlesInNotebook',
+    CANCEL_FETCH_LINK_TITLES: 'contextUtils.cancelFetchLinkTitles',
+    CLEAR_LINK_TITLE_CACHE: 'contextUtils.clearLinkTitleCache',
+    EDIT_LINK_TITLE_RULES: 'contextUtils.editLinkTitleRules',
+    CHECK_LINKS_IN_NOTE: 'contextUtils.checkLinksInNote',
     OPEN_ALL_LINKS_IN_SELECTION: 'contextUtils.openAllLinksInSelection',
     COPY_HEADING_LINK_INTERNAL: 'contextUtils.copyHeadingLinkInternal',
     COPY_HEADING_LINK_EXTERNAL: 'contextUtils.copyHeadingLinkExternal',
@@ -235,3 +307,69 @@ export interface TextReplacement extends EditorRange {
     expectedText?: string;
     selectionBehavior?: ReplacementSelectionBehavior;
 }
+
+/**
+ * Markdown link sent from the editor for converting between inline (`[text](url)`)
+ * and reference (`[text][ref]`) style. Whole link range.
+ */
+export interface MarkdownLinkInfo extends EditorRange {
+    /** Link text between the brackets, as written */
+    text: string;
+
+    /** Destination as written, e.g. `<a b.pdf>` (inline links only) */
+    destination?: string;
+
+    /** Raw title attribute token, e.g. `"Title"` (inline links only) */
+    linkTitleToken?: string;
+
+    /** Bracketed label (reference links only); collapsed and shortcut links use their text */
+    referenceLabel?: string;
+
+    /** Reference images are never converted; they only keep their definitions in use */
+    isImage?: boolean;
+
+    expectedText: string;
+}
+
+/**
+ * Reference definition (`[ref]: url "title"`) sent from the editor. The range
+ * covers its whole lines, including the final line break.
+ */
+export interface ReferenceDefinitionInfo extends EditorRange {
+    /** Bracketed label */
+    label: string;
+    destination: string;
+    linkTitleToken?: string;
+    expectedText: string;
+}
+
+/**
+ * Links and reference definitions of the editor document, for link style conversion.
+ */
+export interface MarkdownLinksSnapshot {
+    /** Every markdown link of the document, in document order */
+    links: MarkdownLinkInfo[];
+
+    /** Every reference definition, in document order */
+    definitions: ReferenceDefinitionInfo[];
+
+    /** Ranges to convert: the non-empty selection ranges, or the whole document */
+    ranges: EditorRange[];
+
+    docLength: number;
+
+    /** Line breaks at the end of the document, up to 2 */
+    trailingLineBreaks: number;
+
+    /** Whether the document ends with a reference definition (ignoring trailing blank lines) */
+    endsWithDefinition: boolean;
+}
+
+/**
+ * Broken link range sent to the editor content script for highlighting.
+ */
+export interface BrokenLinkMark extends EditorRange {
+    /** Tooltip describing the failure, e.g. `404` or the network error. */
+    label: string;
+    expectedText?: string;
+}
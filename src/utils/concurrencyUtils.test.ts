@@ -0,0 +1,124 @@
+import { runWithConcurrencyLimit } from './concurrencyUtils';
+
+interface Deferred {
+    item: string;
+    resolve(): void;
+}
+
+/**
+ * Worker whose tasks stay pending until resolved by the test, so the number of
+ * tasks in flight can be inspected at each step.
+ */
+function createControlledWorker() {
+    const started: Deferred[] = [];
+    const settled = new Set<Deferred>();
+    const worker = (item: string) =>
+        new Promise<string>((resolve) => {
+            started.push({ item, resolve: () => resolve(item.toUpperCase()) });
+        });
+    const running = () => started.filter((task) => !settled.has(task)).map((task) => task.item);
+    const finish = async (item: string) => {
+        const task = started.find((candidate) => candidate.item === item && !settled.has(candidate))!;
+        settled.add(task);
+        task.resolve();
+        // Let the scheduler react to the completion.
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    };
+    return { worker, started, running, finish };
+}
+
+const hostOf = (item: string) => item.split('/')[0];
+
+describe('concurrencyUtils', () => {
+    describe('runWithConcurrencyLimit', () => {
+        it('keeps at most maxConcurrent tasks running and returns results in item order', async () => {
+            const { worker, running, finish } = createControlledWorker();
+            const items = ['a/1', 'b/1', 'c/1', 'd/1'];
+
+            const promise = runWithConcurrencyLimit(items, worker, { maxConcurrent: 2, maxPerKey: 2, getKey: hostOf });
+
+            expect(running()).toEqual(['a/1', 'b/1']);
+            await finish('b/1');
+            expect(running()).toEqual(['a/1', 'c/1']);
+            await finish('a/1');
+            await finish('c/1');
+            await finish('d/1');
+
+            await expect(promise).resolves.toEqual(['A/1', 'B/1', 'C/1', 'D/1']);
+        });
+
+        it('passes over items whose key is at its cap', async () => {
+            const { worker, running, finish } = createControlledWorker();
+            const items = ['a/1', 'a/2', 'a/3', 'b/1'];
+
+            const promise = runWithConcurrencyLimit(items, worker, { maxConcurrent: 3, maxPerKey: 2, getKey: hostOf });
+
+            expect(running()).toEqual(['a/1', 'a/2', 'b/1']);
+            await finish('a/1');
+            expect(running()).toEqual(['a/2', 'b/1', 'a/3']);
+            await finish('a/2');
+            await finish('b/1');
+            await finish('a/3');
+
+            await expect(promise).resolves.toHaveLength(4);
+        });
+
+        it('stops starting tasks once cancelled but keeps finished results', async () => {
+            const { worker, started, finish } = createControlledWorker();
+            let cancelled = false;
+            const onProgress = vi.fn();
+
+            const promise = runWithConcurrencyLimit(['a/1', 'b/1', 'c/1'], worker, {
+                maxConcurrent: 1,
+                maxPerKey: 1,
+                getKey: hostOf,
+                isCancelled: () => cancelled,
+                onProgress,
+            });
+
+            cancelled = true;
+            await finish('a/1');
+
+            await expect(promise).resolves.toEqual(['A/1', undefined, undefined]);
+            expect(started).toHaveLength(1);
+            expect(onProgress).toHaveBeenCalledWith(1, 3);
+        });
+
+        it('reports progress after each task', async () => {
+            const onProgress = vi.fn();
+
+            await runWithConcurrencyLimit(['a', 'b'], async (item) => item, {
+                maxConcurrent: 4,
+                maxPerKey: 4,
+                getKey: hostOf,
+                onProgress,
+            });
+
+            expect(onProgress.mock.calls).toEqual([
+                [1, 2],
+                [2, 2],
+            ]);
+        });
+
+        it('rejects with the first worker error after running tasks settle', async () => {
+            const error = new Error('boom');
+
+            await expect(
+                runWithConcurrencyLimit(
+                    ['a', 'b'],
+                    async (item) => {
+                        if (item === 'a') throw error;
+                        return item;
+                    },
+                    { maxConcurrent: 2, maxPerKey: 2, getKey: hostOf }
+                )
+            ).rejects.toBe(error);
+        });
+
+        it('resolves immediately for an empty list', async () => {
+            await expect(
+                runWithConcurrencyLimit([], async () => 'x', { maxConcurrent: 1, maxPerKey: 1, getKey: hostOf })
+            ).resolves.toEqual([]);
+        });
+    });
+});
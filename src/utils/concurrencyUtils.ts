@@ -0,0 +1,96 @@
+/**
+ * Bounded-concurrency task runner with a per-key cap (e.g. per host), used by
+ * batch link title fetching so a large selection doesn't open a request per
+ * link at once or hammer a single site.
+ */
+
+export interface ConcurrencyLimitOptions<T> {
+    /** Maximum number of tasks running at once (at least 1). */
+    maxConcurrent: number;
+    /** Maximum number of running tasks sharing the same key (at least 1). */
+    maxPerKey: number;
+    getKey(item: T): string;
+    /** Checked before each task starts; once true, no further tasks are started. */
+    isCancelled?(): boolean;
+    /** Called after each task settles. */
+    onProgress?(completed: number, total: number): void;
+}
+
+/**
+ * Runs `worker` over `items`, keeping at most `maxConcurrent` tasks in flight
+ * and at most `maxPerKey` for any one key. Tasks start in item order, except
+ * that items whose key is at its cap are passed over until a slot frees up.
+ *
+ * Cancellation stops new tasks from starting; tasks already running are
+ * awaited and their results kept.
+ *
+ * @returns Results in item order; `undefined` for items never started (cancelled)
+ * @throws The first error thrown by `worker`, once all running tasks have settled
+ */
+export function runWithConcurrencyLimit<T, R>(
+    items: readonly T[],
+    worker: (item: T) => Promise<R>,
+    options: ConcurrencyLimitOptions<T>
+): Promise<Array<R | undefined>> {
+    const maxConcurrent = Math.max(1, Math.floor(options.maxConcurrent) || 1);
+    const maxPerKey = Math.max(1, Math.floor(options.maxPerKey) || 1);
+    const results = new Array<R | undefined>(items.length).fill(undefined);
+    const runningPerKey = new Map<string, number>();
+    const pending = items.map((_item, index) => index);
+    let running = 0;
+    let completed = 0;
+    let firstError: { error: unknown } | null = null;
+
+    return new Promise((resolve, reject) => {
+        const finishIfIdle = () => {
+            if (running > 0) return;
+            if (firstError) {
+                reject(firstError.error);
+            } else {
+                resolve(results);
+            }
+        };
+
+        const startNext = () => {
+            const stopped = firstError !== null || (options.isCancelled?.() ?? false);
+
+            for (let i = 0; !stopped && i < pending.length && running < maxConcurrent; ) {
+                const index = pending[i];
+                const key = options.getKey(items[index]);
+                const keyCount = runningPerKey.get(key) ?? 0;
+
+                if (keyCount >= maxPerKey) {
+                    i++;
+                    continue;
+                }
+
+                pending.splice(i, 1);
+                running++;
+                runningPerKey.set(key, keyCount + 1);
+
+                void worker(items[index])
+                    .then(
+                        (result) => {
+                            results[index] = result;
+                        },
+                        (error: unknown) => {
+                            firstError ??= { error };
+                        }
+                    )
+                    .finally(() => {
+                        running--;
+                        runningPerKey.set(key, (runningPerKey.get(key) ?? 1) - 1);
+                        completed++;
+                        options.onProgress?.(completed, items.length);
+                        startNext();
+                    });
+            }
+
+            if (stopped || pending.length === 0) {
+                finishIfIdle();
+            }
+        };
+
+        startNext();
+    });
+}
@@ -1,5 +1,6 @@
 import { EditorContext, LinkType } from '../types';
 import { resolveContextualCopyTarget } from './contextualCopyResolver';
+import { parseCustomUrlSchemes } from './customUrlSchemes';
 
 describe('resolveContextualCopyTarget', () => {
     const code = (codeText = 'render'): EditorContext => ({
@@ -87,6 +88,22 @@ describe('resolveContextualCopyTarget', () => {
         expect(resolveContextualCopyTarget([link(LinkType.Email)])?.kind).toBe('link');
     });
 
+    it('allows other schemes only when copying is configured for them', () => {
+        const schemes = parseCustomUrlSchemes('tel: copy, file: open');
+        const schemeLink = (url: string): EditorContext => ({
+            contextType: 'link',
+            type: LinkType.CustomScheme,
+            url,
+            from: 8,
+            to: 28,
+        });
+
+        expect(resolveContextualCopyTarget([schemeLink('tel:+15550100')], schemes)?.kind).toBe('link');
+        expect(resolveContextualCopyTarget([schemeLink('file:///a.txt')], schemes)).toBeNull();
+        expect(resolveContextualCopyTarget([schemeLink('slack://open')], schemes)).toBeNull();
+        expect(resolveContextualCopyTarget([schemeLink('tel:+15550100')])).toBeNull();
+    });
+
     it('ignores internal anchor and Joplin resource links', () => {
         expect(resolveContextualCopyTarget([link(LinkType.InternalAnchor)])).toBeNull();
         expect(resolveContextualCopyTarget([link(LinkType.JoplinResource)])).toBeNull();
@@ -1,4 +1,5 @@
 import { CodeContext, EditorContext, HeadingContext, LinkContext, LinkType, QuoteContext } from '../types';
+import { CustomUrlSchemeAction, getCustomUrlSchemeActions } from './customUrlSchemes';
 
 export type ContextualCopyTarget =
     | { kind: 'code'; context: CodeContext }
@@ -6,7 +7,16 @@ export type ContextualCopyTarget =
     | { kind: 'heading'; context: HeadingContext }
     | { kind: 'quote'; context: QuoteContext };
 
-export function resolveContextualCopyTarget(contexts: EditorContext[]): ContextualCopyTarget | null {
+/**
+ * Picks what "Contextual Copy" copies: code, then a link, heading or quote.
+ * @param customUrlSchemes - Parsed `customUrlSchemes` setting; links with other
+ * schemes are only copied when their scheme has the `copy` action, as in the
+ * context menu
+ */
+export function resolveContextualCopyTarget(
+    contexts: EditorContext[],
+    customUrlSchemes: Map<string, CustomUrlSchemeAction[]> = new Map()
+): ContextualCopyTarget | null {
     const codeContext = contexts.find((context): context is CodeContext => context.contextType === 'code');
     if (codeContext) {
         return { kind: 'code', context: codeContext };
@@ -14,7 +24,12 @@ export function resolveContextualCopyTarget(contexts: EditorContext[]): Contextu
 
     const linkContext = contexts.find(
         (context): context is LinkContext =>
-            context.contextType === 'link' && (context.type === LinkType.ExternalUrl || context.type === LinkType.Email)
+            context.contextType === 'link' &&
+            (context.type === LinkType.ExternalUrl ||
+                context.type === LinkType.Email ||
+                context.type === LinkType.JoplinUrl ||
+                (context.type === LinkType.CustomScheme &&
+                    getCustomUrlSchemeActions(context.url, customUrlSchemes).includes('copy')))
     );
     if (linkContext) {
         return { kind: 'link', context: linkContext };
@@ -0,0 +1,54 @@
+import {
+    decodeUrlPath,
+    DEFAULT_CUSTOM_URL_SCHEMES,
+    getCustomUrlSchemeActions,
+    getUrlScheme,
+    parseCustomUrlSchemes,
+} from './customUrlSchemes';
+
+describe('parseCustomUrlSchemes', () => {
+    it('parses schemes with their actions', () => {
+        expect(parseCustomUrlSchemes('file: open path, Tel:copy,, zotero')).toEqual(
+            new Map([
+                ['file', ['open', 'path']],
+                ['tel', ['copy']],
+                ['zotero', ['open', 'copy']],
+            ])
+        );
+    });
+
+    it('ignores unknown and repeated actions', () => {
+        expect(parseCustomUrlSchemes('ftp: launch open open')).toEqual(new Map([['ftp', ['open']]]));
+    });
+
+    it('parses the default', () => {
+        expect(parseCustomUrlSchemes(DEFAULT_CUSTOM_URL_SCHEMES).get('file')).toEqual(['open', 'path']);
+    });
+});
+
+describe('getCustomUrlSchemeActions', () => {
+    const schemes = parseCustomUrlSchemes('obsidian: open');
+
+    it('returns the actions of the URL scheme', () => {
+        expect(getCustomUrlSchemeActions('OBSIDIAN://open?vault=v', schemes)).toEqual(['open']);
+    });
+
+    it('returns no actions for unlisted schemes', () => {
+        expect(getCustomUrlSchemeActions('slack://channel?id=1', schemes)).toEqual([]);
+        expect(getUrlScheme('C:/Users/me')).toBeNull();
+    });
+});
+
+describe('decodeUrlPath', () => {
+    it.each([
+        ['file:///C:/My%20Docs/a.txt', 'C:/My Docs/a.txt'],
+        ['file:///home/me/a%20b.txt#page=2', '/home/me/a b.txt'],
+        ['file://localhost/etc/hosts', '/etc/hosts'],
+        ['file://server/share/a.txt', '//server/share/a.txt'],
+        ['tel:+1%20555%200100', '+1 555 0100'],
+        ['ftp://example.com/pub/%E2%9C%93.txt', 'example.com/pub/✓.txt'],
+        ['zotero://select/items/%ZZ', 'select/items/%ZZ'],
+    ])('decodes %s', (url, expected) => {
+        expect(decodeUrlPath(url)).toBe(expected);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Links with other URL schemes (`file://`, `obsidian://`, `tel:`, …). The
+ * editor classifies any such URL as `LinkType.CustomScheme`; the
+ * `customUrlSchemes` setting decides which schemes get context menu items and
+ * which actions those offer.
+ */
+
+import { logger } from '../logger';
+
+/**
+ * What the context menu offers for a scheme: open the URL with the system
+ * handler (`openItem`), copy the URL, or copy its decoded path.
+ */
+export type CustomUrlSchemeAction = 'open' | 'copy' | 'path';
+
+const CUSTOM_URL_SCHEME_ACTIONS: readonly CustomUrlSchemeAction[] = ['open', 'copy', 'path'];
+
+/** Actions of a scheme listed without any. */
+const DEFAULT_ACTIONS: CustomUrlSchemeAction[] = ['open', 'copy'];
+
+/**
+ * Shipped `customUrlSchemes` setting default.
+ */
+export const DEFAULT_CUSTOM_URL_SCHEMES = [
+    'file: open path',
+    'ftp: open copy',
+    'obsidian: open copy',
+    'zotero: open copy',
+    'vscode: open copy',
+    'slack: open copy',
+    'tel: copy',
+].join(', ');
+
+/**
+ * Parses the `customUrlSchemes` setting: comma-separated `scheme: action …`
+ * entries, e.g. `file: open path, tel: copy`. A scheme without actions gets
+ * `open copy`; unknown actions are logged and ignored.
+ * @returns Actions by lower-cased scheme name (without the colon)
+ */
+export function parseCustomUrlSchemes(setting: string): Map<string, CustomUrlSchemeAction[]> {
+    const schemes = new Map<string, CustomUrlSchemeAction[]>();
+
+    for (const entry of setting.split(',')) {
+        const [rawScheme, ...rawActions] = entry.trim().split(/[\s:]+/);
+        const scheme = rawScheme?.toLowerCase();
+        if (!scheme) {
+            continue;
+        }
+
+        const actions: CustomUrlSchemeAction[] = [];
+        for (const action of rawActions.filter(Boolean).map((name) => name.toLowerCase())) {
+            if (!CUSTOM_URL_SCHEME_ACTIONS.includes(action as CustomUrlSchemeAction)) {
+                logger.warn(`Ignoring unknown action "${action}" for URL scheme ${scheme}`);
+                continue;
+            }
+            if (!actions.includes(action as CustomUrlSchemeAction)) {
+                actions.push(action as CustomUrlSchemeAction);
+            }
+        }
+        schemes.set(scheme, rawActions.some(Boolean) ? actions : DEFAULT_ACTIONS);
+    }
+
+    return schemes;
+}
+
+/**
+ * Returns the lower-cased scheme of a URL (`file` for `file:///x`), or null.
+ * Single letters are Windows drive letters, not schemes.
+ */
+export function getUrlScheme(url: string): string | null {
+    return url.match(/^([a-z][a-z0-9+.-]+):/i)?.[1].toLowerCase() ?? null;
+}
+
+/**
+ * Returns the context menu actions configured for a URL's scheme (none if the
+ * scheme isn't listed).
+ */
+export function getCustomUrlSchemeActions(
+    url: string,
+    schemes: Map<string, CustomUrlSchemeAction[]>
+): CustomUrlSchemeAction[] {
+    const scheme = getUrlScheme(url);
+    return (scheme && schemes.get(scheme)) || [];
+}
+
+/**
+ * Returns the percent-decoded part of a URL after its scheme. `file:` URLs
+ * become file system paths: `file:///C:/My%20Docs/a.txt` → `C:/My Docs/a.txt`,
+ * `file:///home/me/a.txt` → `/home/me/a.txt`, `file://server/share` →
+ * `//server/share` (query and fragment dropped).
+ * @example decodeUrlPath('tel:+1%20555%200100') // => "+1 555 0100"
+ */
+export function decodeUrlPath(url: string): string {
+    const scheme = getUrlScheme(url);
+    let path = scheme ? url.slice(scheme.length + 1) : url;
+
+    if (scheme === 'file') {
+        path = path
+            .replace(/[?#].*$/s, '')
+            .replace(/^\/\/(?:localhost)?(?=\/)/i, '')
+            .replace(/^\/([a-z]:)/i, '$1');
+    } else {
+        path = path.replace(/^\/\//, '');
+    }
+
+    try {
+        return decodeURIComponent(path);
+    } catch {
+        // Malformed percent-encoding: copy the path as written
+        return path;
+    }
+}
@@ -0,0 +1,44 @@
+import { findHeadingAnchorByText, findHeadingTextByAnchor } from './headingAnchors';
+
+describe('findHeadingTextByAnchor', () => {
+    const body = [
+        '# Introduction',
+        '',
+        'Some text',
+        '',
+        '## Setup *and* `config`',
+        '',
+        'Usage',
+        '-----',
+        '',
+        '## Introduction',
+    ].join('\n');
+
+    it('finds ATX and Setext headings by their anchor', () => {
+        expect(findHeadingTextByAnchor(body, 'introduction')).toBe('Introduction');
+        expect(findHeadingTextByAnchor(body, 'setup-and-config')).toBe('Setup and config');
+        expect(findHeadingTextByAnchor(body, 'usage')).toBe('Usage');
+    });
+
+    it('matches duplicate headings by their suffixed anchor', () => {
+        expect(findHeadingTextByAnchor(body, 'introduction-2')).toBe('Introduction');
+    });
+
+    it('returns null when no heading has the anchor', () => {
+        expect(findHeadingTextByAnchor(body, 'missing')).toBeNull();
+        expect(findHeadingTextByAnchor('', 'introduction')).toBeNull();
+    });
+});
+
+describe('findHeadingAnchorByText', () => {
+    const body = ['# Introduction', '', '## Setup', '', '## introduction'].join('\n');
+
+    it('returns the anchor of the first heading with the text, ignoring case', () => {
+        expect(findHeadingAnchorByText(body, 'setup')).toBe('setup');
+        expect(findHeadingAnchorByText(body, ' INTRODUCTION ')).toBe('introduction');
+    });
+
+    it('falls back to the slug of the text when no heading matches', () => {
+        expect(findHeadingAnchorByText(body, 'Next Steps')).toBe('next-steps');
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Heading text extraction and anchor (slug) generation, shared by the editor
+ * (cursor headings) and the main plugin (headings of other notes).
+ *
+ * The slugify + duplicate-suffix logic is kept intentionally in sync with the
+ * joplin-heading-navigator plugin so that generated anchors resolve to the same
+ * heading IDs Joplin produces when rendering a note:
+ * https://github.com/bwat47/joplin-heading-navigator/blob/main/src/headingExtractor.ts
+ *
+ * Anchors depend on ALL headings in the note (duplicate slugs receive a `-2`,
+ * `-3`, ... suffix in document order), so {@link listHeadings} always walks the
+ * whole syntax tree.
+ */
+
+import { SyntaxNode, Tree } from '@lezer/common';
+import { GFM, parser } from '@lezer/markdown';
+import uslug from '@joplin/fork-uslug';
+
+/**
+ * Parses the heading level from a Lezer node name.
+ * Handles ATX headings (`ATXHeading1`..`ATXHeading6`) and
+ * Setext headings (`SetextHeading1`, `SetextHeading2`).
+ * @returns The heading level (1-6), or null if the node is not a heading.
+ */
+function parseHeadingLevel(nodeName: string): number | null {
+    if (nodeName.startsWith('ATXHeading')) {
+        const level = Number(nodeName.replace('ATXHeading', ''));
+        return Number.isNaN(level) ? null : level;
+    }
+
+    if (nodeName.startsWith('SetextHeading')) {
+        const level = Number(nodeName.replace('SetextHeading', ''));
+        if (level === 1 || level === 2) {
+            return level;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Nodes whose source text is copied verbatim instead of being walked.
+ *
+ * Joplin's editor grammar wraps `$...$` math in an `InlineMath` node whose content is
+ * re-parsed by a TeX parser, so walking it drops every token that parser recognises
+ * (`# Maxwell $E=mc^2$` came out as `Maxwell $=$`). Joplin's own in-editor heading links
+ * slug the raw heading source, so keeping the formula and its `$` delimiters verbatim is
+ * also what produces the anchor Joplin's ctrl+click navigation looks for
+ * (`maxwell-emc2`).
+ *
+ * `BlockMath` cannot start on a heading line, but is listed for the same reason.
+ */
+const VERBATIM_NODE_NAMES = new Set(['InlineMath', 'BlockMath']);
+
+/**
+ * Recursively extracts the visible inline text of a heading node, skipping
+ * formatting marks, URLs, link labels/titles, images, and HTML tags while
+ * preserving escaped characters, math regions, and the gaps between inline
+ * elements.
+ */
+function extractInlineText(node: SyntaxNode, doc: string): string {
+    let out = '';
+    const cursor = node.cursor();
+
+    if (!cursor.firstChild()) {
+        if (cursor.name === 'Text' || cursor.name === 'CodeText') {
+            return doc.slice(cursor.from, cursor.to);
+        }
+        return '';
+    }
+
+    let lastPos = node.from;
+
+    do {
+        const name = cursor.name;
+        const from = cursor.from;
+        const to = cursor.to;
+
+        if (from > lastPos) {
+            out += doc.slice(lastPos, from);
+        }
+
+        // Keep math regions exactly as written (see VERBATIM_NODE_NAMES).
+        if (VERBATIM_NODE_NAMES.has(name)) {
+            out += doc.slice(from, to);
+            lastPos = to;
+            continue;
+        }
+
+        // A URL node is a hidden link destination only inside a Link/Image
+        // (e.g. [text](url) / ![alt](url)). A bare URL, email, or autolink target
+        // is visible heading text, so it must be kept (matches Joplin's heading IDs).
+        const parentName = cursor.node.parent?.name;
+        const isLinkDestination = name === 'URL' && (parentName === 'Link' || parentName === 'Image');
+
+        if (
+            name.endsWith('Mark') ||
+            name === 'HeaderMark' ||
+            name === 'Image' ||
+            name === 'LinkLabel' ||
+            name === 'LinkTitle' ||
+            isLinkDestination
+        ) {
+            lastPos = to;
+            continue;
+        }
+
+        if (name === 'Escape') {
+            out += doc.slice(from + 1, to);
+            lastPos = to;
+            continue;
+        }
+
+        if (name === 'HTMLTag') {
+            lastPos = to;
+            continue;
+        }
+
+        if (name === 'Text' || name === 'CodeText' || name === 'URL') {
+            out += doc.slice(from, to);
+            lastPos = to;
+            continue;
+        }
+
+        out += extractInlineText(cursor.node, doc);
+        lastPos = to;
+    } while (cursor.nextSibling());
+
+    if (lastPos < node.to) {
+        out += doc.slice(lastPos, node.to);
+    }
+
+    return out;
+}
+
+// Matches highlight (==text==) and insert (++text++) formatting, keeping only
+// the inner content ($2). Joplin does not include these marks in heading IDs.
+const UNSUPPORTED_INLINE_FORMATTING_PATTERN = /(==|\+\+)(?=\S)([\s\S]*?\S)\1/g;
+
+function stripUnsupportedInlineFormatting(text: string): string {
+    return text.replace(UNSUPPORTED_INLINE_FORMATTING_PATTERN, '$2');
+}
+
+function normalizeHeadingText(node: SyntaxNode, doc: string): string {
+    return stripUnsupportedInlineFormatting(extractInlineText(node, doc)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Converts heading text into a URL-safe anchor, deduplicating against previously
+ * seen anchors by appending `-2`, `-3`, ... in document order.
+ * @param counts - Mutable map tracking how many times each base anchor has been seen.
+ */
+function createUniqueAnchor(text: string, fallback: string, counts: Map<string, number>): string {
+    const anchorBase = (typeof text === 'string' ? uslug(text) : '') || fallback;
+    const previousCount = counts.get(anchorBase);
+    if (previousCount === undefined) {
+        counts.set(anchorBase, 1);
+        return anchorBase;
+    }
+    counts.set(anchorBase, previousCount + 1);
+    return `${anchorBase}-${previousCount + 1}`;
+}
+
+export interface HeadingAnchor {
+    /** Normalized heading text (formatting marks stripped) */
+    text: string;
+    /** Unique anchor, matching Joplin's rendered heading ID */
+    anchor: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * Lists every non-empty heading of a parsed markdown document with its unique
+ * anchor, in document order.
+ *
+ * @param tree - Lezer markdown syntax tree of `doc`
+ * @param doc - The document text
+ */
+export function listHeadings(tree: Tree, doc: string): HeadingAnchor[] {
+    const headings: HeadingAnchor[] = [];
+    const anchorCounts = new Map<string, number>();
+
+    tree.iterate({
+        enter(node) {
+            const level = parseHeadingLevel(node.type.name);
+            if (level === null) {
+                return;
+            }
+
+            const text = normalizeHeadingText(node.node, doc);
+            if (!text) {
+                return;
+            }
+
+            const anchor = createUniqueAnchor(text, `heading-${node.from}`, anchorCounts);
+            headings.push({ text, anchor, from: node.from, to: node.to });
+        },
+    });
+
+    return headings;
+}
+
+const markdownParser = parser.configure(GFM);
+
+/**
+ * Finds the text of the heading a `#anchor` points to in a note body, for
+ * titling links to a heading in another note.
+ *
+ * @returns The heading text, or null if no heading has that anchor
+ */
+export function findHeadingTextByAnchor(markdown: string, anchor: string): string | null {
+    const headings = listHeadings(markdownParser.parse(markdown), markdown);
+    return headings.find((heading) => heading.anchor === anchor)?.text ?? null;
+}
+
+/**
+ * Returns the anchor of the first heading with the given text (ignoring case)
+ * in a note body, for linking to a heading by name. Falls back to the plain
+ * slug of the text when the note has no such heading.
+ */
+export function findHeadingAnchorByText(markdown: string, text: string): string {
+    const wanted = text.trim().toLowerCase();
+    const headings = listHeadings(markdownParser.parse(markdown), markdown);
+    return headings.find((heading) => heading.text.toLowerCase() === wanted)?.anchor ?? uslug(text.trim());
+}
@@ -26,13 +26,21 @@ export function escapeLinkText(text: string): string {
         .replace(/\]/g, '\\]');
 }
 
+/**
+ * Link text for a heading in another note, before escaping.
+ * @example formatHeadingNoteLabel('Introduction', 'My Note') // => "Introduction @ My Note"
+ */
+export function formatHeadingNoteLabel(headingText: string, noteTitle: string): string {
+    return `${headingText} @ ${noteTitle}`;
+}
+
 export function formatExternalHeadingLink(
     headingText: string,
     noteTitle: string,
     noteId: string,
     headingAnchor: string
 ): string {
-    const label = `${escapeLinkText(headingText)} @ ${escapeLinkText(noteTitle)}`;
+    const label = formatHeadingNoteLabel(escapeLinkText(headingText), escapeLinkText(noteTitle));
     const target = `:/${noteId}#${headingAnchor}`;
     return `[${label}](${target})`;
 }
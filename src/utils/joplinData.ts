@@ -0,0 +1,106 @@
+import joplin from 'api';
+
+/** Page size for paginated `joplin.data` requests (the API maximum). */
+const PAGE_SIZE = 100;
+
+export interface NoteBody {
+    id: string;
+    title: string;
+    body: string;
+}
+
+/** A note or resource that a `:/id` link points to. */
+export type JoplinLinkTarget =
+    | { type: 'note'; title: string; body: string }
+    | { type: 'resource'; title: string; filename: string };
+
+/**
+ * Reads every page of a paginated `joplin.data` collection.
+ */
+async function getAllItems<T>(path: string[], fields: string[]): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+        const response = await joplin.data.get(path, { fields, limit: PAGE_SIZE, page });
+        items.push(...(response.items as T[]));
+        if (!response.has_more) {
+            return items;
+        }
+    }
+}
+
+/**
+ * Returns the IDs of all notes in a notebook and its sub-notebooks.
+ */
+export async function getNotebookNoteIds(folderId: string): Promise<string[]> {
+    const folders = await getAllItems<{ id: string; parent_id: string }>(['folders'], ['id', 'parent_id']);
+
+    const folderIds = [folderId];
+    for (let index = 0; index < folderIds.length; index++) {
+        folderIds.push(...folders.filter((folder) => folder.parent_id === folderIds[index]).map((folder) => folder.id));
+    }
+
+    const noteIds: string[] = [];
+    for (const id of folderIds) {
+        const notes = await getAllItems<{ id: string }>(['folders', id, 'notes'], ['id']);
+        noteIds.push(...notes.map((note) => note.id));
+    }
+    return noteIds;
+}
+
+/**
+ * Reads a note's title and body, or null if it no longer exists.
+ */
+export async function getNoteBody(noteId: string): Promise<NoteBody | null> {
+    try {
+        return (await joplin.data.get(['notes', noteId], { fields: ['id', 'title', 'body'] })) as NoteBody;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Saves a new note body.
+ */
+export async function putNoteBody(noteId: string, body: string): Promise<void> {
+    await joplin.data.put(['notes', noteId], null, { body });
+}
+
+/**
+ * Looks up the note or resource with the given ID, or null if neither exists.
+ */
+export async function getJoplinLinkTarget(id: string): Promise<JoplinLinkTarget | null> {
+    try {
+        return await Promise.any([
+            joplin.data
+                .get(['notes', id], { fields: ['title', 'body'] })
+                .then((note: { title: string; body: string }) => ({ type: 'note' as const, ...note })),
+            joplin.data
+                .get(['resources', id], { fields: ['title', 'filename'] })
+                .then((resource: { title: string; filename: string }) => ({ type: 'resource' as const, ...resource })),
+        ]);
+    } catch {
+        // AggregateError: the ID is neither a note nor a resource
+        return null;
+    }
+}
+
+/**
+ * Returns the notes titled exactly `title` (ignoring case and surrounding
+ * whitespace), most recently updated first.
+ */
+export async function findNotesByTitle(title: string): Promise<Array<{ id: string; title: string }>> {
+    // The search only narrows the candidates; quotes would end the phrase early
+    const response = await joplin.data.get(['search'], {
+        query: `title:"${title.replace(/"/g, ' ')}"`,
+        type: 'note',
+        fields: ['id', 'title'],
+        order_by: 'updated_time',
+        order_dir: 'DESC',
+        limit: PAGE_SIZE,
+    });
+
+    const wanted = title.trim().toLowerCase();
+    return (response.items as Array<{ id: string; title: string }>).filter(
+        (note) => note.title.trim().toLowerCase() === wanted
+    );
+}
@@ -0,0 +1,22 @@
+import { getJoplinLinkTitle } from './joplinLinkTitles';
+
+describe('getJoplinLinkTitle', () => {
+    const note = { type: 'note' as const, title: 'My Note', body: '# Intro\n\ntext\n\n## Next steps' };
+
+    it('uses the note title', () => {
+        expect(getJoplinLinkTitle(note)).toBe('My Note');
+    });
+
+    it('formats links to a heading as "Heading @ Note"', () => {
+        expect(getJoplinLinkTitle(note, 'next-steps')).toBe('Next steps @ My Note');
+    });
+
+    it('falls back to the note title when the heading is gone', () => {
+        expect(getJoplinLinkTitle(note, 'removed')).toBe('My Note');
+    });
+
+    it('uses the resource title, or its file name if untitled', () => {
+        expect(getJoplinLinkTitle({ type: 'resource', title: 'Scan', filename: 'scan.pdf' })).toBe('Scan');
+        expect(getJoplinLinkTitle({ type: 'resource', title: '', filename: 'scan.pdf' })).toBe('scan.pdf');
+    });
+});
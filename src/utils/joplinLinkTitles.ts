@@ -0,0 +1,40 @@
+/**
+ * Link titles for `:/id` links to notes and resources, read from the local
+ * Joplin database instead of the network: the note title ("Heading @ Note"
+ * for links to a heading), or the resource title (its file name if untitled).
+ */
+
+import { findHeadingTextByAnchor } from './headingAnchors';
+import { formatHeadingNoteLabel } from './headingLinkFormatting';
+import { getJoplinLinkTarget, JoplinLinkTarget } from './joplinData';
+import { JOPLIN_LINK_TITLE_PROVIDER, LinkTitleResult } from './linkTitleUtils';
+import { extractJoplinResourceId } from './urlUtils';
+
+/**
+ * Returns the link title for a note or resource link target.
+ * @param anchor - The link's `#anchor` without the `#`, if any
+ * @example getJoplinLinkTitle({ type: 'note', title: 'My Note', body: '# Intro' }, 'intro') // => "Intro @ My Note"
+ */
+export function getJoplinLinkTitle(target: JoplinLinkTarget, anchor?: string): string {
+    if (target.type === 'resource') {
+        return target.title || target.filename;
+    }
+
+    const headingText = anchor ? findHeadingTextByAnchor(target.body, anchor) : null;
+    return headingText ? formatHeadingNoteLabel(headingText, target.title) : target.title;
+}
+
+/**
+ * Looks up the title of a `:/id` or `:/id#anchor` link. Links to a missing
+ * item (or an untitled one) get the ID as a fallback title, like the domain
+ * fallback of external links.
+ */
+export async function fetchJoplinLinkTitle(url: string): Promise<LinkTitleResult> {
+    const id = extractJoplinResourceId(url);
+    const hashIndex = url.indexOf('#');
+    const anchor = hashIndex >= 0 ? url.slice(hashIndex + 1) : undefined;
+
+    const target = await getJoplinLinkTarget(id);
+    const title = target ? getJoplinLinkTitle(target, anchor).trim() : '';
+    return title ? { title, isFallback: false, provider: JOPLIN_LINK_TITLE_PROVIDER } : { title: id, isFallback: true };
+}
@@ -0,0 +1,107 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { checkLink, isBrokenLink } from './linkChecker';
+
+type Route = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+const routes = new Map<string, Route>();
+/** Method and path of each request. */
+const requests: string[] = [];
+
+function status(code: number, headers: Record<string, string> = {}): Route {
+    return (_request, response) => {
+        response.writeHead(code, headers);
+        response.end();
+    };
+}
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        requests.push(`${request.method} ${path}`);
+        (routes.get(path) ?? status(404))(request, response);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    routes.clear();
+    requests.length = 0;
+});
+
+describe('checkLink', () => {
+    const clock = () => {
+        let time = 0;
+        return () => (time += 25);
+    };
+
+    it('reports the status of a HEAD request and how long it took', async () => {
+        routes.set('/ok', status(200));
+
+        const result = await checkLink(`${baseUrl}/ok`, '', clock());
+
+        expect(result).toEqual({ url: `${baseUrl}/ok`, status: 200, durationMs: 25 });
+        expect(requests).toEqual(['HEAD /ok']);
+        expect(isBrokenLink(result)).toBe(false);
+    });
+
+    it('falls back to GET when the server rejects HEAD', async () => {
+        routes.set('/no-head', (request, response) => {
+            response.writeHead(request.method === 'HEAD' ? 405 : 200);
+            response.end('page');
+        });
+
+        const result = await checkLink(`${baseUrl}/no-head`);
+
+        expect(result.status).toBe(200);
+        expect(requests).toEqual(['HEAD /no-head', 'GET /no-head']);
+    });
+
+    it('reports the redirect target', async () => {
+        routes.set('/old', status(301, { Location: '/new' }));
+        routes.set('/new', status(200));
+
+        const result = await checkLink(`${baseUrl}/old`);
+
+        expect(result).toMatchObject({ status: 200, redirectedTo: `${baseUrl}/new` });
+    });
+
+    it('ignores the fragment when looking for redirects', async () => {
+        routes.set('/page', status(200));
+        routes.set('/old', status(301, { Location: '/page' }));
+
+        expect(await checkLink(`${baseUrl}/page#section`)).not.toHaveProperty('redirectedTo');
+        expect(await checkLink(`${baseUrl}/old#section`)).toMatchObject({ redirectedTo: `${baseUrl}/page` });
+    });
+
+    it('follows redirects with site headers', async () => {
+        routes.set('/private/old', status(301, { Location: '/new' }));
+        routes.set('/new', status(200));
+        const requestHeaders = JSON.stringify([{ pattern: `^${baseUrl}/private/`, headers: { Cookie: 'session=1' } }]);
+
+        const result = await checkLink(`${baseUrl}/private/old`, requestHeaders);
+
+        expect(result).toMatchObject({ status: 200, redirectedTo: `${baseUrl}/new` });
+        expect(requests).toEqual(['HEAD /private/old', 'HEAD /new']);
+    });
+
+    it('marks missing pages and failed requests as broken', async () => {
+        const missing = await checkLink(`${baseUrl}/missing`);
+        expect(missing.status).toBe(404);
+        expect(requests).toEqual(['HEAD /missing', 'GET /missing']);
+        expect(isBrokenLink(missing)).toBe(true);
+
+        const failed = await checkLink('http://127.0.0.1:1/');
+        expect(failed.status).toBeUndefined();
+        expect(failed.error).toBeTruthy();
+        expect(isBrokenLink(failed)).toBe(true);
+    });
+});
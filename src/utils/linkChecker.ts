@@ -0,0 +1,87 @@
+/**
+ * Dead link checking for "Check Links in Note": one HEAD request per URL,
+ * falling back to GET for servers that reject or mishandle HEAD. Requests go
+ * through the same per-site headers and redirect handling as title fetching.
+ */
+
+import { fetchWithSiteHeaders } from './linkTitleProviders';
+
+/** HEAD responses that are retried with GET (besides failed requests). */
+const HEAD_RETRY_STATUSES = new Set([400, 403, 404, 405, 429, 501]);
+
+export interface LinkCheckResult {
+    url: string;
+    /** Status of the final response; absent when the request failed. */
+    status?: number;
+    /** Final URL, when the link redirected elsewhere. */
+    redirectedTo?: string;
+    /** Why the request failed (network error, timeout, too many redirects). */
+    error?: string;
+    /** Time taken, including the GET retry, in milliseconds. */
+    durationMs: number;
+}
+
+async function requestLink(url: string, method: 'HEAD' | 'GET', requestHeaders: string): Promise<Response> {
+    const response = await fetchWithSiteHeaders(
+        url,
+        { method, headers: { 'User-Agent': 'Mozilla/5.0' } },
+        requestHeaders
+    );
+    // Only the status matters, so don't download the body
+    await response.body?.cancel();
+    return response;
+}
+
+function withoutHash(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+}
+
+/**
+ * Checks one URL. Never throws: failed requests are reported in `error`.
+ *
+ * @param requestHeaders - The `linkTitleRequestHeaders` setting
+ * @param now - Clock, injectable for tests
+ */
+export async function checkLink(
+    url: string,
+    requestHeaders = '',
+    now: () => number = Date.now
+): Promise<LinkCheckResult> {
+    const startedAt = now();
+    let response: Response | null = null;
+    let error: unknown;
+
+    try {
+        response = await requestLink(url, 'HEAD', requestHeaders);
+    } catch (headError) {
+        error = headError;
+    }
+
+    if (!response || HEAD_RETRY_STATUSES.has(response.status)) {
+        try {
+            response = await requestLink(url, 'GET', requestHeaders);
+        } catch (getError) {
+            error = getError;
+        }
+    }
+
+    const durationMs = now() - startedAt;
+    if (!response) {
+        return { url, error: error instanceof Error ? error.message : String(error), durationMs };
+    }
+
+    // `response.url` never has the fragment, so compare without it
+    const finalUrl = response.url;
+    const redirected = finalUrl && withoutHash(finalUrl) !== withoutHash(url);
+    return { url, status: response.status, ...(redirected ? { redirectedTo: finalUrl } : {}), durationMs };
+}
+
+/**
+ * Whether a check found the link broken: the request failed or the final
+ * response is a 4xx/5xx error.
+ */
+export function isBrokenLink(result: LinkCheckResult): boolean {
+    return result.status === undefined || result.status >= 400;
+}
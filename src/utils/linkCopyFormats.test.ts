@@ -0,0 +1,53 @@
+import { LinkType } from '../types';
+import { formatLinkAsHtml, formatLinkAsMarkdown, getPlainLinkText, isShareableLink } from './linkCopyFormats';
+
+const link = (url: string, linkText?: string, linkTitleToken?: string) => ({
+    url,
+    type: LinkType.ExternalUrl,
+    linkText,
+    linkTitleToken,
+});
+
+describe('isShareableLink', () => {
+    it('accepts URLs that work outside Joplin', () => {
+        expect(isShareableLink({ type: LinkType.ExternalUrl })).toBe(true);
+        expect(isShareableLink({ type: LinkType.Email })).toBe(true);
+        expect(isShareableLink({ type: LinkType.JoplinUrl })).toBe(true);
+        expect(isShareableLink({ type: LinkType.CustomScheme })).toBe(true);
+        expect(isShareableLink({ type: LinkType.JoplinResource })).toBe(false);
+        expect(isShareableLink({ type: LinkType.InternalAnchor })).toBe(false);
+    });
+});
+
+describe('getPlainLinkText', () => {
+    it('removes backslash escapes and keeps other markup', () => {
+        expect(getPlainLinkText('\\[draft\\] *notes*')).toBe('[draft] *notes*');
+        expect(getPlainLinkText('  C:\\Users  ')).toBe('C:\\Users');
+    });
+});
+
+describe('formatLinkAsMarkdown', () => {
+    it('formats an inline link with its title', () => {
+        expect(formatLinkAsMarkdown(link('https://a.com', 'A', '"Home"'))).toBe('[A](https://a.com "Home")');
+    });
+
+    it('encodes unbalanced parentheses in the URL', () => {
+        expect(formatLinkAsMarkdown(link('https://a.com/x)', 'A'))).toBe('[A](https://a.com/x%29)');
+    });
+
+    it('formats a link without text as an autolink', () => {
+        expect(formatLinkAsMarkdown(link('https://a.com'))).toBe('<https://a.com>');
+    });
+});
+
+describe('formatLinkAsHtml', () => {
+    it('escapes the text, URL and title', () => {
+        expect(formatLinkAsHtml(link('https://a.com/?a=1&b=2', 'A & \\[B\\]', '"Say \\"hi\\""'))).toBe(
+            '<a href="https://a.com/?a=1&amp;b=2" title="Say &quot;hi&quot;">A &amp; [B]</a>'
+        );
+    });
+
+    it('uses the URL as text for links without text', () => {
+        expect(formatLinkAsHtml(link('https://a.com'))).toBe('<a href="https://a.com">https://a.com</a>');
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Formats a link for the "Copy Link Text", "Copy as Markdown", "Copy as HTML"
+ * and "Copy as Rich Link" actions.
+ */
+
+import { LinkType } from '../types';
+import type { LinkContext } from '../types';
+import { escapeHtml } from './htmlUtils';
+import { parseTitleAttributeToken } from './linkTitleUtils';
+import { formatLinkDestination } from './linkUrlRewrite';
+
+type CopyableLink = Pick<LinkContext, 'url' | 'type' | 'linkText' | 'linkTitleToken'>;
+
+/**
+ * Whether a link's URL means anything outside Joplin, so HTML and rich links
+ * are worth copying (not `:/id` note links or `#anchor` links).
+ */
+export function isShareableLink(link: Pick<LinkContext, 'type'>): boolean {
+    return (
+        link.type === LinkType.ExternalUrl ||
+        link.type === LinkType.Email ||
+        link.type === LinkType.JoplinUrl ||
+        link.type === LinkType.CustomScheme
+    );
+}
+
+/**
+ * Returns link text as plain text: backslash escapes removed, e.g. `\[draft\]`
+ * → `[draft]`. Other markup such as `*emphasis*` is kept as written.
+ */
+export function getPlainLinkText(linkText: string): string {
+    return linkText.replace(/\\([!-/:-@[-`{-~])/g, '$1').trim();
+}
+
+/**
+ * Formats a link as an inline markdown link. Reference links are resolved to
+ * their URL so the copy works on its own; links without text become `<url>`.
+ * @example formatLinkAsMarkdown({ url: 'https://a.com', linkText: 'A', ... }) // => "[A](https://a.com)"
+ */
+export function formatLinkAsMarkdown(link: CopyableLink): string {
+    if (!link.linkText) {
+        return `<${link.url}>`;
+    }
+
+    const titlePart = link.linkTitleToken ? ` ${link.linkTitleToken}` : '';
+    return `[${link.linkText}](${formatLinkDestination(link.url)}${titlePart})`;
+}
+
+/**
+ * Formats a link as an HTML anchor, with the plain link text (or the URL).
+ * @example formatLinkAsHtml({ url: 'https://a.com', linkText: 'A & B', ... }) // => '<a href="https://a.com">A &amp; B</a>'
+ */
+export function formatLinkAsHtml(link: CopyableLink): string {
+    const text = (link.linkText && getPlainLinkText(link.linkText)) || link.url;
+    const title = link.linkTitleToken ? ` title="${escapeHtml(parseTitleAttributeToken(link.linkTitleToken))}"` : '';
+    return `<a href="${escapeHtml(link.url)}"${title}>${escapeHtml(text)}</a>`;
+}
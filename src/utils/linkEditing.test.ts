@@ -0,0 +1,174 @@
+import type { MarkdownLinkInfo, MarkdownLinksSnapshot, ReferenceDefinitionInfo } from '../types';
+import {
+    buildLinkEditReplacements,
+    findLinkEditTarget,
+    formatEditedDestination,
+    formatEditedLinkText,
+    getLinkEditFields,
+    parseLinkEditForm,
+} from './linkEditing';
+
+const inlineLink = (expectedText: string, fields: Partial<MarkdownLinkInfo>): MarkdownLinkInfo => ({
+    from: 10,
+    to: 10 + expectedText.length,
+    text: '',
+    expectedText,
+    ...fields,
+});
+
+const definition = (expectedText: string, fields: Partial<ReferenceDefinitionInfo>): ReferenceDefinitionInfo => ({
+    from: 100,
+    to: 100 + expectedText.length,
+    label: '[ref]',
+    destination: 'https://example.com',
+    expectedText,
+    ...fields,
+});
+
+describe('findLinkEditTarget', () => {
+    const link = inlineLink('[Docs][Ref]', { text: 'Docs', referenceLabel: '[Ref]' });
+    const snapshot = (definitions: ReferenceDefinitionInfo[]): MarkdownLinksSnapshot => ({
+        links: [link],
+        definitions,
+        ranges: [],
+        docLength: 200,
+        trailingLineBreaks: 0,
+        endsWithDefinition: true,
+    });
+
+    it('finds the link starting at the position with its definition', () => {
+        const ref = definition('[ref]: https://example.com\n', {});
+        expect(findLinkEditTarget(snapshot([ref]), 10)).toEqual({ link, definition: ref });
+        expect(findLinkEditTarget(snapshot([ref]), 11)).toBeNull();
+    });
+
+    it('returns null for a reference link without a definition', () => {
+        expect(findLinkEditTarget(snapshot([]), 10)).toBeNull();
+    });
+});
+
+describe('getLinkEditFields', () => {
+    it('reads plain text, URL and title from an inline link', () => {
+        const link = inlineLink('[\\[draft\\] notes](<a b.pdf> "Say \\"hi\\"")', {
+            text: '\\[draft\\] notes',
+            destination: '<a b.pdf>',
+            linkTitleToken: '"Say \\"hi\\""',
+        });
+        expect(getLinkEditFields({ link })).toEqual({ text: '[draft] notes', url: 'a b.pdf', title: 'Say "hi"' });
+    });
+
+    it('reads the URL and title of a reference link from its definition', () => {
+        const link = inlineLink('[Docs][ref]', { text: 'Docs', referenceLabel: '[ref]' });
+        const ref = definition('[ref]: https://docs.example.com (Docs)\n', {
+            destination: 'https://docs.example.com',
+            linkTitleToken: '(Docs)',
+        });
+        expect(getLinkEditFields({ link, definition: ref })).toEqual({
+            text: 'Docs',
+            url: 'https://docs.example.com',
+            title: 'Docs',
+        });
+    });
+});
+
+describe('formatEditedLinkText / formatEditedDestination', () => {
+    it('escapes backslashes, pipes and brackets in link text', () => {
+        expect(formatEditedLinkText('[draft] a|b \\ c')).toBe('\\[draft\\] a\\|b \\\\ c');
+    });
+
+    it('wraps URLs with spaces in angle brackets and encodes unbalanced parentheses', () => {
+        expect(formatEditedDestination('https://example.com/a')).toBe('https://example.com/a');
+        expect(formatEditedDestination('file:///C:/My Docs/a.txt')).toBe('<file:///C:/My Docs/a.txt>');
+        expect(formatEditedDestination('https://example.com/a)')).toBe('https://example.com/a%29');
+    });
+});
+
+describe('buildLinkEditReplacements', () => {
+    const link = inlineLink('[Docs](https://example.com "Home")', {
+        text: 'Docs',
+        destination: 'https://example.com',
+        linkTitleToken: '"Home"',
+    });
+
+    it('returns nothing when no field changed', () => {
+        expect(buildLinkEditReplacements({ link }, getLinkEditFields({ link }))).toEqual([]);
+    });
+
+    it('rewrites the whole inline link with escaped fields', () => {
+        const edited = { text: 'Docs [v2]', url: 'https://example.com/a b', title: 'Say "hi"' };
+        expect(buildLinkEditReplacements({ link }, edited)).toEqual([
+            {
+                from: link.from,
+                to: link.to,
+                text: '[Docs \\[v2\\]](<https://example.com/a b> "Say \\"hi\\"")',
+                expectedText: link.expectedText,
+            },
+        ]);
+    });
+
+    it('keeps unchanged parts as written and drops a cleared title', () => {
+        const written = inlineLink('[a\\*b](<x y>)', { text: 'a\\*b', destination: '<x y>' });
+        expect(buildLinkEditReplacements({ link: written }, { text: 'a*b', url: 'x y', title: 'New' })[0].text).toBe(
+            '[a\\*b](<x y> "New")'
+        );
+        expect(
+            buildLinkEditReplacements({ link }, { text: 'Docs', url: 'https://example.com', title: '' })[0].text
+        ).toBe('[Docs](https://example.com)');
+    });
+
+    it('keeps images as images', () => {
+        const image = inlineLink('![Logo](logo.png)', { text: 'Logo', destination: 'logo.png', isImage: true });
+        expect(
+            buildLinkEditReplacements({ link: image }, { text: 'New logo', url: 'logo.png', title: '' })[0].text
+        ).toBe('![New logo](logo.png)');
+    });
+
+    it('rewrites the definition for a changed reference link URL or title', () => {
+        const refLink = inlineLink('[Docs][ref]', { text: 'Docs', referenceLabel: '[ref]' });
+        const ref = definition('[ref]: https://example.com\n', {});
+        expect(
+            buildLinkEditReplacements(
+                { link: refLink, definition: ref },
+                { text: 'Docs', url: 'https://example.com/new', title: 'New' }
+            )
+        ).toEqual([
+            {
+                from: ref.from,
+                to: ref.to,
+                text: '[ref]: https://example.com/new "New"\n',
+                expectedText: ref.expectedText,
+            },
+        ]);
+    });
+
+    it('gives shortcut and collapsed reference links an explicit label when their text changes', () => {
+        const ref = definition('[docs]: https://example.com', { label: '[docs]' });
+        for (const expectedText of ['[Docs]', '[Docs][]']) {
+            const refLink = inlineLink(expectedText, { text: 'Docs', referenceLabel: '[Docs]' });
+            const [replacement] = buildLinkEditReplacements(
+                { link: refLink, definition: ref },
+                { text: 'Documentation', url: 'https://example.com', title: '' }
+            );
+            expect(replacement.text).toBe('[Documentation][docs]');
+        }
+
+        const fullLink = inlineLink('[Docs][docs]', { text: 'Docs', referenceLabel: '[docs]' });
+        expect(
+            buildLinkEditReplacements(
+                { link: fullLink, definition: ref },
+                { text: 'Guide', url: 'https://example.com', title: '' }
+            )[0].text
+        ).toBe('[Guide][docs]');
+    });
+});
+
+describe('parseLinkEditForm', () => {
+    it('reads trimmed single-line fields', () => {
+        expect(parseLinkEditForm({ text: ' Docs\n', url: 'https://example.com ', title: '' })).toEqual({
+            text: 'Docs',
+            url: 'https://example.com',
+            title: '',
+        });
+        expect(parseLinkEditForm(undefined)).toEqual({ text: '', url: '', title: '' });
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * "Edit Link…": reading a markdown link into separate text, URL and title
+ * fields for the edit dialog, and writing the edited fields back with the
+ * escaping each part needs.
+ */
+
+import type { MarkdownLinkInfo, MarkdownLinksSnapshot, ReferenceDefinitionInfo, TextReplacement } from '../types';
+import { buildTitleAttributeToken, escapeMarkdownLinkText, parseTitleAttributeToken } from './linkTitleUtils';
+import { formatLinkDestination } from './linkUrlRewrite';
+import { normalizeReferenceLabel } from './linkStyleConversion';
+
+/** The fields shown in the edit dialog, as plain text (no markdown escaping). */
+export interface LinkEditFields {
+    text: string;
+    url: string;
+    title: string;
+}
+
+/** A link to edit, with the definition that holds the URL and title of a reference link. */
+export interface LinkEditTarget {
+    link: MarkdownLinkInfo;
+    definition?: ReferenceDefinitionInfo;
+}
+
+/**
+ * Finds the link starting at `from` in the snapshot, or null if there is none
+ * or it is a reference link without a definition.
+ */
+export function findLinkEditTarget(snapshot: MarkdownLinksSnapshot, from: number): LinkEditTarget | null {
+    const link = snapshot.links.find((candidate) => candidate.from === from);
+    if (!link) {
+        return null;
+    }
+    if (!link.referenceLabel) {
+        return { link };
+    }
+
+    const label = normalizeReferenceLabel(link.referenceLabel);
+    const definition = snapshot.definitions.find((candidate) => normalizeReferenceLabel(candidate.label) === label);
+    return definition ? { link, definition } : null;
+}
+
+function unescapeMarkdown(value: string): string {
+    return value.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+/**
+ * Returns the dialog fields for a link: text without backslash escapes, URL
+ * without `<>`, and the title from the link's (or definition's) title token.
+ */
+export function getLinkEditFields({ link, definition }: LinkEditTarget): LinkEditFields {
+    const destination = definition?.destination ?? link.destination ?? '';
+    const titleToken = definition ? definition.linkTitleToken : link.linkTitleToken;
+    return {
+        text: unescapeMarkdown(link.text).trim(),
+        url: destination.replace(/^<(.*)>$/s, '$1'),
+        title: titleToken ? parseTitleAttributeToken(titleToken).trim() : '',
+    };
+}
+
+/**
+ * Escapes link text for use between the brackets. Brackets are escaped too,
+ * since an unbalanced one would end the link early.
+ * @example formatEditedLinkText('[draft] notes') // => "\\[draft\\] notes"
+ */
+export function formatEditedLinkText(text: string): string {
+    return escapeMarkdownLinkText(text).replace(/[[\]]/g, '\\$&');
+}
+
+/**
+ * Formats a URL as a link destination. URLs with spaces or angle brackets are
+ * wrapped in `<>`; others only get unbalanced parentheses encoded.
+ * @example formatEditedDestination('file:///C:/My Docs/a.txt') // => "<file:///C:/My Docs/a.txt>"
+ */
+export function formatEditedDestination(url: string): string {
+    return /[\s<>]/.test(url) ? `<${url.replace(/[<>]/g, '\\$&')}>` : formatLinkDestination(url);
+}
+
+function formatTitlePart(existingToken: string | undefined, initialTitle: string, title: string): string {
+    const token =
+        title === initialTitle ? existingToken : title ? buildTitleAttributeToken(existingToken ?? '""', title) : '';
+    return token ? ` ${token}` : '';
+}
+
+/**
+ * Builds the replacements that apply the edited fields, or an empty list if
+ * nothing changed. Unchanged fields keep their original markdown, so opening
+ * and saving the dialog never rewrites a link. A reference link's URL and
+ * title are changed in its definition; a shortcut or collapsed link gets an
+ * explicit label when its text changes, so it keeps pointing at the same
+ * definition.
+ */
+export function buildLinkEditReplacements(target: LinkEditTarget, edited: LinkEditFields): TextReplacement[] {
+    const { link, definition } = target;
+    const initial = getLinkEditFields(target);
+    const prefix = link.isImage ? '![' : '[';
+    const textChanged = edited.text !== initial.text;
+    const targetChanged = edited.url !== initial.url || edited.title !== initial.title;
+    const text = textChanged ? formatEditedLinkText(edited.text) : link.text;
+    const destination = edited.url === initial.url ? undefined : formatEditedDestination(edited.url);
+
+    const replacements: TextReplacement[] = [];
+    const addReplacement = (range: MarkdownLinkInfo | ReferenceDefinitionInfo, newText: string) => {
+        if (newText !== range.expectedText) {
+            replacements.push({ from: range.from, to: range.to, text: newText, expectedText: range.expectedText });
+        }
+    };
+
+    if (definition) {
+        if (textChanged) {
+            // `[text]`, `[text][]` or `[text][label]`: keep whatever follows the text
+            const labelPart = link.expectedText.slice(prefix.length + link.text.length + 1);
+            addReplacement(
+                link,
+                `${prefix}${text}]${labelPart === '' || labelPart === '[]' ? definition.label : labelPart}`
+            );
+        }
+        if (targetChanged) {
+            const lineBreak = definition.expectedText.endsWith('\n') ? '\n' : '';
+            const titlePart = formatTitlePart(definition.linkTitleToken, initial.title, edited.title);
+            addReplacement(
+                definition,
+                `${definition.label}: ${destination ?? definition.destination}${titlePart}${lineBreak}`
+            );
+        }
+    } else if (textChanged || targetChanged) {
+        const titlePart = formatTitlePart(link.linkTitleToken, initial.title, edited.title);
+        addReplacement(link, `${prefix}${text}](${destination ?? link.destination ?? ''}${titlePart})`);
+    }
+
+    return replacements;
+}
+
+/**
+ * Reads the edit dialog form (`text`, `url` and `title` fields). Missing
+ * fields read as empty.
+ */
+export function parseLinkEditForm(formData: Record<string, string> | undefined): LinkEditFields {
+    const read = (name: string) => (formData?.[name] ?? '').replace(/[\r\n]+/g, ' ').trim();
+    return { text: read('text'), url: read('url'), title: read('title') };
+}
@@ -0,0 +1,161 @@
+import type { MarkdownLinkInfo, MarkdownLinksSnapshot, ReferenceDefinitionInfo, TextReplacement } from '../types';
+import {
+    convertToInlineLinks,
+    convertToReferenceLinks,
+    normalizeReferenceLabel,
+    parseReferenceLabelStyle,
+} from './linkStyleConversion';
+
+/** Applies replacements the way the editor's batch replace does (positions refer to the original text). */
+function apply(text: string, replacements: TextReplacement[]): string {
+    return [...replacements]
+        .sort((a, b) => b.from - a.from || b.to - a.to)
+        .reduce((result, r) => result.slice(0, r.from) + r.text + result.slice(r.to), text);
+}
+
+/** Builds a snapshot from a small document with a simplified link scanner. */
+function snapshotOf(doc: string, ranges?: Array<{ from: number; to: number }>): MarkdownLinksSnapshot {
+    const links: MarkdownLinkInfo[] = [];
+    for (const match of doc.matchAll(/(!?)\[([^\]]*)\](?:\(([^ )]+)(?: ("[^"]*"))?\)|\[([^\]]*)\])?(?!:)/g)) {
+        const [source, bang, text, destination, linkTitleToken, label] = match;
+        const from = match.index ?? 0;
+        links.push({
+            from,
+            to: from + source.length,
+            text,
+            ...(destination ? { destination } : { referenceLabel: label ? `[${label}]` : `[${text}]` }),
+            ...(linkTitleToken ? { linkTitleToken } : {}),
+            ...(bang ? { isImage: true } : {}),
+            expectedText: source,
+        });
+    }
+
+    const definitions: ReferenceDefinitionInfo[] = [];
+    for (const match of doc.matchAll(/^(\[[^\]]+\]): (\S+)(?: ("[^"]*"))?\n?/gm)) {
+        const [source, label, destination, linkTitleToken] = match;
+        const from = match.index ?? 0;
+        definitions.push({
+            from,
+            to: from + source.length,
+            label,
+            destination,
+            ...(linkTitleToken ? { linkTitleToken } : {}),
+            expectedText: source,
+        });
+    }
+
+    const trimmed = doc.trimEnd();
+    return {
+        links: links.filter((link) => !definitions.some((d) => link.from >= d.from && link.to <= d.to)),
+        definitions,
+        ranges: ranges ?? [{ from: 0, to: doc.length }],
+        docLength: doc.length,
+        trailingLineBreaks: doc.slice(-2).replace(/[^\n]/g, '').length,
+        endsWithDefinition: definitions.some((d) => d.from + d.expectedText.trimEnd().length === trimmed.length),
+    };
+}
+
+describe('normalizeReferenceLabel', () => {
+    it('ignores brackets, case and repeated whitespace', () => {
+        expect(normalizeReferenceLabel('[Foo  Bar ]')).toBe('foo bar');
+    });
+});
+
+describe('parseReferenceLabelStyle', () => {
+    it('accepts the known styles and falls back to numeric labels', () => {
+        expect(parseReferenceLabelStyle('text')).toBe('text');
+        expect(parseReferenceLabelStyle('numeric')).toBe('numeric');
+        expect(parseReferenceLabelStyle('')).toBe('numeric');
+        expect(parseReferenceLabelStyle('Text')).toBe('numeric');
+    });
+});
+
+describe('convertToReferenceLinks', () => {
+    it('moves destinations into numbered definitions at the end of the note, one per destination', () => {
+        const doc =
+            'See [A](https://a.example "Title"), [B](https://b.example) and [A again](https://a.example "Title").\n';
+        const conversion = convertToReferenceLinks(snapshotOf(doc), 'numeric');
+
+        expect(conversion.convertedCount).toBe(3);
+        expect(apply(doc, conversion.replacements)).toBe(
+            [
+                'See [A][1], [B][2] and [A again][1].',
+                '',
+                '[1]: https://a.example "Title"',
+                '[2]: https://b.example',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('reuses existing definitions and skips taken numbers', () => {
+        const doc = '[A](https://a.example) [B](https://b.example)\n\n[1]: https://a.example\n[x]: https://x.example';
+        const conversion = convertToReferenceLinks(snapshotOf(doc), 'numeric');
+
+        expect(apply(doc, conversion.replacements)).toBe(
+            '[A][1] [B][2]\n\n[1]: https://a.example\n[x]: https://x.example\n[2]: https://b.example'
+        );
+    });
+
+    it('generates unique labels from the link text', () => {
+        const doc = '[Project Plan](https://a.example) [project plan](https://b.example) [!!](https://c.example)';
+        const conversion = convertToReferenceLinks(snapshotOf(doc), 'text');
+
+        expect(apply(doc, conversion.replacements)).toBe(
+            [
+                '[Project Plan][project-plan] [project plan][project-plan-2] [!!][1]',
+                '',
+                '[project-plan]: https://a.example',
+                '[project-plan-2]: https://b.example',
+                '[1]: https://c.example',
+            ].join('\n')
+        );
+    });
+
+    it('only converts links in the ranges and leaves images alone', () => {
+        const doc = '[A](https://a.example) ![img](https://i.example) [B](https://b.example)';
+        const conversion = convertToReferenceLinks(snapshotOf(doc, [{ from: 0, to: 5 }]), 'numeric');
+
+        expect(apply(doc, conversion.replacements)).toBe(
+            '[A][1] ![img](https://i.example) [B](https://b.example)\n\n[1]: https://a.example'
+        );
+    });
+
+    it('does nothing without inline links', () => {
+        expect(convertToReferenceLinks(snapshotOf('[A][1]\n\n[1]: https://a.example'), 'numeric')).toEqual({
+            replacements: [],
+            convertedCount: 0,
+            removedDefinitionCount: 0,
+        });
+    });
+});
+
+describe('convertToInlineLinks', () => {
+    it('inlines reference links and removes their definitions', () => {
+        const doc = 'See [A][a], [b][] and [b].\n\n[a]: https://a.example "Title"\n[B]: https://b.example\n';
+        const conversion = convertToInlineLinks(snapshotOf(doc));
+
+        expect(conversion).toMatchObject({ convertedCount: 3, removedDefinitionCount: 2 });
+        expect(apply(doc, conversion.replacements)).toBe(
+            'See [A](https://a.example "Title"), [b](https://b.example) and [b](https://b.example).\n\n'
+        );
+    });
+
+    it('keeps definitions still used outside the ranges, and by images', () => {
+        const doc =
+            '[A][a] [A][a] ![img][i] [B][b]\n\n[a]: https://a.example\n[i]: https://i.example\n[b]: https://b.example\n';
+        const conversion = convertToInlineLinks(snapshotOf(doc, [{ from: 0, to: 6 }]));
+
+        expect(apply(doc, conversion.replacements)).toBe(
+            '[A](https://a.example) [A][a] ![img][i] [B][b]\n\n[a]: https://a.example\n[i]: https://i.example\n[b]: https://b.example\n'
+        );
+    });
+
+    it('removes unused definitions in the ranges and leaves links without a definition alone', () => {
+        const doc = '[A][missing] [B][b]\n\n[b]: https://b.example\n[old]: https://old.example\n';
+        const conversion = convertToInlineLinks(snapshotOf(doc));
+
+        expect(conversion).toMatchObject({ convertedCount: 1, removedDefinitionCount: 2 });
+        expect(apply(doc, conversion.replacements)).toBe('[A][missing] [B](https://b.example)\n\n');
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * Plans the edits for converting markdown links between inline
+ * (`[text](url "title")`) and reference (`[text][1]` + `[1]: url "title"`)
+ * style, from the links and definitions the editor collected.
+ */
+
+import type { MarkdownLinkInfo, MarkdownLinksSnapshot, ReferenceDefinitionInfo, TextReplacement } from '../types';
+
+/** How labels of new reference definitions are made: `[1]`, or from the link text (`[github-repo]`) */
+export type ReferenceLabelStyle = 'numeric' | 'text';
+
+const REFERENCE_LABEL_STYLES: readonly ReferenceLabelStyle[] = ['numeric', 'text'];
+
+/** Longest label generated from link text, in characters */
+const MAX_TEXT_LABEL_LENGTH = 40;
+
+export interface LinkStyleConversion {
+    replacements: TextReplacement[];
+    /** Number of links rewritten */
+    convertedCount: number;
+    /** Number of reference definitions removed (inline conversion only) */
+    removedDefinitionCount: number;
+}
+
+/**
+ * Returns the form labels are matched by: without brackets, whitespace
+ * collapsed and case ignored, as in CommonMark.
+ * @example normalizeReferenceLabel('[Foo  Bar]') // => "foo bar"
+ */
+export function normalizeReferenceLabel(label: string): string {
+    return label
+        .replace(/^\[|\]$/g, '')
+        .trim()
+        .replace(/\s+/g, ' ')
+        .toLowerCase();
+}
+
+function isInRanges(item: { from: number; to: number }, ranges: MarkdownLinksSnapshot['ranges']): boolean {
+    return ranges.some((range) => item.from < range.to && item.to > range.from);
+}
+
+function formatDestination(destination: string, linkTitleToken?: string): string {
+    return linkTitleToken ? `${destination} ${linkTitleToken}` : destination;
+}
+
+/**
+ * Returns the first definition of each label (later duplicates are ignored, as
+ * in CommonMark).
+ */
+function getDefinitionsByLabel(definitions: ReferenceDefinitionInfo[]): Map<string, ReferenceDefinitionInfo> {
+    const byLabel = new Map<string, ReferenceDefinitionInfo>();
+    for (const definition of definitions) {
+        const label = normalizeReferenceLabel(definition.label);
+        if (!byLabel.has(label)) {
+            byLabel.set(label, definition);
+        }
+    }
+    return byLabel;
+}
+
+/**
+ * Creates labels for new definitions that don't clash with existing ones.
+ */
+function createLabelGenerator(style: ReferenceLabelStyle, usedLabels: Set<string>): (text: string) => string {
+    let nextNumber = 1;
+
+    const take = (label: string) => {
+        usedLabels.add(label);
+        return `[${label}]`;
+    };
+    const nextNumericLabel = () => {
+        while (usedLabels.has(String(nextNumber))) {
+            nextNumber++;
+        }
+        return take(String(nextNumber));
+    };
+
+    return (text) => {
+        const base = text
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]+/gu, '-')
+            .slice(0, MAX_TEXT_LABEL_LENGTH)
+            .replace(/^-+|-+$/g, '');
+        if (style === 'numeric' || !base) {
+            return nextNumericLabel();
+        }
+
+        let label = base;
+        for (let suffix = 2; usedLabels.has(label); suffix++) {
+            label = `${base}-${suffix}`;
+        }
+        return take(label);
+    };
+}
+
+function isReferenceLabelStyle(value: string): value is ReferenceLabelStyle {
+    return (REFERENCE_LABEL_STYLES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the `referenceLinkLabels` setting; unknown values fall back to `numeric`.
+ */
+export function parseReferenceLabelStyle(value: string): ReferenceLabelStyle {
+    return isReferenceLabelStyle(value) ? value : 'numeric';
+}
+
+/**
+ * Turns the inline links in the snapshot's ranges into reference links, with
+ * the new definitions appended at the end of the note. Links with the same
+ * destination and title share a definition, including one the note already has.
+ */
+export function convertToReferenceLinks(
+    snapshot: MarkdownLinksSnapshot,
+    labelStyle: ReferenceLabelStyle
+): LinkStyleConversion {
+    const links = snapshot.links.filter(
+        (link) => link.destination !== undefined && !link.isImage && isInRanges(link, snapshot.ranges)
+    );
+
+    const labelsByTarget = new Map<string, string>();
+    for (const definition of getDefinitionsByLabel(snapshot.definitions).values()) {
+        const target = formatDestination(definition.destination, definition.linkTitleToken);
+        if (!labelsByTarget.has(target)) {
+            labelsByTarget.set(target, definition.label);
+        }
+    }
+
+    const createLabel = createLabelGenerator(
+        labelStyle,
+        new Set(snapshot.definitions.map((definition) => normalizeReferenceLabel(definition.label)))
+    );
+    const newDefinitions: string[] = [];
+    const replacements: TextReplacement[] = links.map((link) => {
+        const target = formatDestination(link.destination ?? '', link.linkTitleToken);
+        let label = labelsByTarget.get(target);
+        if (!label) {
+            label = createLabel(link.text);
+            labelsByTarget.set(target, label);
+            newDefinitions.push(`${label}: ${target}`);
+        }
+        return { from: link.from, to: link.to, text: `[${link.text}]${label}`, expectedText: link.expectedText };
+    });
+
+    if (newDefinitions.length > 0) {
+        // Keep a blank line before the definitions, unless they continue a definition block
+        const wantedLineBreaks = snapshot.docLength === 0 ? 0 : snapshot.endsWithDefinition ? 1 : 2;
+        const prefix = '\n'.repeat(Math.max(0, wantedLineBreaks - snapshot.trailingLineBreaks));
+        const suffix = snapshot.trailingLineBreaks > 0 ? '\n' : '';
+        replacements.push({
+            from: snapshot.docLength,
+            to: snapshot.docLength,
+            text: `${prefix}${newDefinitions.join('\n')}${suffix}`,
+            expectedText: '',
+        });
+    }
+
+    return { replacements, convertedCount: links.length, removedDefinitionCount: 0 };
+}
+
+/**
+ * Turns the reference links in the snapshot's ranges into inline links, then
+ * removes the definitions no link uses anymore: those the converted links used,
+ * and unused ones inside the ranges. Reference links without a definition are
+ * left alone.
+ */
+export function convertToInlineLinks(snapshot: MarkdownLinksSnapshot): LinkStyleConversion {
+    const definitionsByLabel = getDefinitionsByLabel(snapshot.definitions);
+    const getDefinition = (link: MarkdownLinkInfo) =>
+        link.referenceLabel ? definitionsByLabel.get(normalizeReferenceLabel(link.referenceLabel)) : undefined;
+
+    const converted = new Set(
+        snapshot.links.filter((link) => !link.isImage && getDefinition(link) && isInRanges(link, snapshot.ranges))
+    );
+    const replacements: TextReplacement[] = [...converted].map((link) => {
+        const definition = getDefinition(link) as ReferenceDefinitionInfo;
+        return {
+            from: link.from,
+            to: link.to,
+            text: `[${link.text}](${formatDestination(definition.destination, definition.linkTitleToken)})`,
+            expectedText: link.expectedText,
+        };
+    });
+
+    const labelsInUse = new Set<string>();
+    const freedLabels = new Set<string>();
+    for (const link of snapshot.links) {
+        if (link.referenceLabel) {
+            (converted.has(link) ? freedLabels : labelsInUse).add(normalizeReferenceLabel(link.referenceLabel));
+        }
+    }
+
+    let removedDefinitionCount = 0;
+    for (const definition of snapshot.definitions) {
+        const label = normalizeReferenceLabel(definition.label);
+        if (!labelsInUse.has(label) && (freedLabels.has(label) || isInRanges(definition, snapshot.ranges))) {
+            replacements.push({
+                from: definition.from,
+                to: definition.to,
+                text: '',
+                expectedText: definition.expectedText,
+            });
+            removedDefinitionCount++;
+        }
+    }
+
+    return { replacements, convertedCount: converted.size, removedDefinitionCount };
+}
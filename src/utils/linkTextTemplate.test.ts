@@ -0,0 +1,78 @@
+import {
+    formatLinkText,
+    parseLinkTextTemplateOverrides,
+    renderLinkTextTemplate,
+    selectLinkTextTemplate,
+} from './linkTextTemplate';
+
+const NOW = new Date(2024, 2, 5, 12, 0, 0);
+const URL_ = 'https://www.example.com/docs/getting%20started?tab=1';
+const RESULT = { title: 'Getting Started', isFallback: false, provider: 'direct' as const };
+
+describe('linkTextTemplate', () => {
+    describe('renderLinkTextTemplate', () => {
+        it('fills in every placeholder', () => {
+            expect(renderLinkTextTemplate('{title} | {domain} | {path} | {date} | {provider}', RESULT, URL_, NOW)).toBe(
+                'Getting Started | example.com | /docs/getting started | 2024-03-05 | Page'
+            );
+        });
+
+        it('leaves unknown placeholders as written', () => {
+            expect(renderLinkTextTemplate('{title} {author}', RESULT, URL_, NOW)).toBe('Getting Started {author}');
+        });
+    });
+
+    describe('selectLinkTextTemplate', () => {
+        const overrides = parseLinkTextTemplateOverrides(
+            JSON.stringify([
+                { pattern: '^https://github\\.com/', template: '{title} (GitHub)' },
+                { pattern: 'EXAMPLE\\.com', template: '{title} — {date}', flags: 'i' },
+            ])
+        );
+
+        it('uses the first matching override', () => {
+            expect(selectLinkTextTemplate(URL_, '{title}', overrides)).toBe('{title} — {date}');
+            expect(selectLinkTextTemplate('https://github.com/a/b', '{title}', overrides)).toBe('{title} (GitHub)');
+        });
+
+        it('falls back to the default template, or {title} when that is blank', () => {
+            expect(selectLinkTextTemplate('https://other.org', '{title} ({domain})', overrides)).toBe(
+                '{title} ({domain})'
+            );
+            expect(selectLinkTextTemplate('https://other.org', '  ', overrides)).toBe('{title}');
+        });
+    });
+
+    describe('parseLinkTextTemplateOverrides', () => {
+        it('skips invalid entries and tolerates invalid JSON', () => {
+            expect(
+                parseLinkTextTemplateOverrides(
+                    JSON.stringify([{ pattern: '(', template: 'x' }, { pattern: 'a' }, { pattern: 'b', template: 'y' }])
+                ).map((rule) => rule.template)
+            ).toEqual(['y']);
+            expect(parseLinkTextTemplateOverrides('not json')).toEqual([]);
+        });
+    });
+
+    describe('formatLinkText', () => {
+        it('renders the configured template', () => {
+            expect(formatLinkText(RESULT, URL_, { linkTextTemplate: '{title} ({domain})' }, NOW)).toBe(
+                'Getting Started (example.com)'
+            );
+        });
+
+        it('keeps domain fallbacks as they are', () => {
+            expect(
+                formatLinkText({ title: 'example.com', isFallback: true }, URL_, {
+                    linkTextTemplate: '{title} ({domain})',
+                })
+            ).toBe('example.com');
+        });
+
+        it('sanitizes brackets introduced by the template', () => {
+            expect(formatLinkText(RESULT, URL_, { linkTextTemplate: '[{domain}] {title}' }, NOW)).toBe(
+                'example.com Getting Started'
+            );
+        });
+    });
+});
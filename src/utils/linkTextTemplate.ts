@@ -0,0 +1,121 @@
+/**
+ * Link text templates for fetched titles.
+ *
+ * The text written between the brackets of a fetched link is rendered from a
+ * template such as `{title} ({domain})`. A JSON list of per-domain overrides,
+ * matched against the URL the same way as custom link title rules, can pick a
+ * different template for specific sites.
+ */
+
+import type { LinkTitleResult } from './linkTitleUtils';
+import { extractDomain, getLinkTitleProviderLabel, sanitizeLinkTitle } from './linkTitleUtils';
+import { CompiledPatternRule, compilePatternRules, matchPatternRule } from './patternRules';
+
+/** Template used when the setting is blank. */
+const DEFAULT_LINK_TEXT_TEMPLATE = '{title}';
+
+type LinkTextPlaceholder = 'title' | 'domain' | 'path' | 'date' | 'provider';
+
+export interface LinkTextTemplateOptions {
+    /** Default template for every fetched title. */
+    linkTextTemplate?: string;
+    /** Raw JSON array of `{pattern, template, flags?}` per-site overrides. */
+    linkTextTemplateOverrides?: string;
+}
+
+/** Single-entry memo so override warnings are logged once per setting value, not per link. */
+let overridesCache: { raw: string; compiled: CompiledPatternRule<'template'>[] } | null = null;
+
+/**
+ * Parses the per-site template overrides setting (memoized). Invalid JSON or
+ * invalid entries are logged and skipped.
+ */
+export function parseLinkTextTemplateOverrides(json: string): CompiledPatternRule<'template'>[] {
+    if (overridesCache && overridesCache.raw === json) {
+        return overridesCache.compiled;
+    }
+
+    const compiled = compilePatternRules(json, 'template', 'link text template override');
+    overridesCache = { raw: json, compiled };
+    return compiled;
+}
+
+/**
+ * Returns the template of the first override whose pattern matches the URL,
+ * or the default template.
+ */
+export function selectLinkTextTemplate(
+    url: string,
+    defaultTemplate: string,
+    overrides: CompiledPatternRule<'template'>[]
+): string {
+    const override = overrides.find((rule) => matchPatternRule(rule, url));
+    return (override?.template ?? defaultTemplate).trim() || DEFAULT_LINK_TEXT_TEMPLATE;
+}
+
+function getUrlPath(url: string): string {
+    try {
+        const { pathname } = new URL(url);
+        try {
+            return decodeURIComponent(pathname);
+        } catch {
+            return pathname;
+        }
+    } catch {
+        return '';
+    }
+}
+
+/** Local calendar date as YYYY-MM-DD. */
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Renders a template. Supported placeholders: `{title}`, `{domain}`, `{path}`
+ * (decoded URL path), `{date}` (today, YYYY-MM-DD), and `{provider}` (the
+ * title provider's label). Unknown placeholders are left as written.
+ */
+export function renderLinkTextTemplate(
+    template: string,
+    result: LinkTitleResult,
+    url: string,
+    now: Date = new Date()
+): string {
+    const values: Record<LinkTextPlaceholder, () => string> = {
+        title: () => result.title,
+        domain: () => extractDomain(url),
+        path: () => getUrlPath(url),
+        date: () => formatDate(now),
+        provider: () => getLinkTitleProviderLabel(result.isFallback ? undefined : result.provider),
+    };
+
+    return template.replace(/\{(title|domain|path|date|provider)\}/g, (_match, name: LinkTextPlaceholder) =>
+        values[name]()
+    );
+}
+
+/**
+ * Builds the link text for a fetched title using the configured template and
+ * per-site overrides. Domain fallbacks are used as-is: a template like
+ * `{title} ({domain})` would only repeat the domain.
+ */
+export function formatLinkText(
+    result: LinkTitleResult,
+    url: string,
+    options: LinkTextTemplateOptions = {},
+    now: Date = new Date()
+): string {
+    if (result.isFallback) {
+        return result.title;
+    }
+
+    const template = selectLinkTextTemplate(
+        url,
+        options.linkTextTemplate ?? DEFAULT_LINK_TEXT_TEMPLATE,
+        parseLinkTextTemplateOverrides(options.linkTextTemplateOverrides ?? '')
+    );
+
+    return sanitizeLinkTitle(renderLinkTextTemplate(template, result, url, now)) || result.title;
+}
@@ -0,0 +1,146 @@
+import {
+    createLinkTitleCacheStore,
+    createLinkTitleCacheTtl,
+    normalizeLinkTitleCacheKey,
+    parseLinkTitleCacheEntry,
+    pruneLinkTitleCacheEntries,
+    LinkTitleCacheEntry,
+} from './linkTitleCache';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TTL = { ttlMs: 24 * HOUR_MS, fallbackTtlMs: HOUR_MS };
+/** Settings hash the entries are stored under. */
+const KEY = '0badc0de';
+
+describe('linkTitleCache', () => {
+    describe('createLinkTitleCacheTtl', () => {
+        it('converts days and minutes to milliseconds', () => {
+            expect(createLinkTitleCacheTtl(2, 30)).toEqual({ ttlMs: 48 * HOUR_MS, fallbackTtlMs: HOUR_MS / 2 });
+        });
+
+        it('treats zero and invalid values as disabled', () => {
+            expect(createLinkTitleCacheTtl(0, Number.NaN)).toEqual({ ttlMs: 0, fallbackTtlMs: 0 });
+            expect(createLinkTitleCacheTtl(-1, 5)).toEqual({ ttlMs: 0, fallbackTtlMs: 5 * 60 * 1000 });
+        });
+    });
+
+    describe('normalizeLinkTitleCacheKey', () => {
+        it('lower-cases the host and drops default ports and fragments', () => {
+            expect(normalizeLinkTitleCacheKey('HTTPS://Example.com:443/Docs?a=1#intro')).toBe(
+                'https://example.com/Docs?a=1'
+            );
+        });
+
+        it('falls back to the trimmed text for unparseable URLs', () => {
+            expect(normalizeLinkTitleCacheKey('  not a url ')).toBe('not a url');
+        });
+    });
+
+    describe('createLinkTitleCacheStore', () => {
+        it('returns fresh entries under any equivalent URL spelling', () => {
+            let now = 1000;
+            const store = createLinkTitleCacheStore(new Map(), TTL, undefined, () => now);
+
+            store.set('https://example.com/docs', { title: 'Docs', isFallback: false }, KEY);
+            now += HOUR_MS * 2;
+
+            expect(store.get('https://EXAMPLE.com/docs#top', KEY)).toEqual({ title: 'Docs', isFallback: false });
+        });
+
+        it('keeps the canonical URL of cached titles', () => {
+            const store = createLinkTitleCacheStore(new Map(), TTL);
+            const result = { title: 'Docs', isFallback: false, canonicalUrl: 'https://example.com/docs' };
+
+            store.set('https://example.com/docs?utm_source=x', result, KEY);
+
+            expect(store.get('https://example.com/docs?utm_source=x', KEY)).toEqual(result);
+        });
+
+        it('expires fallbacks on their own, shorter lifetime', () => {
+            let now = 1000;
+            const store = createLinkTitleCacheStore(new Map(), TTL, undefined, () => now);
+
+            store.set('https://down.example.com', { title: 'down.example.com', isFallback: true }, KEY);
+            expect(store.get('https://down.example.com', KEY)).not.toBeNull();
+
+            now += HOUR_MS;
+            expect(store.get('https://down.example.com', KEY)).toBeNull();
+        });
+
+        it('does not store results whose lifetime is disabled', () => {
+            const entries = new Map<string, LinkTitleCacheEntry>();
+            const onChange = vi.fn();
+            const store = createLinkTitleCacheStore(entries, { ttlMs: HOUR_MS, fallbackTtlMs: 0 }, onChange);
+
+            store.set('https://down.example.com', { title: 'down.example.com', isFallback: true }, KEY);
+
+            expect(entries.size).toBe(0);
+            expect(onChange).not.toHaveBeenCalled();
+        });
+
+        it('remembers which provider produced a title', () => {
+            const store = createLinkTitleCacheStore(new Map(), TTL);
+
+            store.set('https://example.com', { title: 'Example', isFallback: false, provider: 'linkpreview' }, KEY);
+
+            expect(store.get('https://example.com', KEY)).toEqual({
+                title: 'Example',
+                isFallback: false,
+                provider: 'linkpreview',
+            });
+        });
+
+        it('misses entries fetched with other settings', () => {
+            const store = createLinkTitleCacheStore(new Map(), TTL);
+
+            store.set('https://example.com', { title: 'Example', isFallback: false }, KEY);
+
+            expect(store.get('https://example.com', 'other-settings')).toBeNull();
+        });
+
+        it('notifies on writes so the cache can be persisted', () => {
+            const onChange = vi.fn();
+            const store = createLinkTitleCacheStore(new Map(), TTL, onChange);
+
+            store.set('https://example.com', { title: 'Example', isFallback: false }, KEY);
+
+            expect(onChange).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('pruneLinkTitleCacheEntries', () => {
+        it('drops expired entries and keeps the most recent up to the limit', () => {
+            const now = 10 * HOUR_MS;
+            const entries = new Map<string, LinkTitleCacheEntry>([
+                ['a', { title: 'A', isFallback: false, fetchedAt: now - HOUR_MS }],
+                ['b', { title: 'B', isFallback: false, fetchedAt: now - 2 * HOUR_MS }],
+                ['c', { title: 'C', isFallback: false, fetchedAt: now - 3 * HOUR_MS }],
+                ['stale', { title: 'stale', isFallback: true, fetchedAt: now - 2 * HOUR_MS }],
+            ]);
+
+            const pruned = pruneLinkTitleCacheEntries(entries, TTL, now, 2);
+
+            expect([...pruned.keys()]).toEqual(['a', 'b']);
+        });
+    });
+
+    describe('parseLinkTitleCacheEntry', () => {
+        it('accepts well-formed entries', () => {
+            expect(parseLinkTitleCacheEntry({ title: 'T', isFallback: false, fetchedAt: 1, settingsKey: KEY })).toEqual(
+                {
+                    title: 'T',
+                    isFallback: false,
+                    fetchedAt: 1,
+                    settingsKey: KEY,
+                }
+            );
+        });
+
+        it('rejects malformed entries', () => {
+            expect(parseLinkTitleCacheEntry(null)).toBeNull();
+            expect(parseLinkTitleCacheEntry({ title: '', isFallback: false, fetchedAt: 1 })).toBeNull();
+            expect(parseLinkTitleCacheEntry({ title: 'T', isFallback: 'no', fetchedAt: 1 })).toBeNull();
+            expect(parseLinkTitleCacheEntry({ title: 'T', isFallback: false })).toBeNull();
+        });
+    });
+});
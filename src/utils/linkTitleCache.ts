@@ -0,0 +1,155 @@
+/**
+ * In-memory link title cache with separate lifetimes for fetched titles and
+ * domain fallbacks.
+ *
+ * Entries are keyed by a normalized form of the URL so trivially different
+ * spellings of the same page (host case, default port, `#fragment`) share one
+ * entry. Each entry records a hash of the settings it was fetched with, and
+ * lookups under other settings miss. The store itself is pure; loading and
+ * saving it to the plugin data directory lives in `linkTitleCacheStorage.ts`.
+ */
+
+import type { LinkTitleCacheStore, LinkTitleResult } from './linkTitleUtils';
+
+export interface LinkTitleCacheEntry {
+    title: string;
+    isFallback: boolean;
+    /** Provider that originally produced the title. */
+    provider?: LinkTitleResult['provider'];
+    /** Epoch milliseconds at which the title was fetched. */
+    fetchedAt: number;
+    /** The page's canonical URL, if the title came from the page. */
+    canonicalUrl?: string;
+    /** Hash of the settings the title was fetched with; entries without one are stale. */
+    settingsKey?: string;
+}
+
+export interface LinkTitleCacheTtl {
+    /** Lifetime of fetched titles; 0 disables caching them. */
+    ttlMs: number;
+    /** Lifetime of domain fallbacks; 0 disables caching them. */
+    fallbackTtlMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Converts the user-facing cache settings (days / minutes) into a {@link LinkTitleCacheTtl}.
+ * Negative or non-finite values are treated as 0 (disabled).
+ */
+export function createLinkTitleCacheTtl(ttlDays: number, fallbackTtlMinutes: number): LinkTitleCacheTtl {
+    const toMs = (value: number, unitMs: number) => (Number.isFinite(value) && value > 0 ? value * unitMs : 0);
+    return {
+        ttlMs: toMs(ttlDays, DAY_MS),
+        fallbackTtlMs: toMs(fallbackTtlMinutes, MINUTE_MS),
+    };
+}
+
+/**
+ * Normalizes a URL into a cache key: lower-cased scheme/host, default port and
+ * fragment removed. Unparseable URLs are keyed by their trimmed text.
+ * @example "HTTPS://Example.com:443/a?b=1#top" → "https://example.com/a?b=1"
+ */
+export function normalizeLinkTitleCacheKey(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        return parsed.href;
+    } catch {
+        return url.trim();
+    }
+}
+
+/**
+ * Determines whether a cache entry is still within the lifetime for its kind.
+ */
+function isLinkTitleCacheEntryFresh(entry: LinkTitleCacheEntry, ttl: LinkTitleCacheTtl, now: number): boolean {
+    const lifetime = entry.isFallback ? ttl.fallbackTtlMs : ttl.ttlMs;
+    return lifetime > 0 && now - entry.fetchedAt < lifetime;
+}
+
+/**
+ * Returns the fresh entries, keeping at most `maxEntries` of the most recently
+ * fetched ones. Used before persisting so the cache file can't grow unbounded.
+ */
+export function pruneLinkTitleCacheEntries(
+    entries: Map<string, LinkTitleCacheEntry>,
+    ttl: LinkTitleCacheTtl,
+    now: number,
+    maxEntries: number
+): Map<string, LinkTitleCacheEntry> {
+    const fresh = [...entries].filter(([, entry]) => isLinkTitleCacheEntryFresh(entry, ttl, now));
+    fresh.sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt);
+    return new Map(fresh.slice(0, Math.max(0, maxEntries)));
+}
+
+/**
+ * Validates a single deserialized entry, returning null for anything malformed.
+ */
+export function parseLinkTitleCacheEntry(value: unknown): LinkTitleCacheEntry | null {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+
+    const { title, isFallback, provider, fetchedAt, canonicalUrl, settingsKey } = value as Partial<LinkTitleCacheEntry>;
+    if (typeof title !== 'string' || !title || typeof isFallback !== 'boolean' || typeof fetchedAt !== 'number') {
+        return null;
+    }
+
+    return {
+        title,
+        isFallback,
+        ...(typeof provider === 'string' ? { provider } : {}),
+        fetchedAt,
+        ...(typeof canonicalUrl === 'string' ? { canonicalUrl } : {}),
+        ...(typeof settingsKey === 'string' ? { settingsKey } : {}),
+    };
+}
+
+/**
+ * Wraps an entry map as the {@link LinkTitleCacheStore} consumed by `fetchLinkTitle`.
+ *
+ * @param entries - Backing map, mutated in place by `set`
+ * @param ttl - Lifetimes used for both lookups and deciding what to store
+ * @param onChange - Called after an entry is written (used to mark the cache dirty)
+ * @param now - Clock, injectable for tests
+ */
+export function createLinkTitleCacheStore(
+    entries: Map<string, LinkTitleCacheEntry>,
+    ttl: LinkTitleCacheTtl,
+    onChange: () => void = () => {},
+    now: () => number = Date.now
+): LinkTitleCacheStore {
+    return {
+        get(url: string, settingsKey: string): LinkTitleResult | null {
+            const entry = entries.get(normalizeLinkTitleCacheKey(url));
+            if (!entry || entry.settingsKey !== settingsKey || !isLinkTitleCacheEntryFresh(entry, ttl, now())) {
+                return null;
+            }
+            return {
+                title: entry.title,
+                isFallback: entry.isFallback,
+                provider: entry.provider,
+                ...(entry.canonicalUrl ? { canonicalUrl: entry.canonicalUrl } : {}),
+            };
+        },
+
+        set(url: string, result: LinkTitleResult, settingsKey: string): void {
+            const lifetime = result.isFallback ? ttl.fallbackTtlMs : ttl.ttlMs;
+            if (lifetime <= 0) {
+                return;
+            }
+
+            entries.set(normalizeLinkTitleCacheKey(url), {
+                title: result.title,
+                isFallback: result.isFallback,
+                provider: result.provider,
+                fetchedAt: now(),
+                ...(result.canonicalUrl ? { canonicalUrl: result.canonicalUrl } : {}),
+                settingsKey,
+            });
+            onChange();
+        },
+    };
+}
@@ -0,0 +1,137 @@
+/**
+ * Loads and saves the link title cache as JSON in the plugin data directory.
+ *
+ * The cache file is read once per session and kept in memory; writes happen
+ * after each fetch batch (only when something changed) rather than per link.
+ */
+
+import joplin from 'api';
+import { logger } from '../logger';
+import type { LinkTitleCacheStore } from './linkTitleUtils';
+import {
+    LinkTitleCacheEntry,
+    LinkTitleCacheTtl,
+    createLinkTitleCacheStore,
+    parseLinkTitleCacheEntry,
+    pruneLinkTitleCacheEntries,
+} from './linkTitleCache';
+
+const CACHE_FILE_NAME = 'linkTitleCache.json';
+const CACHE_FILE_VERSION = 1;
+const MAX_CACHE_ENTRIES = 5000;
+
+/** Subset of fs-extra (provided by `joplin.require`) used here. */
+interface FsExtra {
+    pathExists(path: string): Promise<boolean>;
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+    remove(path: string): Promise<void>;
+}
+
+interface CacheFileContents {
+    version: number;
+    entries: Record<string, unknown>;
+}
+
+let entries: Map<string, LinkTitleCacheEntry> | null = null;
+let dirty = false;
+
+function getFs(): FsExtra {
+    return joplin.require('fs-extra') as FsExtra;
+}
+
+async function getCacheFilePath(): Promise<string> {
+    const dataDir = await joplin.plugins.dataDir();
+    return `${dataDir}/${CACHE_FILE_NAME}`;
+}
+
+async function readCacheFile(): Promise<Map<string, LinkTitleCacheEntry>> {
+    const loaded = new Map<string, LinkTitleCacheEntry>();
+    const fs = getFs();
+    const filePath = await getCacheFilePath();
+
+    if (!(await fs.pathExists(filePath))) {
+        return loaded;
+    }
+
+    try {
+        const contents = JSON.parse(await fs.readFile(filePath, 'utf8')) as Partial<CacheFileContents>;
+        if (contents?.version !== CACHE_FILE_VERSION || typeof contents.entries !== 'object' || !contents.entries) {
+            logger.warn('Ignoring link title cache file with unexpected format.');
+            return loaded;
+        }
+
+        for (const [key, value] of Object.entries(contents.entries)) {
+            const entry = parseLinkTitleCacheEntry(value);
+            if (entry) {
+                loaded.set(key, entry);
+            }
+        }
+    } catch (error) {
+        logger.warn('Failed to read link title cache; starting with an empty cache.', error);
+    }
+
+    return loaded;
+}
+
+async function getEntries(): Promise<Map<string, LinkTitleCacheEntry>> {
+    if (!entries) {
+        entries = await readCacheFile();
+        logger.debug(`Loaded ${entries.size} cached link titles`);
+    }
+    return entries;
+}
+
+/**
+ * Returns a cache store bound to the persistent entries, loading them from
+ * disk on first use.
+ */
+export async function openLinkTitleCache(ttl: LinkTitleCacheTtl): Promise<LinkTitleCacheStore> {
+    const cacheEntries = await getEntries();
+    return createLinkTitleCacheStore(cacheEntries, ttl, () => {
+        dirty = true;
+    });
+}
+
+/**
+ * Writes the cache to disk if it changed since the last save, dropping expired
+ * entries and capping its size. Failures are logged, never thrown, so a
+ * read-only data directory can't break title fetching.
+ */
+export async function saveLinkTitleCache(ttl: LinkTitleCacheTtl): Promise<void> {
+    if (!entries || !dirty) {
+        return;
+    }
+
+    entries = pruneLinkTitleCacheEntries(entries, ttl, Date.now(), MAX_CACHE_ENTRIES);
+    const contents: CacheFileContents = {
+        version: CACHE_FILE_VERSION,
+        entries: Object.fromEntries(entries),
+    };
+
+    try {
+        await getFs().writeFile(await getCacheFilePath(), JSON.stringify(contents), 'utf8');
+        dirty = false;
+        logger.debug(`Saved ${entries.size} cached link titles`);
+    } catch (error) {
+        logger.warn('Failed to save link title cache:', error);
+    }
+}
+
+/**
+ * Removes every cached title, in memory and on disk.
+ * @returns The number of entries that were cleared
+ */
+export async function clearLinkTitleCache(): Promise<number> {
+    const cleared = (await getEntries()).size;
+    entries = new Map();
+    dirty = false;
+
+    const fs = getFs();
+    const filePath = await getCacheFilePath();
+    if (await fs.pathExists(filePath)) {
+        await fs.remove(filePath);
+    }
+
+    return cleared;
+}
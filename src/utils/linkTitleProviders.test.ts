@@ -0,0 +1,257 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { fetchLinkTitle } from './linkTitleUtils';
+
+/**
+ * Local stand-in for the sites and oEmbed endpoints, so the providers are
+ * exercised against real HTTP responses.
+ */
+type Route = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+const routes = new Map<string, Route>();
+const requests: string[] = [];
+/** Authorization header of each request, by path. */
+const authorizations = new Map<string, string | undefined>();
+
+function html(body: string): Route {
+    return (_request, response) => {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(body);
+    };
+}
+
+function json(body: unknown, status = 200): Route {
+    return (_request, response) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    };
+}
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        requests.push(path);
+        authorizations.set(path, request.headers.authorization);
+        const route = routes.get(path);
+        if (route) {
+            route(request, response);
+        } else {
+            response.writeHead(404);
+            response.end();
+        }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    routes.clear();
+    requests.length = 0;
+    authorizations.clear();
+});
+
+describe('linkTitleProviders', () => {
+    describe('oembed', () => {
+        const VIDEO_PAGE = `<html><head>
+            <title>Talk - VideoSite</title>
+            <link rel="alternate" type="application/json+oembed" href="/oembed?url=video">
+        </head></html>`;
+
+        it('discovers the endpoint from the page and renders the title template', async () => {
+            routes.set('/video', html(VIDEO_PAGE));
+            routes.set(
+                '/oembed',
+                json({ type: 'video', title: 'Talk', author_name: 'Speaker', provider_name: 'VideoSite' })
+            );
+
+            const result = await fetchLinkTitle(`${baseUrl}/video`, {
+                linkTitleProviders: 'oembed, direct',
+                oembedTitleTemplate: '{title} - {author} ({site})',
+            });
+
+            expect(result).toEqual({ title: 'Talk - Speaker (VideoSite)', isFallback: false, provider: 'oembed' });
+        });
+
+        it('falls through to the direct provider without fetching the page twice', async () => {
+            routes.set('/article', html('<html><head><title>Plain Article</title></head></html>'));
+
+            const result = await fetchLinkTitle(`${baseUrl}/article`, { linkTitleProviders: 'oembed, direct' });
+
+            expect(result).toEqual({ title: 'Plain Article', isFallback: false, provider: 'direct' });
+            expect(requests).toEqual(['/article']);
+        });
+
+        it('lets the next provider run when the oEmbed endpoint fails', async () => {
+            routes.set('/video', html(VIDEO_PAGE));
+            routes.set('/oembed', json({ error: 'not found' }, 404));
+
+            const result = await fetchLinkTitle(`${baseUrl}/video`, { linkTitleProviders: 'oembed, direct' });
+
+            expect(result).toEqual({ title: 'Talk - VideoSite', isFallback: false, provider: 'direct' });
+            expect(requests).toEqual(['/video', '/oembed']);
+        });
+
+        it('fails when the oEmbed response has no title', async () => {
+            routes.set('/video', html(VIDEO_PAGE));
+            routes.set('/oembed', json({ type: 'photo', author_name: 'Speaker' }));
+
+            const result = await fetchLinkTitle(`${baseUrl}/video`, { linkTitleProviders: 'oembed' });
+
+            expect(result).toEqual({ title: '127.0.0.1', isFallback: true });
+        });
+    });
+
+    describe('direct', () => {
+        it('decodes legacy charsets declared in the page', async () => {
+            routes.set('/jp', (_request, response) => {
+                response.writeHead(200, { 'Content-Type': 'text/html' });
+                // "日本" in Shift_JIS
+                response.end(
+                    Buffer.concat([
+                        Buffer.from('<html><head><meta charset="Shift_JIS"><title>'),
+                        Buffer.from([0x93, 0xfa, 0x96, 0x7b]),
+                        Buffer.from('</title></head></html>'),
+                    ])
+                );
+            });
+
+            const result = await fetchLinkTitle(`${baseUrl}/jp`, { linkTitleProviders: 'direct' });
+
+            expect(result).toEqual({ title: '日本', isFallback: false, provider: 'direct' });
+        });
+
+        describe('per-site request headers', () => {
+            const headerRules = () =>
+                JSON.stringify([
+                    {
+                        pattern: `^${baseUrl}/private/`,
+                        headers: { Authorization: 'Bearer secret', Cookie: 'session=1', 'User-Agent': 'Wiki' },
+                    },
+                ]);
+
+            function redirect(location: string): Route {
+                return (_request, response) => {
+                    response.writeHead(302, { Location: location });
+                    response.end();
+                };
+            }
+
+            it('sends the headers to matching URLs only, across redirects', async () => {
+                routes.set('/private/start', redirect('/private/page'));
+                routes.set('/private/page', redirect('/public/page'));
+                routes.set('/public/page', html('<title>Public Page</title>'));
+
+                const result = await fetchLinkTitle(`${baseUrl}/private/start`, {
+                    linkTitleProviders: 'direct',
+                    linkTitleRequestHeaders: headerRules(),
+                });
+
+                expect(result).toEqual({ title: 'Public Page', isFallback: false, provider: 'direct' });
+                expect(requests).toEqual(['/private/start', '/private/page', '/public/page']);
+                expect(authorizations.get('/private/page')).toBe('Bearer secret');
+                expect(authorizations.get('/public/page')).toBeUndefined();
+            });
+
+            it('sends cookies and overrides the default User-Agent', async () => {
+                let received: IncomingMessage['headers'] = {};
+                routes.set('/private/wiki', (request, response) => {
+                    received = request.headers;
+                    html('<title>Wiki</title>')(request, response);
+                });
+
+                const result = await fetchLinkTitle(`${baseUrl}/private/wiki`, {
+                    linkTitleProviders: 'direct',
+                    linkTitleRequestHeaders: headerRules(),
+                });
+
+                expect(result).toEqual({ title: 'Wiki', isFallback: false, provider: 'direct' });
+                expect(received.cookie).toBe('session=1');
+                expect(received['user-agent']).toBe('Wiki');
+            });
+
+            it('reads compressed pages', async () => {
+                routes.set('/private/gzip', (_request, response) => {
+                    response.writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip' });
+                    response.end(gzipSync('<html><head><title>Zipped</title></head></html>'));
+                });
+
+                const result = await fetchLinkTitle(`${baseUrl}/private/gzip`, {
+                    linkTitleProviders: 'direct',
+                    linkTitleRequestHeaders: headerRules(),
+                });
+
+                expect(result).toEqual({ title: 'Zipped', isFallback: false, provider: 'direct' });
+            });
+
+            it('gives up on redirect loops', async () => {
+                routes.set('/private/loop', redirect('/private/loop'));
+
+                const result = await fetchLinkTitle(`${baseUrl}/private/loop`, {
+                    linkTitleProviders: 'direct',
+                    linkTitleRequestHeaders: headerRules(),
+                });
+
+                expect(result).toEqual({ title: '127.0.0.1', isFallback: true });
+                expect(requests).toHaveLength(6);
+            });
+
+            it('follows redirects of other URLs without the headers', async () => {
+                routes.set('/public/start', redirect('/public/page'));
+                routes.set('/public/page', html('<title>Public Page</title>'));
+
+                const result = await fetchLinkTitle(`${baseUrl}/public/start`, {
+                    linkTitleProviders: 'direct',
+                    linkTitleRequestHeaders: headerRules(),
+                });
+
+                expect(result).toEqual({ title: 'Public Page', isFallback: false, provider: 'direct' });
+                expect(requests).toEqual(['/public/start', '/public/page']);
+                expect(authorizations.get('/public/page')).toBeUndefined();
+            });
+        });
+
+        it('stops reading once the head is over', async () => {
+            // Never ends the response: the lookup only finishes if it stops reading early.
+            routes.set('/endless', (_request, response) => {
+                response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                response.write('<html><head><title>Big Page</title></head><body>');
+                response.write('x'.repeat(64 * 1024));
+            });
+
+            const result = await fetchLinkTitle(`${baseUrl}/endless`, { linkTitleProviders: 'direct' });
+
+            expect(result).toEqual({ title: 'Big Page', isFallback: false, provider: 'direct' });
+        });
+
+        it("returns the page's canonical URL with the title", async () => {
+            routes.set(
+                '/article',
+                html('<html><head><title>Article</title><link rel="canonical" href="/articles/1"></head></html>')
+            );
+
+            const result = await fetchLinkTitle(`${baseUrl}/article`, { linkTitleProviders: 'direct' });
+
+            expect(result).toEqual({
+                title: 'Article',
+                isFallback: false,
+                provider: 'direct',
+                canonicalUrl: `${baseUrl}/articles/1`,
+            });
+        });
+
+        it('uses the domain fallback for error responses', async () => {
+            const result = await fetchLinkTitle(`${baseUrl}/missing`, { linkTitleProviders: 'direct' });
+
+            expect(result).toEqual({ title: '127.0.0.1', isFallback: true });
+            expect(requests).toEqual(['/missing']);
+        });
+    });
+});
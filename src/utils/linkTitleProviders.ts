@@ -0,0 +1,291 @@
+/**
+ * Link title providers: interchangeable sources of a title for a URL.
+ *
+ * `fetchLinkTitle` runs the providers in the user-configured chain order until
+ * one succeeds. Each provider reports whether it produced a title, failed (so
+ * the next provider is tried), or skipped the URL (e.g. missing API key).
+ * Providers return raw titles; sanitizing is done once by the chain runner.
+ *
+ * This module holds the shared types and the network-backed providers. The
+ * custom-rules provider lives next to the rules in `linkTitleUtils.ts`; it only
+ * touches the network (via `loadPageFields`) for rules that reference page data.
+ */
+
+import { logger } from '../logger';
+import { findKnownOEmbedEndpoint, findOEmbedDiscoveryUrl, parseOEmbedResponse, renderOEmbedTitle } from './oembed';
+import {
+    extractCanonicalUrl,
+    extractOpenGraphFields,
+    extractPageTitleCandidates,
+    parsePageTitlePrecedence,
+    selectPageTitle,
+} from './pageMetadata';
+import { readPageHead } from './pageDecoding';
+import { parseRequestHeaderRules, selectRequestHeaders } from './requestHeaders';
+import { requestWithSiteHeaders, SiteHeaderRequestInit } from './siteHeaderRequest';
+
+const FETCH_TIMEOUT_MS = 5000;
+const LINK_PREVIEW_API_URL = 'https://api.linkpreview.net/';
+
+export type LinkTitleProviderId = 'rules' | 'linkpreview' | 'oembed' | 'direct';
+
+export type LinkTitleProviderOutcome =
+    | { status: 'success'; title: string; canonicalUrl?: string }
+    | { status: 'failure'; reason: string }
+    | { status: 'skip'; reason: string };
+
+/**
+ * Settings-derived inputs shared by all providers.
+ */
+export interface LinkTitleProviderSettings {
+    linkPreviewApiKey?: string;
+    /** Raw JSON string of custom link title rules. */
+    linkTitleRules?: string;
+    /** Comma-separated page title source precedence for direct fetches. */
+    pageTitleSources?: string;
+    /** Link text template for oEmbed titles ({title}, {author}, {site}). */
+    oembedTitleTemplate?: string;
+    /** Raw JSON of per-site request header rules; never used for linkpreview.net. */
+    linkTitleRequestHeaders?: string;
+}
+
+export interface FetchedPage {
+    ok: boolean;
+    status: number;
+    /** Decoded HTML up to the end of the page head; empty for error responses. */
+    html: string;
+}
+
+/**
+ * Everything a provider receives for one link. `loadPage` fetches the link's
+ * page at most once per link, so providers that both need the HTML (oEmbed
+ * discovery, direct fetch) share a single request.
+ */
+export interface LinkTitleProviderContext extends LinkTitleProviderSettings {
+    loadPage(url: string): Promise<FetchedPage>;
+}
+
+export interface LinkTitleProvider {
+    id: LinkTitleProviderId;
+    /** Short human-readable name, shown in the batch summary toast. */
+    label: string;
+    /** Network providers sit behind the title cache; offline ones always run. */
+    usesNetwork: boolean;
+    /**
+     * For offline providers that sometimes load the page (custom rules with
+     * page placeholders): whether this URL's lookup will, so it goes behind
+     * the cache like a network provider.
+     */
+    needsNetwork?(url: string, settings: LinkTitleProviderSettings): boolean;
+    resolve(url: string, context: LinkTitleProviderContext): Promise<LinkTitleProviderOutcome>;
+}
+
+async function fetchWithTimeout(input: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+        return await fetch(input, {
+            ...init,
+            signal: controller.signal,
+        });
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * Fetches a URL on the link's side (the page or an oEmbed endpoint). When a
+ * per-site header rule matches, the request goes through
+ * {@link requestWithSiteHeaders} instead of `fetch`, which can't send headers
+ * such as Cookie: redirects are followed hop by hop and each hop only gets
+ * the headers of a rule matching its own URL.
+ */
+export async function fetchWithSiteHeaders(
+    url: string,
+    init: SiteHeaderRequestInit,
+    requestHeaders = ''
+): Promise<Response> {
+    const rules = parseRequestHeaderRules(requestHeaders);
+    if (!selectRequestHeaders(url, rules)) {
+        return fetchWithTimeout(url, { ...init, redirect: 'follow' });
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        return await requestWithSiteHeaders(url, { ...init, signal: controller.signal }, (hopUrl) =>
+            selectRequestHeaders(hopUrl, rules)
+        );
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+async function fetchPage(url: string, requestHeaders?: string): Promise<FetchedPage> {
+    const response = await fetchWithSiteHeaders(url, { headers: { 'User-Agent': 'Mozilla/5.0' } }, requestHeaders);
+
+    return {
+        ok: response.ok,
+        status: response.status,
+        html: response.ok ? await readPageHead(response) : '',
+    };
+}
+
+/**
+ * Creates a memoized page loader for a single link lookup. Failed requests are
+ * memoized too, so a second provider doesn't retry an unreachable page.
+ * @param requestHeaders - Raw JSON of per-site request header rules
+ */
+export function createPageLoader(requestHeaders?: string): (url: string) => Promise<FetchedPage> {
+    const pages = new Map<string, Promise<FetchedPage>>();
+    return (url) => {
+        let page = pages.get(url);
+        if (!page) {
+            page = fetchPage(url, requestHeaders);
+            pages.set(url, page);
+        }
+        return page;
+    };
+}
+
+/**
+ * Page data available to custom link title rule templates.
+ */
+export interface PageFields {
+    /** Title chosen by the page title source precedence. */
+    pageTitle?: string;
+    /** OpenGraph properties keyed by name, e.g. `og:site_name`. */
+    openGraph: Record<string, string>;
+}
+
+/**
+ * Loads the link's page (through the shared per-link loader) and extracts the
+ * fields rules can reference.
+ * @returns The fields, or null if the page could not be fetched
+ */
+export async function loadPageFields(url: string, context: LinkTitleProviderContext): Promise<PageFields | null> {
+    try {
+        const page = await context.loadPage(url);
+        if (!page.ok) {
+            return null;
+        }
+
+        const doc = new DOMParser().parseFromString(page.html, 'text/html');
+        const selected = selectPageTitle(
+            extractPageTitleCandidates(doc),
+            parsePageTitlePrecedence(context.pageTitleSources ?? '')
+        );
+        return { pageTitle: selected?.title, openGraph: extractOpenGraphFields(doc) };
+    } catch (error) {
+        logger.debug(`Could not load page fields for ${url}:`, error);
+        return null;
+    }
+}
+
+/**
+ * linkpreview.net API. Skipped unless an API key is configured.
+ */
+export const linkPreviewProvider: LinkTitleProvider = {
+    id: 'linkpreview',
+    label: 'linkpreview.net',
+    usesNetwork: true,
+    async resolve(url, context) {
+        const apiKey = context.linkPreviewApiKey?.trim();
+        if (!apiKey) {
+            return { status: 'skip', reason: 'no API key configured' };
+        }
+
+        const response = await fetchWithTimeout(`${LINK_PREVIEW_API_URL}?q=${encodeURIComponent(url)}`, {
+            headers: {
+                'X-Linkpreview-Api-Key': apiKey,
+            },
+        });
+
+        if (!response.ok) {
+            return { status: 'failure', reason: `HTTP ${response.status}` };
+        }
+
+        const data = (await response.json()) as { title?: unknown } | null;
+        const rawTitle = typeof data?.title === 'string' ? data.title.trim() : '';
+
+        if (!rawTitle) {
+            return { status: 'failure', reason: 'no title in response' };
+        }
+
+        return { status: 'success', title: rawTitle };
+    },
+};
+
+/**
+ * oEmbed endpoint of well-known providers, or the one advertised by the page's
+ * discovery link. The title is rendered through the oEmbed link text template
+ * so it can include the author or provider name.
+ */
+export const oembedProvider: LinkTitleProvider = {
+    id: 'oembed',
+    label: 'oEmbed',
+    usesNetwork: true,
+    async resolve(url, context) {
+        let endpoint = findKnownOEmbedEndpoint(url);
+
+        if (!endpoint) {
+            const page = await context.loadPage(url);
+            if (!page.ok) {
+                return { status: 'failure', reason: `HTTP ${page.status}` };
+            }
+            endpoint = findOEmbedDiscoveryUrl(new DOMParser().parseFromString(page.html, 'text/html'), url);
+            if (!endpoint) {
+                return { status: 'skip', reason: 'no oEmbed endpoint' };
+            }
+        }
+
+        const response = await fetchWithSiteHeaders(
+            endpoint,
+            { headers: { Accept: 'application/json' } },
+            context.linkTitleRequestHeaders
+        );
+
+        if (!response.ok) {
+            return { status: 'failure', reason: `oEmbed HTTP ${response.status}` };
+        }
+
+        const data = parseOEmbedResponse(await response.json());
+        if (!data.title) {
+            return { status: 'failure', reason: 'no title in oEmbed response' };
+        }
+
+        return { status: 'success', title: renderOEmbedTitle(context.oembedTitleTemplate ?? '', data) };
+    },
+};
+
+/**
+ * Fetches the page itself and picks a title from its metadata according to
+ * the configured page title source precedence.
+ */
+export const directFetchProvider: LinkTitleProvider = {
+    id: 'direct',
+    label: 'Page',
+    usesNetwork: true,
+    async resolve(url, context) {
+        const page = await context.loadPage(url);
+
+        if (!page.ok) {
+            return { status: 'failure', reason: `HTTP ${page.status}` };
+        }
+
+        const doc = new DOMParser().parseFromString(page.html, 'text/html');
+        const selected = selectPageTitle(
+            extractPageTitleCandidates(doc),
+            parsePageTitlePrecedence(context.pageTitleSources ?? '')
+        );
+
+        if (!selected) {
+            return { status: 'failure', reason: 'no title in page' };
+        }
+
+        logger.debug(`Using page title from ${selected.source} for ${url}:`, selected.title);
+        const canonicalUrl = extractCanonicalUrl(doc, url);
+        return { status: 'success', title: selected.title, ...(canonicalUrl ? { canonicalUrl } : {}) };
+    },
+};
@@ -0,0 +1,44 @@
+import { LinkInfo, LinkType } from '../types';
+import { isStaleLinkText, parseLinkTitlePlaceholders } from './linkTitleRefresh';
+
+const link = (expectedText: string, url = 'https://www.example.com/page'): LinkInfo => ({
+    url,
+    type: LinkType.ExternalUrl,
+    from: 0,
+    to: url.length,
+    expectedText,
+});
+
+describe('parseLinkTitlePlaceholders', () => {
+    it('splits, trims and lower-cases the placeholders', () => {
+        expect(parseLinkTitlePlaceholders(' Untitled, link ,,')).toEqual(['untitled', 'link']);
+        expect(parseLinkTitlePlaceholders('')).toEqual([]);
+    });
+});
+
+describe('isStaleLinkText', () => {
+    it.each([
+        ['bare URL', 'https://www.example.com/page'],
+        ['autolink', '<https://www.example.com/page>'],
+        ['empty text', '[](https://www.example.com/page)'],
+        ['URL as text', '[https://www.example.com/page/](https://www.example.com/page)'],
+        ['domain fallback', '[example.com](https://www.example.com/page)'],
+        ['domain with www', '[WWW.Example.com](https://www.example.com/page "Old")'],
+        ['escaped domain', '[example\\.com][ref]'],
+        ['placeholder', '[ Untitled ](https://www.example.com/page)'],
+    ])('treats %s as stale', (_, expectedText) => {
+        expect(isStaleLinkText(link(expectedText), ['untitled'])).toBe(true);
+    });
+
+    it('treats note links titled with the ID fallback as stale', () => {
+        const url = ':/0123456789abcdef0123456789abcdef';
+        const noteLink = { ...link(`[0123456789ABCDEF0123456789abcdef](${url})`, url), type: LinkType.JoplinResource };
+        expect(isStaleLinkText(noteLink, [])).toBe(true);
+        expect(isStaleLinkText({ ...noteLink, expectedText: `[My Note](${url})` }, [])).toBe(false);
+    });
+
+    it('keeps links with a real title', () => {
+        expect(isStaleLinkText(link('[Example Page](https://www.example.com/page)'), ['untitled'])).toBe(false);
+        expect(isStaleLinkText(link('[Untitled](https://www.example.com/page)'), [])).toBe(false);
+    });
+});
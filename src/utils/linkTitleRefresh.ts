@@ -0,0 +1,38 @@
+/**
+ * Picks the links "Refresh Link Titles" should re-fetch: links whose text is
+ * still the URL, the domain fallback, or a user-defined placeholder, typically
+ * left behind when titles were fetched while offline.
+ */
+
+import { LinkInfo, LinkType } from '../types';
+import { getCurrentLinkText } from './linkTitleReview';
+import { extractDomain } from './linkTitleUtils';
+import { extractJoplinResourceId } from './urlUtils';
+
+/**
+ * Parses the comma-separated `staleLinkTitlePlaceholders` setting into
+ * lower-cased placeholder texts.
+ */
+export function parseLinkTitlePlaceholders(setting: string): string[] {
+    return setting
+        .split(',')
+        .map((placeholder) => placeholder.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+/**
+ * Whether a link's text is empty, its URL, its domain (with or without `www.`;
+ * the ID for note and resource links) or one of the placeholders. Comparisons ignore case, surrounding whitespace,
+ * markdown escapes and a trailing slash.
+ */
+export function isStaleLinkText(link: LinkInfo, placeholders: string[]): boolean {
+    const normalize = (text: string) => text.replace(/\\(.)/g, '$1').trim().replace(/\/$/, '').toLowerCase();
+    const text = normalize(getCurrentLinkText(link));
+    if (!text) {
+        return true;
+    }
+
+    const domain = link.type === LinkType.JoplinResource ? extractJoplinResourceId(link.url) : extractDomain(link.url);
+    const staleTexts = [link.url, domain, `www.${domain}`].map(normalize);
+    return staleTexts.includes(text) || placeholders.includes(text);
+}
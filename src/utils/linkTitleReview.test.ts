@@ -0,0 +1,62 @@
+import { LinkType } from '../types';
+import { getCurrentLinkText, parseLinkTitleReviewForm, shouldReviewLinkTitles } from './linkTitleReview';
+
+describe('linkTitleReview', () => {
+    describe('shouldReviewLinkTitles', () => {
+        it('follows the review mode', () => {
+            expect(shouldReviewLinkTitles('always', 10, 1)).toBe(true);
+            expect(shouldReviewLinkTitles('never', 10, 50)).toBe(false);
+            expect(shouldReviewLinkTitles('threshold', 10, 10)).toBe(false);
+            expect(shouldReviewLinkTitles('threshold', 10, 11)).toBe(true);
+        });
+
+        it('treats unknown modes as never', () => {
+            expect(shouldReviewLinkTitles('sometimes', 0, 5)).toBe(false);
+        });
+    });
+
+    describe('getCurrentLinkText', () => {
+        const link = { url: 'https://example.com', type: LinkType.ExternalUrl, from: 0, to: 19 };
+
+        it.each([
+            ['[Old \\] text](https://example.com "t")', 'Old \\] text'],
+            ['[Ref text][ref]', 'Ref text'],
+            ['<https://example.com>', 'https://example.com'],
+            ['https://example.com', 'https://example.com'],
+        ])('reads %j', (expectedText, text) => {
+            expect(getCurrentLinkText({ ...link, expectedText })).toBe(text);
+        });
+
+        it('falls back to the URL without expected text', () => {
+            expect(getCurrentLinkText(link)).toBe('https://example.com');
+        });
+    });
+
+    describe('parseLinkTitleReviewForm', () => {
+        it('accepts checked items with non-empty text, sanitizing edits', () => {
+            expect(
+                parseLinkTitleReviewForm(
+                    {
+                        accept0: 'on',
+                        text0: 'Title',
+                        text1: 'Unchecked',
+                        accept2: 'on',
+                        text2: '  [Edited]\n text ',
+                        accept3: 'on',
+                        text3: ' ',
+                    },
+                    4
+                )
+            ).toEqual([
+                { accepted: true, text: 'Title' },
+                { accepted: false, text: 'Unchecked' },
+                { accepted: true, text: 'Edited text' },
+                { accepted: false, text: '' },
+            ]);
+        });
+
+        it('rejects everything when the form is missing', () => {
+            expect(parseLinkTitleReviewForm(undefined, 1)).toEqual([{ accepted: false, text: '' }]);
+        });
+    });
+});
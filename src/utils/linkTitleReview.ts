@@ -0,0 +1,68 @@
+/**
+ * Review step for batch link title fetching: deciding when to show the review
+ * dialog, describing each proposed change, and reading the user's decisions
+ * back from the dialog form.
+ */
+
+import type { LinkInfo } from '../types';
+import { sanitizeLinkTitle } from './linkTitleUtils';
+
+/** Values of the `reviewLinkTitles` setting. */
+type LinkTitleReviewMode = 'always' | 'threshold' | 'never';
+
+/** One proposed link text change, as listed in the review dialog. */
+export interface LinkTitleReviewItem {
+    url: string;
+    /** Current link text (the URL itself for bare links). */
+    currentText: string;
+    proposedText: string;
+    /** The proposal is only the domain fallback; such items start unchecked. */
+    isFallback: boolean;
+}
+
+/** What the user chose for one item. `text` is sanitized; empty text is never accepted. */
+export interface LinkTitleReviewDecision {
+    accepted: boolean;
+    text: string;
+}
+
+/**
+ * Whether a batch of `count` fetched titles should be reviewed before applying.
+ */
+export function shouldReviewLinkTitles(mode: string, threshold: number, count: number): boolean {
+    switch (mode as LinkTitleReviewMode) {
+        case 'always':
+            return count > 0;
+        case 'threshold':
+            return count > threshold;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Returns the bracket text of a markdown link (`[text](url)`, `[text][ref]`),
+ * or the URL of a bare or angle-bracket link, from its expected source text.
+ */
+export function getCurrentLinkText(link: LinkInfo): string {
+    const source = link.expectedText ?? link.url;
+    const bracketText = source.match(/^!?\[((?:\\.|[^\\\]])*)\]/);
+    if (bracketText) {
+        return bracketText[1];
+    }
+    return source.replace(/^<(.*)>$/s, '$1');
+}
+
+/**
+ * Reads the review form (`accept<i>` checkboxes, present only when checked,
+ * and `text<i>` fields) into one decision per item.
+ */
+export function parseLinkTitleReviewForm(
+    formData: Record<string, string> | undefined,
+    itemCount: number
+): LinkTitleReviewDecision[] {
+    return Array.from({ length: itemCount }, (_, index) => {
+        const text = sanitizeLinkTitle(formData?.[`text${index}`] ?? '');
+        return { accepted: formData?.[`accept${index}`] !== undefined && text !== '', text };
+    });
+}
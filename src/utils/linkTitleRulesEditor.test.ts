@@ -0,0 +1,84 @@
+import {
+    loadLinkTitleRuleRows,
+    serializeLinkTitleRules,
+    testLinkTitleRules,
+    validateLinkTitleRule,
+} from './linkTitleRulesEditor';
+
+describe('linkTitleRulesEditor', () => {
+    describe('loadLinkTitleRuleRows', () => {
+        it('reads rules into rows, defaulting missing fields to empty strings', () => {
+            const json = JSON.stringify([{ pattern: 'a', title: '$1', flags: 'i' }, { pattern: 'b' }, 'junk']);
+            expect(loadLinkTitleRuleRows(json)).toEqual({
+                rows: [
+                    { pattern: 'a', title: '$1', flags: 'i' },
+                    { pattern: 'b', title: '', flags: '' },
+                ],
+                error: null,
+            });
+        });
+
+        it('reports values that are not a JSON array', () => {
+            expect(loadLinkTitleRuleRows('')).toEqual({ rows: [], error: null });
+            expect(loadLinkTitleRuleRows('{').error).toMatch(/not valid JSON/);
+            expect(loadLinkTitleRuleRows('{}').error).toMatch(/not a JSON array/);
+        });
+    });
+
+    describe('validateLinkTitleRule', () => {
+        it('accepts a valid rule', () => {
+            expect(validateLinkTitleRule({ pattern: '/browse/(\\w+)', title: '$1', flags: 'i' })).toBeNull();
+        });
+
+        it('reports missing fields, invalid regexes, and invalid flags', () => {
+            expect(validateLinkTitleRule({ pattern: '', title: '$1', flags: '' })).toBe('Pattern is required.');
+            expect(validateLinkTitleRule({ pattern: 'a', title: ' ', flags: '' })).toBe('Title is required.');
+            expect(validateLinkTitleRule({ pattern: '(', title: '$1', flags: '' })).toMatch(
+                /Invalid regular expression/
+            );
+            expect(validateLinkTitleRule({ pattern: 'a', title: '$1', flags: 'q' })).toMatch(/flags/i);
+        });
+    });
+
+    describe('testLinkTitleRules', () => {
+        const rows = [
+            { pattern: '(', title: 'broken', flags: '' },
+            { pattern: '/browse/([A-Z]+-\\d+)', title: '$1: {pageTitle}', flags: '' },
+            { pattern: '[?&]track=([^&]+)', title: '$1', flags: '' },
+            { pattern: 'example\\.com/(\\w+)', title: '$1 @ {domain}', flags: 'i' },
+        ];
+
+        it('reports the matching row and its title for each URL', () => {
+            expect(
+                testLinkTitleRules(rows, [
+                    'https://help.example.org/ticket?track=7QF',
+                    '',
+                    '  https://www.EXAMPLE.com/docs  ',
+                    'https://other.org',
+                ])
+            ).toEqual([
+                { url: 'https://help.example.org/ticket?track=7QF', ruleIndex: 2, title: '7QF', needsPage: false },
+                { url: 'https://www.EXAMPLE.com/docs', ruleIndex: 3, title: 'docs @ example.com', needsPage: false },
+                { url: 'https://other.org', ruleIndex: null, title: null, needsPage: false },
+            ]);
+        });
+
+        it('reports rules that need the page without a title', () => {
+            expect(testLinkTitleRules(rows, ['https://jira.example.org/browse/PROJ-1'])).toEqual([
+                { url: 'https://jira.example.org/browse/PROJ-1', ruleIndex: 1, title: null, needsPage: true },
+            ]);
+        });
+    });
+
+    describe('serializeLinkTitleRules', () => {
+        it('drops blank rows and empty flags, keeping invalid rules', () => {
+            expect(
+                serializeLinkTitleRules([
+                    { pattern: 'a', title: '$1', flags: '' },
+                    { pattern: '', title: ' ', flags: 'i' },
+                    { pattern: '(', title: 'x', flags: 'i' },
+                ])
+            ).toBe('[{"pattern":"a","title":"$1"},{"pattern":"(","title":"x","flags":"i"}]');
+        });
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Helpers for the "Edit Link Title Rules" dialog: loading the setting into
+ * editable rows, validating each row, testing URLs against the rules, and
+ * serializing the rows back to the setting value.
+ *
+ * The dialog edits raw rows rather than compiled rules so an invalid row stays
+ * visible with its error instead of being dropped the way
+ * `parseLinkTitleRules` drops it.
+ */
+
+import { applyLinkTitleRules, LinkTitleRule, linkTitleRuleNeedsPage } from './linkTitleUtils';
+import { matchPatternRule } from './patternRules';
+
+/** One editable rule; `flags` is an empty string when unset. */
+export interface LinkTitleRuleRow {
+    pattern: string;
+    title: string;
+    flags: string;
+}
+
+export interface LinkTitleRuleTestResult {
+    url: string;
+    /** Index of the matching row, or null if no rule matched. */
+    ruleIndex: number | null;
+    /** Title produced offline; null when nothing matched or the rule needs the page. */
+    title: string | null;
+    /** The matching rule references page data, so its title is only known after fetching. */
+    needsPage: boolean;
+}
+
+function toText(value: unknown): string {
+    return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Reads the `linkTitleRules` setting into editable rows. Non-object entries
+ * are skipped; missing fields become empty strings so validation can flag them.
+ * @returns The rows, and an error message if the value couldn't be read at all
+ */
+export function loadLinkTitleRuleRows(json: string): { rows: LinkTitleRuleRow[]; error: string | null } {
+    if (!json.trim()) {
+        return { rows: [], error: null };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        return { rows: [], error: 'The saved rules are not valid JSON. Saving replaces them.' };
+    }
+
+    if (!Array.isArray(parsed)) {
+        return { rows: [], error: 'The saved rules are not a JSON array. Saving replaces them.' };
+    }
+
+    const rows = parsed
+        .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+        .map((entry) => ({ pattern: toText(entry.pattern), title: toText(entry.title), flags: toText(entry.flags) }));
+    return { rows, error: null };
+}
+
+/**
+ * Validates one row the same way the rules are compiled for fetching.
+ * @returns An error message, or null if the rule is valid
+ */
+export function validateLinkTitleRule(row: LinkTitleRuleRow): string | null {
+    if (!row.pattern) {
+        return 'Pattern is required.';
+    }
+    if (!row.title.trim()) {
+        return 'Title is required.';
+    }
+
+    try {
+        new RegExp(row.pattern, row.flags);
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    return null;
+}
+
+/**
+ * Tests each URL (blank lines ignored) against the valid rows in order, using
+ * {@link applyLinkTitleRules} one rule at a time so the matching row is known.
+ * Rules that reference page data are reported as matches without a title.
+ */
+export function testLinkTitleRules(rows: LinkTitleRuleRow[], urls: string[]): LinkTitleRuleTestResult[] {
+    const compiled = rows.flatMap((row, index) =>
+        validateLinkTitleRule(row) ? [] : [{ index, regex: new RegExp(row.pattern, row.flags), title: row.title }]
+    );
+
+    return urls
+        .map((url) => url.trim())
+        .filter(Boolean)
+        .map((url) => {
+            for (const rule of compiled) {
+                if (linkTitleRuleNeedsPage(rule.title)) {
+                    if (matchPatternRule(rule, url)) {
+                        return { url, ruleIndex: rule.index, title: null, needsPage: true };
+                    }
+                    continue;
+                }
+
+                const title = applyLinkTitleRules(url, [rule]);
+                if (title) {
+                    return { url, ruleIndex: rule.index, title, needsPage: false };
+                }
+            }
+
+            return { url, ruleIndex: null, title: null, needsPage: false };
+        });
+}
+
+/**
+ * Serializes rows to the (single-line) setting value. Rows with neither a
+ * pattern nor a title are dropped; invalid rows are kept so no edit is lost.
+ */
+export function serializeLinkTitleRules(rows: LinkTitleRuleRow[]): string {
+    const rules: LinkTitleRule[] = rows
+        .filter((row) => row.pattern || row.title.trim())
+        .map(({ pattern, title, flags }) => (flags ? { pattern, title, flags } : { pattern, title }));
+    return JSON.stringify(rules);
+}
@@ -3,13 +3,17 @@ import {
     escapeMarkdownLinkText,
     extractDomain,
     buildTitleAttributeToken,
+    parseTitleAttributeToken,
     fetchLinkTitle,
     parseLinkTitleRules,
     applyLinkTitleRules,
     isFetchableLink,
     getFetchLinkTitlesMenuLabel,
+    parseLinkTitleProviderChain,
+    summarizeLinkTitleProviders,
+    formatTitledLink,
 } from './linkTitleUtils';
-import { LinkType } from '../types';
+import { LinkContext, LinkType } from '../types';
 import { vi } from 'vitest';
 
 const mockFetch = vi.fn();
@@ -36,10 +40,7 @@ function createJsonResponse(ok: boolean, data: unknown): Response {
 }
 
 function createTextResponse(ok: boolean, html: string): Response {
-    return {
-        ok,
-        text: vi.fn().mockResolvedValue(html),
-    } as unknown as Response;
+    return new Response(html, { status: ok ? 200 : 500, headers: { 'Content-Type': 'text/html' } });
 }
 
 describe('linkTitleUtils', () => {
@@ -74,6 +75,27 @@ describe('linkTitleUtils', () => {
         });
     });
 
+    describe('formatTitledLink', () => {
+        const link = { url: 'https://example.com', type: LinkType.ExternalUrl, from: 0, to: 19 };
+
+        it('builds an inline link, refreshing an existing title attribute', () => {
+            expect(formatTitledLink(link, 'Example | Docs')).toBe('[Example \\| Docs](https://example.com)');
+            expect(formatTitledLink({ ...link, linkTitleToken: "'Old'" }, 'New')).toBe(
+                "[New](https://example.com 'New')"
+            );
+        });
+
+        it('keeps the title attribute unchanged when no title is given', () => {
+            expect(formatTitledLink({ ...link, linkTitleToken: "'Old'" }, 'New', null)).toBe(
+                "[New](https://example.com 'Old')"
+            );
+        });
+
+        it('keeps the label of reference-style links', () => {
+            expect(formatTitledLink({ ...link, referenceLabel: '[ref]' }, 'Example')).toBe('[Example][ref]');
+        });
+    });
+
     describe('buildTitleAttributeToken', () => {
         it('preserves double-quoted delimiter and escapes quotes', () => {
             expect(buildTitleAttributeToken('"Old"', 'New "Title"')).toBe('"New \\"Title\\""');
@@ -100,6 +122,16 @@ describe('linkTitleUtils', () => {
         });
     });
 
+    describe('parseTitleAttributeToken', () => {
+        it('reads back the titles buildTitleAttributeToken writes', () => {
+            for (const token of ['"Old"', "'Old'", '(Old)']) {
+                for (const title of ['New "Title"', "O'Hara", 'Title)Here', 'Path\\To\\File']) {
+                    expect(parseTitleAttributeToken(buildTitleAttributeToken(token, title))).toBe(title);
+                }
+            }
+        });
+    });
+
     describe('fetchLinkTitle', () => {
         it('uses linkpreview.net when an API key is present', async () => {
             mockFetch.mockResolvedValueOnce(createJsonResponse(true, { title: 'Docs [API]\nGuide' }));
@@ -108,7 +140,7 @@ describe('linkTitleUtils', () => {
                 linkPreviewApiKey: 'test-key',
             });
 
-            expect(result).toEqual({ title: 'Docs API Guide', isFallback: false });
+            expect(result).toEqual({ title: 'Docs API Guide', isFallback: false, provider: 'linkpreview' });
             expect(mockFetch).toHaveBeenCalledTimes(1);
             expect(mockFetch).toHaveBeenCalledWith(
                 'https://api.linkpreview.net/?q=https%3A%2F%2Fexample.com%2Fdocs',
@@ -120,6 +152,22 @@ describe('linkTitleUtils', () => {
             );
         });
 
+        it('never sends per-site request headers to linkpreview.net', async () => {
+            mockFetch.mockResolvedValueOnce(createJsonResponse(true, { title: 'Docs' }));
+
+            await fetchLinkTitle('https://example.com/docs', {
+                linkPreviewApiKey: 'test-key',
+                linkTitleRequestHeaders: JSON.stringify([
+                    { pattern: '.', headers: { Authorization: 'Bearer secret' } },
+                ]),
+            });
+
+            expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('api.linkpreview.net'), {
+                headers: { 'X-Linkpreview-Api-Key': 'test-key' },
+                signal: expect.any(AbortSignal),
+            });
+        });
+
         it('falls back to direct HTML fetch when linkpreview.net returns an HTTP error', async () => {
             mockFetch
                 .mockResolvedValueOnce(createJsonResponse(false, { error: 'bad key' }))
@@ -131,7 +179,7 @@ describe('linkTitleUtils', () => {
                 linkPreviewApiKey: 'test-key',
             });
 
-            expect(result).toEqual({ title: 'Example Title', isFallback: false });
+            expect(result).toEqual({ title: 'Example Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(2);
             expect(mockFetch).toHaveBeenNthCalledWith(
                 2,
@@ -154,7 +202,7 @@ describe('linkTitleUtils', () => {
                 linkPreviewApiKey: 'test-key',
             });
 
-            expect(result).toEqual({ title: 'Fallback Title', isFallback: false });
+            expect(result).toEqual({ title: 'Fallback Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(2);
         });
 
@@ -180,7 +228,7 @@ describe('linkTitleUtils', () => {
                 linkPreviewApiKey: '   ',
             });
 
-            expect(result).toEqual({ title: 'Direct Title', isFallback: false });
+            expect(result).toEqual({ title: 'Direct Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(1);
             expect(mockFetch).toHaveBeenCalledWith(
                 'https://example.com/docs',
@@ -197,7 +245,7 @@ describe('linkTitleUtils', () => {
                 linkTitleRules: DEFAULT_JIRA_RULES,
             });
 
-            expect(result).toEqual({ title: 'PROJ-123', isFallback: false });
+            expect(result).toEqual({ title: 'PROJ-123', isFallback: false, provider: 'rules' });
             expect(mockFetch).not.toHaveBeenCalled();
         });
 
@@ -210,7 +258,7 @@ describe('linkTitleUtils', () => {
                 linkTitleRules: DEFAULT_JIRA_RULES,
             });
 
-            expect(result).toEqual({ title: 'Direct Title', isFallback: false });
+            expect(result).toEqual({ title: 'Direct Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(1);
         });
 
@@ -223,7 +271,7 @@ describe('linkTitleUtils', () => {
                 linkTitleRules: rules,
             });
 
-            expect(result).toEqual({ title: '7QF-MZP-9KD2', isFallback: false });
+            expect(result).toEqual({ title: '7QF-MZP-9KD2', isFallback: false, provider: 'rules' });
             expect(mockFetch).not.toHaveBeenCalled();
         });
 
@@ -236,10 +284,329 @@ describe('linkTitleUtils', () => {
                 linkTitleRules: DEFAULT_JIRA_RULES,
             });
 
-            expect(result).toEqual({ title: 'Direct Title', isFallback: false });
+            expect(result).toEqual({ title: 'Direct Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(1);
         });
 
+        it('prefers OpenGraph titles over the <title> tag by default', async () => {
+            mockFetch.mockResolvedValueOnce(
+                createTextResponse(
+                    true,
+                    '<html><head><title>Clean Title | Example Site</title><meta property="og:title" content="Clean Title"></head></html>'
+                )
+            );
+
+            const result = await fetchLinkTitle('https://example.com/docs');
+
+            expect(result).toEqual({ title: 'Clean Title', isFallback: false, provider: 'direct' });
+        });
+
+        it('honors a custom page title source precedence', async () => {
+            mockFetch.mockResolvedValueOnce(
+                createTextResponse(
+                    true,
+                    '<html><head><title>Clean Title | Example Site</title><meta property="og:title" content="Clean Title"></head></html>'
+                )
+            );
+
+            const result = await fetchLinkTitle('https://example.com/docs', { pageTitleSources: 'title, og:title' });
+
+            expect(result).toEqual({ title: 'Clean Title | Example Site', isFallback: false, provider: 'direct' });
+        });
+
+        it('tries providers in the configured chain order', async () => {
+            mockFetch.mockResolvedValueOnce(
+                createTextResponse(true, '<html><head><title>Direct Title</title></head></html>')
+            );
+
+            const result = await fetchLinkTitle('https://example.com/docs', {
+                linkTitleProviders: 'direct, linkpreview',
+                linkPreviewApiKey: 'test-key',
+            });
+
+            expect(result).toEqual({ title: 'Direct Title', isFallback: false, provider: 'direct' });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(mockFetch).toHaveBeenCalledWith('https://example.com/docs', expect.anything());
+        });
+
+        it('moves on to the next provider when one fails', async () => {
+            mockFetch
+                .mockResolvedValueOnce(createTextResponse(false, ''))
+                .mockResolvedValueOnce(createJsonResponse(true, { title: 'Preview Title' }));
+
+            const result = await fetchLinkTitle('https://example.com/docs', {
+                linkTitleProviders: 'direct, linkpreview',
+                linkPreviewApiKey: 'test-key',
+            });
+
+            expect(result).toEqual({ title: 'Preview Title', isFallback: false, provider: 'linkpreview' });
+        });
+
+        it('does not run providers missing from the chain', async () => {
+            const cache = { get: vi.fn(), set: vi.fn() };
+
+            const result = await fetchLinkTitle('https://www.example.com/docs', {
+                linkTitleProviders: 'rules',
+                linkTitleRules: DEFAULT_JIRA_RULES,
+                cache,
+            });
+
+            expect(result).toEqual({ title: 'example.com', isFallback: true });
+            expect(mockFetch).not.toHaveBeenCalled();
+            // Without a network provider there is nothing worth caching.
+            expect(cache.get).not.toHaveBeenCalled();
+            expect(cache.set).not.toHaveBeenCalled();
+        });
+
+        describe('rules with page placeholders', () => {
+            const JIRA_PAGE = `<html><head>
+                <title>[PROJ-123] Fix login bug - Jira</title>
+                <meta property="og:title" content="Fix login bug">
+                <meta property="og:site_name" content="Acme Jira">
+            </head></html>`;
+            const PAGE_RULES = JSON.stringify([
+                { pattern: '/browse/([A-Z]+-\\d+)', title: '$1: {pageTitle} ({og:site_name}, {domain})' },
+            ]);
+
+            it('combines URL captures with fetched page fields', async () => {
+                mockFetch.mockResolvedValueOnce(createTextResponse(true, JIRA_PAGE));
+
+                const result = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: PAGE_RULES,
+                });
+
+                expect(result).toEqual({
+                    title: 'PROJ-123: Fix login bug (Acme Jira, acme.example.com)',
+                    isFallback: false,
+                    provider: 'rules',
+                });
+                expect(mockFetch).toHaveBeenCalledTimes(1);
+            });
+
+            it('caches titles of rules that load the page, and uses the cache before loading it', async () => {
+                const cache = { get: vi.fn().mockReturnValue(null), set: vi.fn() };
+                mockFetch.mockResolvedValueOnce(createTextResponse(true, JIRA_PAGE));
+
+                await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: PAGE_RULES,
+                    cache,
+                });
+
+                expect(cache.set).toHaveBeenCalledWith(
+                    'https://acme.example.com/browse/PROJ-123',
+                    {
+                        title: 'PROJ-123: Fix login bug (Acme Jira, acme.example.com)',
+                        isFallback: false,
+                        provider: 'rules',
+                    },
+                    expect.any(String)
+                );
+
+                cache.get.mockReturnValue({ title: 'Cached', isFallback: false, provider: 'rules' });
+                const cached = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: PAGE_RULES,
+                    cache,
+                });
+
+                expect(cached).toEqual({ title: 'Cached', isFallback: false, provider: 'rules', fromCache: true });
+                expect(mockFetch).toHaveBeenCalledTimes(1);
+            });
+
+            it('keeps offline rules ahead of page rules out of the cache', async () => {
+                const cache = { get: vi.fn(), set: vi.fn() };
+
+                const result = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: JSON.stringify([
+                        { pattern: '/browse/([A-Z]+-\\d+)', title: '$1' },
+                        { pattern: '/browse/([A-Z]+-\\d+)', title: '$1: {pageTitle}' },
+                    ]),
+                    cache,
+                });
+
+                expect(result.title).toBe('PROJ-123');
+                expect(cache.get).not.toHaveBeenCalled();
+                expect(cache.set).not.toHaveBeenCalled();
+                expect(mockFetch).not.toHaveBeenCalled();
+            });
+
+            it('uses the page title source precedence for {pageTitle}', async () => {
+                mockFetch.mockResolvedValueOnce(createTextResponse(true, JIRA_PAGE));
+
+                const result = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules',
+                    linkTitleRules: JSON.stringify([{ pattern: '/browse/([A-Z]+-\\d+)', title: '{pageTitle}' }]),
+                    pageTitleSources: 'title',
+                });
+
+                expect(result.title).toBe('PROJ-123 Fix login bug - Jira');
+            });
+
+            it('passes over the rule when the page cannot be fetched, without refetching later', async () => {
+                mockFetch.mockResolvedValueOnce(createTextResponse(false, ''));
+
+                const result = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: PAGE_RULES,
+                });
+
+                expect(result).toEqual({ title: 'acme.example.com', isFallback: true });
+                expect(mockFetch).toHaveBeenCalledTimes(1);
+            });
+
+            it('passes over the rule when a referenced field is missing', async () => {
+                mockFetch.mockResolvedValueOnce(
+                    createTextResponse(true, '<html><head><title>Plain</title></head></html>')
+                );
+
+                const result = await fetchLinkTitle('https://acme.example.com/browse/PROJ-123', {
+                    linkTitleProviders: 'rules, direct',
+                    linkTitleRules: JSON.stringify([
+                        { pattern: '/browse/([A-Z]+-\\d+)', title: '$1 ({og:site_name})' },
+                        { pattern: '/browse/([A-Z]+-\\d+)', title: '$1: {pageTitle}' },
+                    ]),
+                });
+
+                expect(result.title).toBe('PROJ-123: Plain');
+            });
+        });
+
+        describe('title cleanup', () => {
+            const CLEANUP_RULES = JSON.stringify([{ pattern: '\\s+-\\s+YouTube$' }, { pattern: '^(DOCS)-' }]);
+
+            it('cleans up fetched titles', async () => {
+                mockFetch.mockResolvedValueOnce(
+                    createTextResponse(true, '<html><head><title>Great Talk - YouTube</title></head></html>')
+                );
+
+                const result = await fetchLinkTitle('https://example.com/video', {
+                    linkTitleProviders: 'direct',
+                    titleCleanupRules: CLEANUP_RULES,
+                });
+
+                expect(result).toEqual({ title: 'Great Talk', isFallback: false, provider: 'direct' });
+            });
+
+            it('caches the uncleaned title and cleans cache hits', async () => {
+                mockFetch.mockResolvedValueOnce(
+                    createTextResponse(true, '<html><head><title>Great Talk - YouTube</title></head></html>')
+                );
+                const cache = { get: vi.fn().mockReturnValue(null), set: vi.fn() };
+
+                await fetchLinkTitle('https://example.com/video', {
+                    linkTitleProviders: 'direct',
+                    titleCleanupRules: CLEANUP_RULES,
+                    cache,
+                });
+                expect(cache.set).toHaveBeenCalledWith(
+                    'https://example.com/video',
+                    {
+                        title: 'Great Talk - YouTube',
+                        isFallback: false,
+                        provider: 'direct',
+                    },
+                    expect.any(String)
+                );
+
+                cache.get.mockReturnValue({ title: 'Other Talk - YouTube', isFallback: false, provider: 'direct' });
+                const cached = await fetchLinkTitle('https://example.com/video', {
+                    linkTitleProviders: 'direct',
+                    titleCleanupRules: CLEANUP_RULES,
+                    cache,
+                });
+                expect(cached.title).toBe('Other Talk');
+            });
+
+            it('leaves custom rule titles alone unless opted in', async () => {
+                const options = {
+                    linkTitleProviders: 'rules',
+                    linkTitleRules: JSON.stringify([{ pattern: 'issues/(\\d+)', title: 'DOCS-$1' }]),
+                    titleCleanupRules: CLEANUP_RULES,
+                };
+
+                expect((await fetchLinkTitle('https://example.com/issues/7', options)).title).toBe('DOCS-7');
+                expect(
+                    (await fetchLinkTitle('https://example.com/issues/7', { ...options, cleanUpRuleTitles: true }))
+                        .title
+                ).toBe('7');
+            });
+        });
+
+        it('returns a cached title without fetching', async () => {
+            const cache = {
+                get: vi.fn().mockReturnValue({ title: 'Cached Title', isFallback: false }),
+                set: vi.fn(),
+            };
+
+            const result = await fetchLinkTitle('https://example.com/docs', { cache });
+
+            expect(result).toEqual({ title: 'Cached Title', isFallback: false, fromCache: true });
+            expect(cache.get).toHaveBeenCalledWith('https://example.com/docs', expect.any(String));
+            expect(cache.set).not.toHaveBeenCalled();
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('stores fetched titles and fallbacks in the cache', async () => {
+            const cache = { get: vi.fn().mockReturnValue(null), set: vi.fn() };
+            mockFetch
+                .mockResolvedValueOnce(
+                    createTextResponse(true, '<html><head><title>Direct Title</title></head></html>')
+                )
+                .mockRejectedValueOnce(new Error('direct failed'));
+
+            await fetchLinkTitle('https://example.com/docs', { cache });
+            await fetchLinkTitle('https://down.example.com/', { cache });
+
+            expect(cache.set).toHaveBeenNthCalledWith(
+                1,
+                'https://example.com/docs',
+                {
+                    title: 'Direct Title',
+                    isFallback: false,
+                    provider: 'direct',
+                },
+                expect.any(String)
+            );
+            expect(cache.set).toHaveBeenNthCalledWith(
+                2,
+                'https://down.example.com/',
+                {
+                    title: 'down.example.com',
+                    isFallback: true,
+                },
+                expect.any(String)
+            );
+        });
+
+        it('looks cached titles up under the settings they depend on', async () => {
+            const cache = { get: vi.fn().mockReturnValue({ title: 'Cached', isFallback: false }), set: vi.fn() };
+
+            await fetchLinkTitle('https://example.com/docs', { cache, titleCleanupRules: '[]' });
+            await fetchLinkTitle('https://example.com/docs', { cache, titleCleanupRules: '' });
+            await fetchLinkTitle('https://example.com/docs', { cache, pageTitleSources: 'title' });
+            await fetchLinkTitle('https://example.com/docs', { cache, linkTitleProviders: 'oembed, direct' });
+
+            const keys = cache.get.mock.calls.map(([, settingsKey]) => settingsKey);
+            expect(keys[0]).toBe(keys[1]);
+            expect(new Set(keys).size).toBe(3);
+        });
+
+        it('applies custom rules without consulting or filling the cache', async () => {
+            const cache = { get: vi.fn(), set: vi.fn() };
+
+            const result = await fetchLinkTitle('https://team.atlassian.net/browse/PROJ-123', {
+                linkTitleRules: DEFAULT_JIRA_RULES,
+                cache,
+            });
+
+            expect(result).toEqual({ title: 'PROJ-123', isFallback: false, provider: 'rules' });
+            expect(cache.get).not.toHaveBeenCalled();
+            expect(cache.set).not.toHaveBeenCalled();
+        });
+
         it('ignores invalid rule JSON and proceeds with fetching', async () => {
             mockFetch.mockResolvedValueOnce(
                 createTextResponse(true, '<html><head><title>Direct Title</title></head><body></body></html>')
@@ -249,11 +616,40 @@ describe('linkTitleUtils', () => {
                 linkTitleRules: 'not json',
             });
 
-            expect(result).toEqual({ title: 'Direct Title', isFallback: false });
+            expect(result).toEqual({ title: 'Direct Title', isFallback: false, provider: 'direct' });
             expect(mockFetch).toHaveBeenCalledTimes(1);
         });
     });
 
+    describe('parseLinkTitleProviderChain', () => {
+        it('returns providers in the listed order, ignoring case, duplicates, and unknown IDs', () => {
+            const providers = parseLinkTitleProviderChain('Direct, bogus, rules, direct');
+            expect(providers.map((provider) => provider.id)).toEqual(['direct', 'rules']);
+        });
+
+        it('falls back to the default chain when nothing valid is listed', () => {
+            expect(parseLinkTitleProviderChain(' ').map((provider) => provider.id)).toEqual([
+                'rules',
+                'linkpreview',
+                'oembed',
+                'direct',
+            ]);
+        });
+    });
+
+    describe('summarizeLinkTitleProviders', () => {
+        it('counts titles per provider, most frequent first', () => {
+            expect(
+                summarizeLinkTitleProviders([
+                    { title: 'A', isFallback: false, provider: 'rules' },
+                    { title: 'B', isFallback: false, provider: 'direct' },
+                    { title: 'C', isFallback: false, provider: 'direct', fromCache: true },
+                    { title: 'example.com', isFallback: true },
+                ])
+            ).toBe('Page 2, Custom rules 1, Domain fallback 1');
+        });
+    });
+
     describe('parseLinkTitleRules', () => {
         it('returns an empty array for blank input', () => {
             expect(parseLinkTitleRules('')).toEqual([]);
@@ -292,6 +688,21 @@ describe('linkTitleUtils', () => {
     });
 
     describe('applyLinkTitleRules', () => {
+        it('skips rules that need page data and expands {domain} offline', () => {
+            const rules = parseLinkTitleRules(
+                JSON.stringify([
+                    { pattern: 'id=(\\d+)', title: '$1: {pageTitle}' },
+                    { pattern: 'id=(\\d+)', title: '$1 @ {domain}' },
+                ])
+            );
+            expect(applyLinkTitleRules('https://www.x.com/?id=42', rules)).toBe('42 @ x.com');
+        });
+
+        it('does not expand placeholder-like text captured from the URL', () => {
+            const rules = parseLinkTitleRules(JSON.stringify([{ pattern: 'q=(.+)', title: '$1' }]));
+            expect(applyLinkTitleRules('https://x.com/?q={domain}', rules)).toBe('{domain}');
+        });
+
         it('substitutes numbered capture groups and the whole match', () => {
             const rules = parseLinkTitleRules(JSON.stringify([{ pattern: 'id=(\\d+)-(\\w+)', title: '$2 ($1)' }]));
             expect(applyLinkTitleRules('https://x.com/?id=42-abc', rules)).toBe('abc (42)');
@@ -353,12 +764,27 @@ describe('linkTitleUtils', () => {
             expect(isFetchableLink({ ...fetchable, isImage: true })).toBe(false);
         });
 
-        it('rejects reference-style links', () => {
-            expect(isFetchableLink({ ...fetchable, isReferenceLink: true })).toBe(false);
+        it('accepts reference-style links, whose bracket text is rewritten in place', () => {
+            const referenceLink: LinkContext = {
+                contextType: 'link',
+                url: 'https://example.com',
+                type: LinkType.ExternalUrl,
+                from: 0,
+                to: 11,
+                isReferenceLink: true,
+                referenceLabel: '[ref]',
+                expectedText: '[Docs][ref]',
+            };
+            expect(isFetchableLink(referenceLink)).toBe(true);
+        });
+
+        it('accepts links to notes and resources', () => {
+            expect(isFetchableLink({ ...fetchable, type: LinkType.JoplinResource })).toBe(true);
         });
 
-        it('rejects non-external link types', () => {
-            expect(isFetchableLink({ ...fetchable, type: LinkType.JoplinResource })).toBe(false);
+        it('rejects other link types', () => {
+            expect(isFetchableLink({ ...fetchable, type: LinkType.Email })).toBe(false);
+            expect(isFetchableLink({ ...fetchable, type: LinkType.InternalAnchor })).toBe(false);
         });
 
         it('rejects links without expectedText (cannot be replaced in place)', () => {
@@ -4,37 +4,89 @@
 
 import { logger } from '../logger';
 import { LinkContext, LinkInfo, LinkType } from '../types';
+import {
+    LinkTitleProvider,
+    LinkTitleProviderContext,
+    LinkTitleProviderId,
+    LinkTitleProviderOutcome,
+    LinkTitleProviderSettings,
+    PageFields,
+    createPageLoader,
+    loadPageFields,
+    directFetchProvider,
+    linkPreviewProvider,
+    oembedProvider,
+} from './linkTitleProviders';
+import { CompiledPatternRule, compilePatternRules, matchPatternRule } from './patternRules';
+import { cleanUpLinkTitle, parseTitleCleanupRules } from './titleCleanup';
+
+/** Provider of titles read from the Joplin database, for links to notes and resources. */
+export const JOPLIN_LINK_TITLE_PROVIDER = 'joplin';
+
+export interface LinkTitleResult {
+    title: string;
+    /** True when no title could be fetched and the domain is used instead. */
+    isFallback: boolean;
+    /** The provider that produced the title (absent for fallbacks). */
+    provider?: LinkTitleProviderId | typeof JOPLIN_LINK_TITLE_PROVIDER;
+    /** True when the result was served from the title cache. */
+    fromCache?: boolean;
+    /** The page's `<link rel="canonical">`, when the title came from the page itself. */
+    canonicalUrl?: string;
+}
 
-const FETCH_TIMEOUT_MS = 5000;
-const LINK_PREVIEW_API_URL = 'https://api.linkpreview.net/';
+/**
+ * Cache consulted by {@link fetchLinkTitle} before any network request, and
+ * updated with every fetched (or fallback) result. `settingsKey` identifies
+ * the settings the title was fetched with; an entry stored under another key
+ * is stale.
+ */
+export interface LinkTitleCacheStore {
+    get(url: string, settingsKey: string): LinkTitleResult | null;
+    set(url: string, result: LinkTitleResult, settingsKey: string): void;
+}
 
-export interface FetchLinkTitleOptions {
-    linkPreviewApiKey?: string;
-    /** Raw JSON string of custom link title rules (see {@link LinkTitleRule}). */
-    linkTitleRules?: string;
+export interface FetchLinkTitleOptions extends LinkTitleProviderSettings {
+    /**
+     * Comma-separated provider IDs in the order they are tried (see
+     * {@link parseLinkTitleProviderChain}). Defaults to {@link DEFAULT_LINK_TITLE_PROVIDER_CHAIN}.
+     */
+    linkTitleProviders?: string;
+    /**
+     * Optional title cache. Titles from custom rules are only cached when the
+     * rule loads the page ({@link LinkTitleProvider.needsNetwork}).
+     */
+    cache?: LinkTitleCacheStore;
+    /** Raw JSON array of title cleanup rules (see `titleCleanup.ts`). */
+    titleCleanupRules?: string;
+    /** Also clean up titles produced by custom link title rules (off by default). */
+    cleanUpRuleTitles?: boolean;
 }
 
 /**
- * A user-defined rule for deriving a link title directly from a URL,
- * without fetching the page. Rules are stored as a JSON array in settings.
+ * A user-defined rule for deriving a link title from a URL. Rules are stored
+ * as a JSON array in settings. Rules whose template references page data
+ * (`{pageTitle}`, `{og:…}`) fetch the page; all others work offline.
  *
  * @example
  * // Extract the `track` query param value:
  * { pattern: 'helpdesk\\.example\\.com/.*[?&]track=([^&]+)', title: '$1' }
+ * // Prefix the fetched page title with the issue key:
+ * { pattern: '/browse/([A-Z]+-\\d+)', title: '$1: {pageTitle}' }
  */
-interface LinkTitleRule {
+export interface LinkTitleRule {
     /** Regex source, tested against the full URL. */
     pattern: string;
-    /** Title template; `$1`..`$9` = capture groups, `$&` = the whole match. */
+    /**
+     * Title template; `$1`..`$9` = capture groups, `$&` = the whole match,
+     * `{domain}`, and page data: `{pageTitle}`, `{og:title}`, `{og:site_name}`, ….
+     */
     title: string;
     /** Optional regex flags (e.g. `"i"` for case-insensitive). */
     flags?: string;
 }
 
-interface CompiledLinkTitleRule {
-    regex: RegExp;
-    title: string;
-}
+export type CompiledLinkTitleRule = CompiledPatternRule<'title'>;
 
 /**
  * Sanitizes a title for use in markdown link text.
@@ -58,21 +110,17 @@ export function escapeMarkdownLinkText(title: string): string {
 /**
  * Determines whether a link can have its title fetched and updated in place.
  *
- * Only external HTTP(S) URLs qualify: image embeds are not titled links, and
- * reference-style links lack the `expectedText`/markdown range needed to replace
- * them in place. Centralizes the rule shared by the context menu, the cursor
- * resolver, and the fetch handler.
+ * External HTTP(S) URLs and links to Joplin notes and resources (titled from
+ * the local database) qualify: image embeds are not titled links, and
+ * links without an `expectedText` (e.g. reference definition URLs) can't be
+ * replaced in place. Reference-style links qualify; their bracket text is
+ * rewritten and the label kept. Centralizes the rule shared by the context
+ * menu, the cursor resolver, and the fetch handler.
  */
-export function isFetchableLink(link: {
-    type: LinkType;
-    isImage?: boolean;
-    isReferenceLink?: boolean;
-    expectedText?: string;
-}): boolean {
+export function isFetchableLink(link: { type: LinkType; isImage?: boolean; expectedText?: string }): boolean {
     return (
-        link.type === LinkType.ExternalUrl &&
+        (link.type === LinkType.ExternalUrl || link.type === LinkType.JoplinResource) &&
         !link.isImage &&
-        !link.isReferenceLink &&
         typeof link.expectedText === 'string' &&
         link.expectedText.length > 0
     );
@@ -91,10 +139,34 @@ export function linkContextToLinkInfo(ctx: LinkContext): LinkInfo {
         markdownLinkFrom: ctx.markdownLinkFrom,
         markdownLinkTo: ctx.markdownLinkTo,
         linkTitleToken: ctx.linkTitleToken,
+        referenceLabel: ctx.referenceLabel,
         expectedText: ctx.expectedText,
     };
 }
 
+/**
+ * Builds the replacement markdown for a link given its new link text.
+ * Inline links keep their URL and refresh any title attribute with `title`
+ * (or keep it unchanged when `title` is null); reference-style links keep their label, so shortcut and collapsed references
+ * ([foo], [foo][]) become full references pointing at the same definition.
+ * @example formatTitledLink({ url: "https://a.com", ... }, "A") → "[A](https://a.com)"
+ * @example formatTitledLink({ referenceLabel: "[foo]", ... }, "A") → "[A][foo]"
+ */
+export function formatTitledLink(link: LinkInfo, text: string, title: string | null = text): string {
+    const linkText = escapeMarkdownLinkText(text);
+
+    if (link.referenceLabel) {
+        return `[${linkText}]${link.referenceLabel}`;
+    }
+
+    const titleToken =
+        link.linkTitleToken && title !== null
+            ? buildTitleAttributeToken(link.linkTitleToken, title)
+            : link.linkTitleToken;
+    const titlePart = titleToken ? ` ${titleToken}` : '';
+    return `[${linkText}](${link.url}${titlePart})`;
+}
+
 /**
  * Generates the menu label for the unified fetch link titles action.
  */
@@ -130,79 +202,78 @@ export function parseLinkTitleRules(json: string): CompiledLinkTitleRule[] {
 }
 
 function compileLinkTitleRules(json: string): CompiledLinkTitleRule[] {
-    if (!json || !json.trim()) {
-        return [];
-    }
+    return compilePatternRules(json, 'title' satisfies keyof LinkTitleRule, 'custom link title rule');
+}
 
-    let parsed: unknown;
-    try {
-        parsed = JSON.parse(json);
-    } catch (error) {
-        logger.warn('Ignoring custom link title rules: invalid JSON.', error);
-        return [];
-    }
+/** Matches capture-group tokens (`$1`, `$&`) and `{placeholder}` tokens in one pass. */
+const TITLE_TEMPLATE_TOKEN = /\$(&|\d)|\{(pageTitle|domain|og:[\w:]+)\}/g;
+const PAGE_PLACEHOLDER = /\{(?:pageTitle|og:[\w:]+)\}/;
 
-    if (!Array.isArray(parsed)) {
-        logger.warn('Ignoring custom link title rules: expected a JSON array.');
-        return [];
-    }
+/**
+ * Whether a rule title template references fetched page data.
+ */
+export function linkTitleRuleNeedsPage(template: string): boolean {
+    return PAGE_PLACEHOLDER.test(template);
+}
 
-    const compiled: CompiledLinkTitleRule[] = [];
-    for (const entry of parsed) {
-        if (
-            typeof entry !== 'object' ||
-            entry === null ||
-            typeof (entry as LinkTitleRule).pattern !== 'string' ||
-            typeof (entry as LinkTitleRule).title !== 'string'
-        ) {
-            logger.warn('Skipping custom link title rule: missing string "pattern"/"title".', entry);
-            continue;
-        }
+/**
+ * Builds a title from a template by substituting capture groups (`$1`..`$9`,
+ * `$&`), `{domain}`, and page placeholders. Tokens are replaced in a single
+ * pass, so URL text that looks like a placeholder is never expanded.
+ * @returns The raw title, or null if a referenced page field is unavailable
+ */
+function applyTitleTemplate(
+    template: string,
+    match: RegExpExecArray,
+    url: string,
+    page: PageFields | null
+): string | null {
+    let missingPageField = false;
 
-        const { pattern, title, flags } = entry as LinkTitleRule;
-        if (flags !== undefined && typeof flags !== 'string') {
-            logger.warn('Skipping custom link title rule: "flags" must be a string.', entry);
-            continue;
+    const title = template.replace(TITLE_TEMPLATE_TOKEN, (_, group: string | undefined, name: string | undefined) => {
+        if (group === '&') {
+            return match[0];
+        }
+        if (group !== undefined) {
+            return match[Number(group)] ?? '';
+        }
+        if (name === 'domain') {
+            return extractDomain(url);
         }
 
-        try {
-            compiled.push({ regex: new RegExp(pattern, flags ?? ''), title });
-        } catch (error) {
-            logger.warn(`Skipping custom link title rule with invalid regex: ${pattern}`, error);
+        const value = name === 'pageTitle' ? page?.pageTitle : page?.openGraph[name!.toLowerCase()];
+        if (!value) {
+            missingPageField = true;
         }
-    }
+        return value ?? '';
+    });
 
-    return compiled;
+    return missingPageField ? null : title;
 }
 
-/**
- * Builds a title from a template by substituting capture-group placeholders
- * (`$1`..`$9` and `$&` for the whole match) from a regex match result.
- */
-function applyTitleTemplate(template: string, match: RegExpExecArray): string {
-    return template.replace(/\$(&|\d)/g, (_, token: string) => {
-        if (token === '&') {
-            return match[0];
-        }
-        return match[Number(token)] ?? '';
-    });
+function applyLinkTitleRule(
+    rule: CompiledLinkTitleRule,
+    match: RegExpExecArray,
+    url: string,
+    page: PageFields | null
+): string | null {
+    const title = applyTitleTemplate(rule.title, match, url, page);
+    return title ? sanitizeLinkTitle(title) || null : null;
 }
 
 /**
- * Applies the compiled rules to a URL, returning the title from the first rule
- * that matches, or null if none match.
+ * Applies the compiled rules to a URL without fetching, returning the title
+ * from the first rule that matches, or null if none match. Rules that need
+ * page data are skipped (see {@link linkTitleRuleNeedsPage}).
  */
 export function applyLinkTitleRules(url: string, rules: CompiledLinkTitleRule[]): string | null {
     for (const rule of rules) {
-        // Cached regexes may carry lastIndex state from a prior URL when the
-        // user supplied a g/y flag; reset so each URL is matched from the start.
-        rule.regex.lastIndex = 0;
-        const match = rule.regex.exec(url);
-        if (!match) {
+        const match = matchPatternRule(rule, url);
+        if (!match || linkTitleRuleNeedsPage(rule.title)) {
             continue;
         }
 
-        const title = sanitizeLinkTitle(applyTitleTemplate(rule.title, match));
+        const title = applyLinkTitleRule(rule, match, url, null);
         if (title) {
             return title;
         }
@@ -248,6 +319,18 @@ export function buildTitleAttributeToken(existingToken: string, title: string):
     return `"${escapeTitleForDelimiter(title, '"')}"`;
 }
 
+/**
+ * Reads the title text out of a title attribute token: the inverse of
+ * {@link buildTitleAttributeToken}.
+ * @example parseTitleAttributeToken('"Say \\"hi\\""') // => 'Say "hi"'
+ */
+export function parseTitleAttributeToken(token: string): string {
+    return token
+        .trim()
+        .slice(1, -1)
+        .replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
 /**
  * Extracts the domain name from a URL for use as a fallback title.
  * @example "https://www.example.com/path" → "example.com"
@@ -262,99 +345,259 @@ export function extractDomain(url: string): string {
     }
 }
 
-async function fetchWithTimeout(input: string, init: RequestInit): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-    try {
-        return await fetch(input, {
-            ...init,
-            signal: controller.signal,
-        });
-    } finally {
-        clearTimeout(timeoutId);
+/**
+ * Whether resolving the URL with these rules loads the page: a rule that
+ * references page data matches before any offline rule produces a title.
+ */
+function linkTitleRulesNeedPage(url: string, rules: CompiledLinkTitleRule[]): boolean {
+    for (const rule of rules) {
+        const match = matchPatternRule(rule, url);
+        if (!match) {
+            continue;
+        }
+        if (linkTitleRuleNeedsPage(rule.title)) {
+            return true;
+        }
+        if (applyLinkTitleRule(rule, match, url, null)) {
+            return false;
+        }
     }
+    return false;
 }
 
-async function fetchTitleViaLinkPreview(url: string, apiKey: string): Promise<string | null> {
-    const response = await fetchWithTimeout(`${LINK_PREVIEW_API_URL}?q=${encodeURIComponent(url)}`, {
-        headers: {
-            'X-Linkpreview-Api-Key': apiKey,
-        },
-    });
+/**
+ * Custom link title rules. Offline unless a matching rule references page
+ * data, in which case the page is loaded once (shared with later providers)
+ * and the lookup is cached like a network provider's.
+ * A rule whose page data is unavailable is passed over like a non-match.
+ */
+const rulesProvider: LinkTitleProvider = {
+    id: 'rules',
+    label: 'Custom rules',
+    usesNetwork: false,
+    needsNetwork(url, settings) {
+        return linkTitleRulesNeedPage(url, parseLinkTitleRules(settings.linkTitleRules ?? ''));
+    },
+    async resolve(url, context) {
+        // undefined = not loaded yet; null = page unavailable
+        let page: PageFields | null | undefined;
+
+        for (const rule of parseLinkTitleRules(context.linkTitleRules ?? '')) {
+            const match = matchPatternRule(rule, url);
+            if (!match) {
+                continue;
+            }
+
+            if (linkTitleRuleNeedsPage(rule.title) && page === undefined) {
+                page = await loadPageFields(url, context);
+            }
+
+            const title = applyLinkTitleRule(rule, match, url, page ?? null);
+            if (title) {
+                return { status: 'success', title };
+            }
+        }
+
+        return { status: 'skip', reason: 'no rule matched' };
+    },
+};
 
-    if (!response.ok) {
-        return null;
+/**
+ * Every known provider, keyed by the ID used in the provider chain setting.
+ * New providers are added here.
+ */
+const LINK_TITLE_PROVIDERS: Record<LinkTitleProviderId, LinkTitleProvider> = {
+    rules: rulesProvider,
+    linkpreview: linkPreviewProvider,
+    oembed: oembedProvider,
+    direct: directFetchProvider,
+};
+
+/** Chain used when the setting is blank or lists no known provider. */
+const DEFAULT_LINK_TITLE_PROVIDER_CHAIN = 'rules, linkpreview, oembed, direct';
+
+/** Single-entry memo so unknown-provider warnings are logged once per setting value. */
+let providerChainCache: { raw: string; providers: LinkTitleProvider[] } | null = null;
+
+/**
+ * Parses the comma-separated provider chain setting into providers in order.
+ * Providers not listed are disabled; unknown IDs are logged and skipped. Falls
+ * back to {@link DEFAULT_LINK_TITLE_PROVIDER_CHAIN} if nothing valid remains.
+ */
+export function parseLinkTitleProviderChain(value: string): LinkTitleProvider[] {
+    if (providerChainCache && providerChainCache.raw === value) {
+        return providerChainCache.providers;
     }
 
-    const data = (await response.json()) as { title?: unknown } | null;
-    const rawTitle = typeof data?.title === 'string' ? data.title.trim() : '';
+    const providers = compileLinkTitleProviderChain(value);
+    providerChainCache = { raw: value, providers };
+    return providers;
+}
+
+function compileLinkTitleProviderChain(value: string): LinkTitleProvider[] {
+    const providers: LinkTitleProvider[] = [];
 
-    if (!rawTitle) {
-        return null;
+    for (const token of (value ?? '').split(',')) {
+        const id = token.trim().toLowerCase();
+        if (!id) {
+            continue;
+        }
+
+        const provider = LINK_TITLE_PROVIDERS[id as LinkTitleProviderId];
+        if (!provider) {
+            logger.warn(`Ignoring unknown link title provider: ${id}`);
+            continue;
+        }
+        if (!providers.includes(provider)) {
+            providers.push(provider);
+        }
     }
 
-    return sanitizeLinkTitle(rawTitle);
+    return providers.length > 0 ? providers : compileLinkTitleProviderChain(DEFAULT_LINK_TITLE_PROVIDER_CHAIN);
 }
 
-async function fetchTitleDirectly(url: string): Promise<string | null> {
-    const response = await fetchWithTimeout(url, {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        redirect: 'follow',
-    });
+/**
+ * Returns the display label for the provider that produced a title.
+ */
+export function getLinkTitleProviderLabel(providerId: LinkTitleResult['provider']): string {
+    if (!providerId) {
+        return 'Domain fallback';
+    }
+    if (providerId === JOPLIN_LINK_TITLE_PROVIDER) {
+        return 'Joplin';
+    }
+    // Cached entries may name a provider from an older version.
+    return LINK_TITLE_PROVIDERS[providerId]?.label ?? providerId;
+}
 
-    if (!response.ok) {
-        return null;
+/**
+ * Summarizes which providers produced a batch of titles, most frequent first.
+ * @example "Page 3, Custom rules 1, Domain fallback 1"
+ */
+export function summarizeLinkTitleProviders(results: LinkTitleResult[]): string {
+    const counts = new Map<string, number>();
+    for (const result of results) {
+        const label = getLinkTitleProviderLabel(result.isFallback ? undefined : result.provider);
+        counts.set(label, (counts.get(label) ?? 0) + 1);
     }
 
-    const html = await response.text();
-    const doc = new DOMParser().parseFromString(html, 'text/html');
-    const rawTitle = doc.querySelector('title')?.textContent?.trim();
+    return [...counts]
+        .sort(([, a], [, b]) => b - a)
+        .map(([label, count]) => `${label} ${count}`)
+        .join(', ');
+}
+
+async function runLinkTitleProvider(
+    provider: LinkTitleProvider,
+    url: string,
+    context: LinkTitleProviderContext
+): Promise<LinkTitleProviderOutcome> {
+    try {
+        const outcome = await provider.resolve(url, context);
+        if (outcome.status === 'success' && !sanitizeLinkTitle(outcome.title)) {
+            return { status: 'failure', reason: 'empty title' };
+        }
+        return outcome;
+    } catch (error) {
+        // Network error, timeout, malformed response, or abort
+        return { status: 'failure', reason: error instanceof Error ? error.message : String(error) };
+    }
+}
 
-    if (!rawTitle) {
-        return null;
+/**
+ * Applies the title cleanup rules to a provider's title. Domain fallbacks are
+ * left alone, as are custom-rule titles unless the user opted in.
+ */
+function cleanUpResultTitle(result: LinkTitleResult, options: FetchLinkTitleOptions): LinkTitleResult {
+    if (result.isFallback || (result.provider === 'rules' && !options.cleanUpRuleTitles)) {
+        return result;
     }
 
-    return sanitizeLinkTitle(rawTitle);
+    const rules = parseTitleCleanupRules(options.titleCleanupRules ?? '');
+    return rules.length > 0 ? { ...result, title: cleanUpLinkTitle(result.title, rules) } : result;
 }
 
 /**
- * Fetches the title of a web page.
- * Uses global fetch with timeout handling.
- *
- * @param url - The URL to fetch the title from
- * @returns Object with title (fetched or domain fallback) and whether it's a fallback
+ * Returns a short hash of the settings that change what a lookup produces
+ * (before cleanup and templating, which run on cache hits too), so cached
+ * titles fetched with other settings are ignored. Secrets only enter the hash.
  */
-export async function fetchLinkTitle(
-    url: string,
-    options: FetchLinkTitleOptions = {}
-): Promise<{ title: string; isFallback: boolean }> {
-    const rules = parseLinkTitleRules(options.linkTitleRules ?? '');
-    const ruleTitle = applyLinkTitleRules(url, rules);
-    if (ruleTitle) {
-        return { title: ruleTitle, isFallback: false };
+function getLinkTitleCacheSettingsKey(options: FetchLinkTitleOptions): string {
+    const settings = JSON.stringify([
+        options.linkTitleProviders ?? DEFAULT_LINK_TITLE_PROVIDER_CHAIN,
+        options.linkPreviewApiKey ?? '',
+        options.linkTitleRules ?? '',
+        options.pageTitleSources ?? '',
+        options.oembedTitleTemplate ?? '',
+        options.linkTitleRequestHeaders ?? '',
+    ]);
+
+    // FNV-1a, 32 bits: enough to tell settings apart, not to recover them
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < settings.length; index++) {
+        hash = Math.imul(hash ^ settings.charCodeAt(index), 0x01000193);
     }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
 
-    const linkPreviewApiKey = options.linkPreviewApiKey?.trim();
-    if (linkPreviewApiKey) {
-        try {
-            const linkPreviewTitle = await fetchTitleViaLinkPreview(url, linkPreviewApiKey);
-            if (linkPreviewTitle) {
-                return { title: linkPreviewTitle, isFallback: false };
+/**
+ * Fetches the title of a web page by running the configured provider chain.
+ * Offline providers (custom rules) always run; the cache (if provided) is
+ * consulted once, just before the first network provider (or custom rules
+ * that need the page), and only returns titles fetched with the current
+ * provider settings. Cleanup rules run after sanitizing; the cache holds
+ * uncleaned titles so rule edits apply to cached titles too.
+ *
+ * @param url - The URL to fetch the title from
+ * @returns The title (from a provider or the domain fallback), whether it's a
+ * fallback, and which provider produced it
+ */
+export async function fetchLinkTitle(url: string, options: FetchLinkTitleOptions = {}): Promise<LinkTitleResult> {
+    const providers = parseLinkTitleProviderChain(options.linkTitleProviders ?? DEFAULT_LINK_TITLE_PROVIDER_CHAIN);
+    const context: LinkTitleProviderContext = {
+        ...options,
+        loadPage: createPageLoader(options.linkTitleRequestHeaders),
+    };
+    const outcomes: string[] = [];
+    const settingsKey = getLinkTitleCacheSettingsKey(options);
+    let cacheChecked = false;
+
+    for (const provider of providers) {
+        const usesNetwork = provider.usesNetwork || provider.needsNetwork?.(url, context) === true;
+        if (usesNetwork && !cacheChecked) {
+            cacheChecked = true;
+            const cached = options.cache?.get(url, settingsKey);
+            if (cached) {
+                logger.debug('Link title cache hit:', url);
+                return cleanUpResultTitle({ ...cached, fromCache: true }, options);
             }
-        } catch {
-            // Fall through to direct fetch if the provider request fails.
         }
-    }
 
-    try {
-        const directTitle = await fetchTitleDirectly(url);
-        if (directTitle) {
-            return { title: directTitle, isFallback: false };
+        const outcome = await runLinkTitleProvider(provider, url, context);
+        outcomes.push(
+            `${provider.id}: ${outcome.status === 'success' ? 'success' : `${outcome.status} (${outcome.reason})`}`
+        );
+
+        if (outcome.status === 'success') {
+            logger.debug(`Link title providers for ${url}:`, outcomes.join(', '));
+            const result: LinkTitleResult = {
+                title: sanitizeLinkTitle(outcome.title),
+                isFallback: false,
+                provider: provider.id,
+                ...(outcome.canonicalUrl ? { canonicalUrl: outcome.canonicalUrl } : {}),
+            };
+            if (usesNetwork) {
+                options.cache?.set(url, result, settingsKey);
+            }
+            return cleanUpResultTitle(result, options);
         }
-    } catch {
-        // Network error, timeout, malformed response, or abort
     }
 
-    return { title: extractDomain(url), isFallback: true };
+    logger.debug(`Link title providers for ${url}:`, outcomes.join(', ') || 'none enabled');
+    const fallback: LinkTitleResult = { title: extractDomain(url), isFallback: true };
+    // Only remember the fallback if a network fetch was actually attempted.
+    if (cacheChecked) {
+        options.cache?.set(url, fallback, settingsKey);
+    }
+    return fallback;
 }
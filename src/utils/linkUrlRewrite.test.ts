@@ -0,0 +1,95 @@
+import { LinkInfo, LinkType } from '../types';
+import { buildLinkUrlReplacement, formatLinkDestination, getRedirectedUrl } from './linkUrlRewrite';
+
+const FINAL_URL = 'https://example.com/article';
+
+describe('formatLinkDestination', () => {
+    it('keeps balanced parentheses and encodes unbalanced ones', () => {
+        expect(formatLinkDestination('https://en.wikipedia.org/wiki/Foo_(bar)')).toBe(
+            'https://en.wikipedia.org/wiki/Foo_(bar)'
+        );
+        expect(formatLinkDestination('https://example.com/a)b(')).toBe('https://example.com/a%29b%28');
+    });
+});
+
+describe('getRedirectedUrl', () => {
+    it('leaves a link with an anchor unchanged when it did not redirect', () => {
+        expect(getRedirectedUrl('https://example.com/page#section', 'https://example.com/page')).toBeNull();
+        expect(getRedirectedUrl('https://example.com/page', undefined)).toBeNull();
+    });
+
+    it('keeps the anchor on the final URL of a redirect', () => {
+        expect(getRedirectedUrl('https://bit.ly/abc#section', FINAL_URL)).toBe(`${FINAL_URL}#section`);
+        expect(getRedirectedUrl('https://bit.ly/abc', FINAL_URL)).toBe(FINAL_URL);
+    });
+
+    it('uses the fragment a redirect sets itself', () => {
+        expect(getRedirectedUrl('https://bit.ly/abc#section', `${FINAL_URL}#top`)).toBe(`${FINAL_URL}#top`);
+    });
+});
+
+describe('buildLinkUrlReplacement', () => {
+    it('replaces only the URL of an inline link, keeping text and title', () => {
+        const doc = 'See [Post](https://bit.ly/abc "Post title") here';
+        const link: LinkInfo = {
+            url: 'https://bit.ly/abc',
+            type: LinkType.ExternalUrl,
+            from: 11,
+            to: 29,
+            markdownLinkFrom: 4,
+            markdownLinkTo: 43,
+            linkTitleToken: '"Post title"',
+            expectedText: doc.slice(4, 43),
+        };
+
+        expect(buildLinkUrlReplacement(link, FINAL_URL)).toEqual({
+            from: 4,
+            to: 43,
+            text: `[Post](${FINAL_URL} "Post title")`,
+            expectedText: '[Post](https://bit.ly/abc "Post title")',
+            selectionBehavior: 'expand',
+        });
+    });
+
+    it('replaces the URL of an inline link whose text is the same URL', () => {
+        const text = '[https://bit.ly/abc](https://bit.ly/abc)';
+        const link: LinkInfo = {
+            url: 'https://bit.ly/abc',
+            type: LinkType.ExternalUrl,
+            from: 21,
+            to: 39,
+            markdownLinkFrom: 0,
+            markdownLinkTo: text.length,
+            expectedText: text,
+        };
+
+        expect(buildLinkUrlReplacement(link, FINAL_URL)?.text).toBe(`[https://bit.ly/abc](${FINAL_URL})`);
+    });
+
+    it('rewrites bare URLs and autolinks', () => {
+        const bare: LinkInfo = {
+            url: 'https://t.co/x',
+            type: LinkType.ExternalUrl,
+            from: 5,
+            to: 19,
+            expectedText: 'https://t.co/x',
+        };
+        const autolink: LinkInfo = { ...bare, to: 21, expectedText: '<https://t.co/x>' };
+
+        expect(buildLinkUrlReplacement(bare, FINAL_URL)).toMatchObject({ from: 5, to: 19, text: FINAL_URL });
+        expect(buildLinkUrlReplacement(autolink, FINAL_URL)).toMatchObject({
+            from: 5,
+            to: 21,
+            text: `<${FINAL_URL}>`,
+        });
+    });
+
+    it('skips reference links and links without expected text', () => {
+        const link: LinkInfo = { url: 'https://t.co/x', type: LinkType.ExternalUrl, from: 0, to: 14 };
+
+        expect(buildLinkUrlReplacement(link, FINAL_URL)).toBeNull();
+        expect(
+            buildLinkUrlReplacement({ ...link, referenceLabel: '[r]', expectedText: '[Post][r]' }, FINAL_URL)
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Swaps the URL of a link in place, for "Resolve Redirects" (final destination)
+ * and "Clean URL" (tracking parameters removed). Only the URL changes: link
+ * text, title attribute and autolink angle brackets are kept.
+ */
+
+import type { LinkInfo, TextReplacement } from '../types';
+
+/**
+ * Generates the menu label for "Resolve Redirects".
+ */
+export function getResolveRedirectsMenuLabel(count: number): string {
+    return count === 1 ? 'Resolve Redirect' : `Resolve Redirects (${count})`;
+}
+
+/**
+ * Generates the menu label for "Clean URL".
+ */
+export function getCleanUrlsMenuLabel(count: number): string {
+    return count === 1 ? 'Clean URL' : `Clean URLs (${count})`;
+}
+
+/**
+ * Returns the URL "Resolve Redirects" writes for a link that led to
+ * `redirectedTo`, or null if it didn't really redirect. URLs are compared
+ * without their fragment (responses never carry one), and the link's fragment
+ * is kept on the final URL unless the redirect set its own, as browsers do.
+ * @example getRedirectedUrl('https://bit.ly/a#intro', 'https://example.com/post') // => "https://example.com/post#intro"
+ */
+export function getRedirectedUrl(url: string, redirectedTo: string | undefined): string | null {
+    if (!redirectedTo) {
+        return null;
+    }
+
+    const original = new URL(url);
+    const final = new URL(redirectedTo);
+    const fragment = original.hash;
+    original.hash = '';
+    if (!final.hash) {
+        if (final.href === original.href) {
+            return null;
+        }
+        final.hash = fragment;
+    }
+    return final.href;
+}
+
+/**
+ * Makes a URL safe as an inline link destination: unbalanced parentheses
+ * would end the link early, so they are percent-encoded.
+ */
+export function formatLinkDestination(url: string): string {
+    let depth = 0;
+    for (const char of url) {
+        depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+        if (depth < 0) {
+            break;
+        }
+    }
+    return depth === 0 ? url : url.replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Builds the replacement that swaps a link's URL for `newUrl`, guarded by the
+ * link's expected text. Reference links (whose URL lives in the definition) and
+ * links without expected text can't be rewritten and return null.
+ */
+export function buildLinkUrlReplacement(link: LinkInfo, newUrl: string): TextReplacement | null {
+    if (link.referenceLabel || link.expectedText === undefined) {
+        return null;
+    }
+
+    const start = link.markdownLinkFrom ?? link.from;
+    const urlRangeStart = link.from - start;
+    const urlOffset = link.expectedText.indexOf(link.url, urlRangeStart);
+    if (urlOffset < 0 || urlOffset > link.to - start) {
+        return null;
+    }
+
+    const destination = link.markdownLinkFrom !== undefined ? formatLinkDestination(newUrl) : newUrl;
+    return {
+        from: start,
+        to: link.markdownLinkTo ?? link.to,
+        text:
+            link.expectedText.slice(0, urlOffset) + destination + link.expectedText.slice(urlOffset + link.url.length),
+        expectedText: link.expectedText,
+        selectionBehavior: 'expand',
+    };
+}
@@ -0,0 +1,123 @@
+import { LinkInfo, LinkType } from '../types';
+import {
+    buildLinkifyReplacement,
+    buildUnlinkifyReplacement,
+    formatUrlLinkText,
+    getLinkifyMenuLabel,
+    isBareUrlLink,
+} from './linkify';
+import { parseLinkTitleRules } from './linkTitleUtils';
+
+const bareUrl = (url: string, from = 0): LinkInfo => ({
+    url,
+    type: LinkType.ExternalUrl,
+    from,
+    to: from + url.length,
+    expectedText: url,
+});
+
+describe('formatUrlLinkText', () => {
+    it('keeps the host without www and the decoded path', () => {
+        expect(formatUrlLinkText('https://www.example.com/docs/intro/?ref=x#top')).toBe('example.com/docs/intro');
+        expect(formatUrlLinkText('https://example.com/')).toBe('example.com');
+        expect(formatUrlLinkText('https://example.com/caf%C3%A9')).toBe('example.com/café');
+    });
+
+    it('returns anything that is not a URL unchanged', () => {
+        expect(formatUrlLinkText('not a url')).toBe('not a url');
+    });
+});
+
+describe('isBareUrlLink', () => {
+    it('accepts bare external URLs only', () => {
+        expect(isBareUrlLink(bareUrl('https://example.com'))).toBe(true);
+        expect(isBareUrlLink({ ...bareUrl('https://example.com'), expectedText: '<https://example.com>' })).toBe(false);
+        expect(isBareUrlLink({ ...bareUrl('https://example.com'), markdownLinkFrom: 0 })).toBe(false);
+        expect(isBareUrlLink({ ...bareUrl(':/0123456789abcdef0123456789abcdef'), type: LinkType.JoplinResource })).toBe(
+            false
+        );
+    });
+});
+
+describe('buildLinkifyReplacement', () => {
+    const url = 'https://example.atlassian.net/browse/PROJ-12';
+
+    it('wraps the URL as an autolink', () => {
+        expect(buildLinkifyReplacement(bareUrl(url, 4), 'autolink')).toEqual({
+            from: 4,
+            to: 4 + url.length,
+            text: `<${url}>`,
+            expectedText: url,
+            selectionBehavior: 'expand',
+        });
+    });
+
+    it('uses the domain and path as link text', () => {
+        expect(buildLinkifyReplacement(bareUrl(url), 'urlText')?.text).toBe(
+            `[example.atlassian.net/browse/PROJ-12](${url})`
+        );
+    });
+
+    it('uses offline custom link title rules and skips URLs no rule matches', () => {
+        const rules = parseLinkTitleRules(
+            '[{"pattern":"/browse/([A-Z]+-\\\\d+)$","title":"$1"},{"pattern":"example\\\\.org","title":"{pageTitle}"}]'
+        );
+
+        expect(buildLinkifyReplacement(bareUrl(url), 'titleRules', rules)?.text).toBe(`[PROJ-12](${url})`);
+        expect(buildLinkifyReplacement(bareUrl('https://example.org/a'), 'titleRules', rules)).toBeNull();
+    });
+
+    it('ignores links that already have markup', () => {
+        expect(buildLinkifyReplacement({ ...bareUrl(url), expectedText: `<${url}>` }, 'urlText')).toBeNull();
+    });
+});
+
+describe('buildUnlinkifyReplacement', () => {
+    const doc = 'See [the docs](https://example.com/docs "Docs") now';
+    const inlineLink: LinkInfo = {
+        url: 'https://example.com/docs',
+        type: LinkType.ExternalUrl,
+        from: doc.indexOf('https'),
+        to: doc.indexOf(' "Docs"'),
+        markdownLinkFrom: 4,
+        markdownLinkTo: doc.indexOf(' now'),
+        linkTitleToken: '"Docs"',
+        expectedText: '[the docs](https://example.com/docs "Docs")',
+    };
+
+    it('replaces an inline link with its text or its URL', () => {
+        expect(buildUnlinkifyReplacement(inlineLink, 'text')).toEqual({
+            from: 4,
+            to: doc.indexOf(' now'),
+            text: 'the docs',
+            expectedText: inlineLink.expectedText,
+            selectionBehavior: 'expand',
+        });
+        expect(buildUnlinkifyReplacement(inlineLink, 'url')?.text).toBe('https://example.com/docs');
+    });
+
+    it('uses the URL for links without text and for autolinks', () => {
+        expect(
+            buildUnlinkifyReplacement({ ...inlineLink, expectedText: '[](https://example.com/docs)' }, 'text')?.text
+        ).toBe('https://example.com/docs');
+        expect(
+            buildUnlinkifyReplacement(
+                { ...bareUrl('https://example.com'), to: 21, expectedText: '<https://example.com>' },
+                'text'
+            )?.text
+        ).toBe('https://example.com');
+    });
+
+    it('leaves reference links, bare URLs and note links as bare URLs alone', () => {
+        expect(buildUnlinkifyReplacement({ ...inlineLink, referenceLabel: '[1]' }, 'text')).toBeNull();
+        expect(buildUnlinkifyReplacement(bareUrl('https://example.com'), 'text')).toBeNull();
+        expect(buildUnlinkifyReplacement({ ...inlineLink, type: LinkType.JoplinResource }, 'url')).toBeNull();
+    });
+});
+
+describe('getLinkifyMenuLabel', () => {
+    it('adds the count for several URLs', () => {
+        expect(getLinkifyMenuLabel('autolink', 1)).toBe('Linkify as <URL>');
+        expect(getLinkifyMenuLabel('urlText', 3)).toBe('Linkify as [domain/path](URL) (3)');
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * "Linkify" and "Unlinkify": turning bare URLs into markup without fetching
+ * anything, and turning links back into plain text.
+ */
+
+import { LinkType } from '../types';
+import type { LinkInfo, TextReplacement } from '../types';
+import { getCurrentLinkText } from './linkTitleReview';
+import { applyLinkTitleRules, CompiledLinkTitleRule, formatTitledLink, sanitizeLinkTitle } from './linkTitleUtils';
+
+/**
+ * How Linkify marks up a bare URL: `<url>` autolink, `[domain/path](url)`, or
+ * `[title](url)` from the custom link title rules (offline rules only).
+ */
+export type LinkifyMode = 'autolink' | 'urlText' | 'titleRules';
+
+/** What Unlinkify leaves in place of a link: its text, or its URL as a bare URL. */
+export type UnlinkifyMode = 'text' | 'url';
+
+/**
+ * Whether a link is a bare external URL (not a markdown link or `<url>` autolink).
+ */
+export function isBareUrlLink(link: Pick<LinkInfo, 'type' | 'markdownLinkFrom' | 'expectedText'>): boolean {
+    return (
+        link.type === LinkType.ExternalUrl &&
+        link.markdownLinkFrom === undefined &&
+        link.expectedText !== undefined &&
+        !link.expectedText.startsWith('<')
+    );
+}
+
+/**
+ * Whether Unlinkify can remove a link's markup: inline markdown links and
+ * `<url>` autolinks. Reference links are left alone, since their definition
+ * may be shared.
+ */
+export function isUnlinkifiableLink(
+    link: Pick<LinkInfo, 'markdownLinkFrom' | 'referenceLabel' | 'expectedText'>
+): boolean {
+    if (link.referenceLabel || link.expectedText === undefined) {
+        return false;
+    }
+    return link.markdownLinkFrom !== undefined || link.expectedText.startsWith('<');
+}
+
+/**
+ * Returns readable link text for a URL: host without `www.` and path, without
+ * query, fragment or trailing slash.
+ * @example formatUrlLinkText('https://www.example.com/docs/intro/?ref=x') // => "example.com/docs/intro"
+ */
+export function formatUrlLinkText(url: string): string {
+    try {
+        const { hostname, pathname } = new URL(url);
+        return `${hostname.replace(/^www\./, '')}${safeDecodeURI(pathname)}`.replace(/\/+$/, '');
+    } catch {
+        return url;
+    }
+}
+
+function safeDecodeURI(path: string): string {
+    try {
+        return decodeURI(path);
+    } catch {
+        return path;
+    }
+}
+
+/**
+ * Builds the Linkify replacement for a bare URL, or null if the link isn't a
+ * bare URL or (in `titleRules` mode) no offline rule produces a title.
+ */
+export function buildLinkifyReplacement(
+    link: LinkInfo,
+    mode: LinkifyMode,
+    rules: CompiledLinkTitleRule[] = []
+): TextReplacement | null {
+    if (!isBareUrlLink(link)) {
+        return null;
+    }
+
+    let text: string;
+    if (mode === 'autolink') {
+        text = `<${link.url}>`;
+    } else {
+        const title = mode === 'urlText' ? formatUrlLinkText(link.url) : applyLinkTitleRules(link.url, rules);
+        const linkText = title ? sanitizeLinkTitle(title) : '';
+        if (!linkText) {
+            return null;
+        }
+        text = formatTitledLink(link, linkText, null);
+    }
+
+    return { from: link.from, to: link.to, text, expectedText: link.expectedText, selectionBehavior: 'expand' };
+}
+
+/**
+ * Builds the Unlinkify replacement for an inline link or autolink, or null if
+ * the link has no markup to remove. Links without text become their URL.
+ */
+export function buildUnlinkifyReplacement(link: LinkInfo, mode: UnlinkifyMode): TextReplacement | null {
+    // Only web URLs stay links as bare URLs
+    if (!isUnlinkifiableLink(link) || (mode === 'url' && link.type !== LinkType.ExternalUrl)) {
+        return null;
+    }
+
+    const text = (mode === 'text' && getCurrentLinkText(link).trim()) || link.url;
+    return {
+        from: link.markdownLinkFrom ?? link.from,
+        to: link.markdownLinkTo ?? link.to,
+        text,
+        expectedText: link.expectedText,
+        selectionBehavior: 'expand',
+    };
+}
+
+/**
+ * Generates the menu label for a Linkify action.
+ */
+export function getLinkifyMenuLabel(mode: LinkifyMode, count: number): string {
+    const labels: Record<LinkifyMode, string> = {
+        autolink: 'Linkify as <URL>',
+        urlText: 'Linkify as [domain/path](URL)',
+        titleRules: 'Linkify with Title Rules',
+    };
+    return count === 1 ? labels[mode] : `${labels[mode]} (${count})`;
+}
+
+/**
+ * Generates the menu label for an Unlinkify action.
+ */
+export function getUnlinkifyMenuLabel(mode: UnlinkifyMode, count: number): string {
+    const label = mode === 'text' ? 'Unlinkify to Text' : 'Unlinkify to URL';
+    return count === 1 ? label : `${label} (${count})`;
+}
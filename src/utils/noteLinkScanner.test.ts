@@ -0,0 +1,90 @@
+import { LinkType } from '../types';
+import { applyTextReplacements, findUntitledLinks } from './noteLinkScanner';
+
+describe('noteLinkScanner', () => {
+    describe('findUntitledLinks', () => {
+        it('finds bare URLs, autolinks and untitled inline links', () => {
+            const text = [
+                'See https://example.com/a.',
+                '<https://example.com/b>',
+                '[](https://example.com/c "Old")',
+                '[https://example.com/d](https://example.com/d)',
+                '[ ](<https://example.com/e>)',
+            ].join('\n');
+
+            const links = findUntitledLinks(text);
+
+            expect(links.map((link) => link.url)).toEqual([
+                'https://example.com/a',
+                'https://example.com/b',
+                'https://example.com/c',
+                'https://example.com/d',
+                'https://example.com/e',
+            ]);
+            for (const link of links) {
+                const from = link.markdownLinkFrom ?? link.from;
+                const to = link.markdownLinkTo ?? link.to;
+                expect(text.slice(from, to)).toBe(link.expectedText);
+                expect(text.slice(link.from, link.to)).toBe(link.url);
+            }
+            expect(links[2].linkTitleToken).toBe('"Old"');
+        });
+
+        it('finds untitled links to notes and resources', () => {
+            const noteUrl = ':/0123456789abcdef0123456789abcdef#intro';
+            const text = `[](${noteUrl}) [Titled](${noteUrl}) [${noteUrl}](${noteUrl}) [](:/not-an-id)`;
+
+            const links = findUntitledLinks(text);
+
+            expect(links.map((link) => [link.type, link.expectedText])).toEqual([
+                [LinkType.JoplinResource, `[](${noteUrl})`],
+                [LinkType.JoplinResource, `[${noteUrl}](${noteUrl})`],
+            ]);
+        });
+
+        it('skips titled links, images, reference definitions, HTML and code', () => {
+            const text = [
+                '[Title](https://example.com/titled)',
+                '![](https://example.com/image.png)',
+                '[ref]: https://example.com/definition',
+                '<a href="https://example.com/html">https://example.com/html</a>',
+                '<!-- https://example.com/comment -->',
+                'Inline `https://example.com/code` span',
+                '```',
+                'https://example.com/fenced',
+                '```',
+                '[mail](mailto:someone@example.com)',
+            ].join('\n');
+
+            expect(findUntitledLinks(text)).toEqual([]);
+        });
+
+        it('resumes after a fenced block closes', () => {
+            const text = '~~~~\n~~~\nhttps://example.com/in\n~~~~\nhttps://example.com/out';
+            expect(findUntitledLinks(text).map((link) => link.url)).toEqual(['https://example.com/out']);
+        });
+
+        it('trims trailing punctuation and unbalanced parentheses from bare URLs', () => {
+            const text = '(see https://en.wikipedia.org/wiki/Foo_(bar)), and https://example.com/x?!';
+            expect(findUntitledLinks(text).map((link) => link.url)).toEqual([
+                'https://en.wikipedia.org/wiki/Foo_(bar)',
+                'https://example.com/x',
+            ]);
+        });
+    });
+
+    describe('applyTextReplacements', () => {
+        it('applies replacements in any order', () => {
+            expect(
+                applyTextReplacements('a b c', [
+                    { from: 0, to: 1, text: 'A', expectedText: 'a' },
+                    { from: 4, to: 5, text: 'C' },
+                ])
+            ).toBe('A b C');
+        });
+
+        it('returns null when a range no longer holds its expected text', () => {
+            expect(applyTextReplacements('a b c', [{ from: 0, to: 1, text: 'A', expectedText: 'x' }])).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Finds untitled external and note/resource links in a note body without an
+ * editor, for fetching link titles of whole notes through `joplin.data`.
+ *
+ * The editor uses the CodeMirror syntax tree (see `contextDetection.ts`), which
+ * isn't available to the main plugin script. This scanner covers the cases the
+ * batch command needs: bare URLs, `<url>` autolinks and inline links (to a URL
+ * or a `:/id` note/resource) whose text is empty or the URL itself. Fenced code, inline code, HTML comments and tags,
+ * images, titled links and reference definitions are left alone.
+ */
+
+import { LinkInfo, LinkType, TextReplacement } from '../types';
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * One pass over the masked text. Alternatives, in order: inline code, inline
+ * link or image (text, destination, optional title), autolink, HTML tag,
+ * reference definition, bare URL.
+ */
+const TOKEN = new RegExp(
+    [
+        '(`+)(?!`)[\\s\\S]*?(?<!`)\\1(?!`)',
+        '(!?)\\[((?:\\\\.|[^\\\\\\[\\]])*)\\]\\(\\s*(<[^<>\\n]*>|[^\\s()<>]*(?:\\([^\\s()]*\\)[^\\s()<>]*)*)' +
+            '(?:\\s+("(?:\\\\.|[^"\\\\])*"|\'(?:\\\\.|[^\'\\\\])*\'|\\((?:\\\\.|[^()\\\\])*\\)))?\\s*\\)',
+        '<(https?://[^\\s<>]+)>',
+        '<\\/?[A-Za-z][^<>]*>',
+        '^ {0,3}\\[(?:\\\\.|[^\\\\\\]])+\\]:.*$',
+        '(?<=^|[\\s*_~(])https?://[^\\s<]+',
+    ].join('|'),
+    'gm'
+);
+
+const HTTP_URL = /^https?:\/\/\S+$/i;
+const JOPLIN_URL = /^:\/[0-9a-f]{32}(?:#\S*)?$/i;
+
+/**
+ * Replaces fenced code blocks and HTML comments with spaces (keeping line
+ * breaks), so offsets into the masked text match the original.
+ */
+function maskIgnoredBlocks(text: string): string {
+    const blank = (segment: string) => segment.replace(/[^\n]/g, ' ');
+    const lines = text.replace(/<!--[\s\S]*?(?:-->|$)/g, blank).split('\n');
+    let fence: string | null = null;
+    for (let index = 0; index < lines.length; index++) {
+        const open = lines[index].match(FENCE_OPEN);
+        if (fence === null) {
+            if (open) {
+                fence = open[1];
+                lines[index] = blank(lines[index]);
+            }
+            continue;
+        }
+
+        // A closing fence uses the same character, is at least as long, and has nothing after it.
+        const closes =
+            open !== null &&
+            open[1][0] === fence[0] &&
+            open[1].length >= fence.length &&
+            !lines[index].slice(open[0].length).trim();
+        lines[index] = blank(lines[index]);
+        if (closes) {
+            fence = null;
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Trims trailing punctuation that GFM excludes from bare URLs: `.,:;!?*_~'"`
+ * and closing parentheses without a matching opening one.
+ */
+function trimBareUrl(url: string): string {
+    let trimmed = url;
+    for (;;) {
+        const last = trimmed[trimmed.length - 1];
+        if (/[.,:;!?*_~'"]/.test(last)) {
+            trimmed = trimmed.slice(0, -1);
+        } else if (last === ')' && trimmed.split('(').length < trimmed.split(')').length) {
+            trimmed = trimmed.slice(0, -1);
+        } else {
+            return trimmed;
+        }
+    }
+}
+
+/**
+ * Returns the untitled links in a note body, in document order, as
+ * {@link LinkInfo} ready for `formatTitledLink` and a batch replace.
+ */
+export function findUntitledLinks(text: string): LinkInfo[] {
+    const masked = maskIgnoredBlocks(text);
+    const links: LinkInfo[] = [];
+
+    for (const match of masked.matchAll(TOKEN)) {
+        const [source, , imageMarker, linkText, destination, titleToken, autolinkUrl] = match;
+        const start = match.index ?? 0;
+
+        if (destination !== undefined) {
+            const url = destination.replace(/^<(.*)>$/, '$1');
+            const isUntitled = !linkText.trim() || linkText.trim() === url;
+            const type = HTTP_URL.test(url)
+                ? LinkType.ExternalUrl
+                : JOPLIN_URL.test(url)
+                  ? LinkType.JoplinResource
+                  : null;
+            if (imageMarker || !isUntitled || type === null) {
+                continue;
+            }
+
+            const urlFrom = start + source.indexOf(destination) + (destination.startsWith('<') ? 1 : 0);
+            links.push({
+                url,
+                type,
+                from: urlFrom,
+                to: urlFrom + url.length,
+                markdownLinkFrom: start,
+                markdownLinkTo: start + source.length,
+                linkTitleToken: titleToken,
+                expectedText: text.slice(start, start + source.length),
+            });
+        } else if (autolinkUrl !== undefined) {
+            links.push({
+                url: autolinkUrl,
+                type: LinkType.ExternalUrl,
+                from: start + 1,
+                to: start + 1 + autolinkUrl.length,
+                markdownLinkFrom: start,
+                markdownLinkTo: start + source.length,
+                expectedText: source,
+            });
+        } else if (/^https?:\/\//i.test(source)) {
+            const url = trimBareUrl(source);
+            links.push({ url, type: LinkType.ExternalUrl, from: start, to: start + url.length, expectedText: url });
+        }
+    }
+
+    return links;
+}
+
+/**
+ * Applies replacements to a string, checking each `expectedText` first.
+ * @returns The new text, or null if any range no longer holds its expected text
+ */
+export function applyTextReplacements(text: string, replacements: TextReplacement[]): string | null {
+    const sorted = [...replacements].sort((a, b) => b.from - a.from);
+    if (sorted.some((r) => r.expectedText !== undefined && text.slice(r.from, r.to) !== r.expectedText)) {
+        return null;
+    }
+
+    return sorted.reduce((result, r) => result.slice(0, r.from) + r.text + result.slice(r.to), text);
+}
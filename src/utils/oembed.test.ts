@@ -0,0 +1,89 @@
+import { findKnownOEmbedEndpoint, findOEmbedDiscoveryUrl, parseOEmbedResponse, renderOEmbedTitle } from './oembed';
+
+function parseHtml(html: string): Document {
+    return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('oembed', () => {
+    describe('findKnownOEmbedEndpoint', () => {
+        it('maps well-known provider URLs to their endpoint with the link as the url parameter', () => {
+            const endpoint = findKnownOEmbedEndpoint('https://www.youtube.com/watch?v=abc123');
+            expect(endpoint).not.toBeNull();
+
+            const parsed = new URL(endpoint!);
+            expect(parsed.origin + parsed.pathname).toBe('https://www.youtube.com/oembed');
+            expect(parsed.searchParams.get('format')).toBe('json');
+            expect(parsed.searchParams.get('url')).toBe('https://www.youtube.com/watch?v=abc123');
+        });
+
+        it('recognizes short links', () => {
+            expect(findKnownOEmbedEndpoint('https://youtu.be/abc123')).toContain('youtube.com/oembed');
+        });
+
+        it('returns null for other sites', () => {
+            expect(findKnownOEmbedEndpoint('https://example.com/watch?v=abc123')).toBeNull();
+        });
+    });
+
+    describe('findOEmbedDiscoveryUrl', () => {
+        it('resolves the JSON discovery link against the page URL', () => {
+            const doc = parseHtml(`<head>
+                <link rel="alternate" type="text/xml+oembed" href="/oembed.xml">
+                <link rel="alternate" type="application/json+oembed" href="/oembed?url=x">
+            </head>`);
+
+            expect(findOEmbedDiscoveryUrl(doc, 'https://slides.example.com/deck/1')).toBe(
+                'https://slides.example.com/oembed?url=x'
+            );
+        });
+
+        it('ignores pages without a discovery link and non-HTTP endpoints', () => {
+            expect(findOEmbedDiscoveryUrl(parseHtml('<head></head>'), 'https://example.com')).toBeNull();
+            expect(
+                findOEmbedDiscoveryUrl(
+                    parseHtml('<link rel="alternate" type="application/json+oembed" href="javascript:alert(1)">'),
+                    'https://example.com'
+                )
+            ).toBeNull();
+        });
+    });
+
+    describe('parseOEmbedResponse', () => {
+        it('reads title, author and provider names', () => {
+            expect(
+                parseOEmbedResponse({
+                    type: 'video',
+                    title: ' Talk ',
+                    author_name: 'Speaker',
+                    provider_name: 'YouTube',
+                })
+            ).toEqual({ title: 'Talk', author: 'Speaker', provider: 'YouTube' });
+        });
+
+        it('ignores non-string and empty fields', () => {
+            expect(parseOEmbedResponse({ title: 42, author_name: ' ' })).toEqual({
+                title: undefined,
+                author: undefined,
+                provider: undefined,
+            });
+            expect(parseOEmbedResponse(null)).toEqual({});
+        });
+    });
+
+    describe('renderOEmbedTitle', () => {
+        const data = { title: 'Talk', author: 'Speaker', provider: 'YouTube' };
+
+        it('fills in all placeholders', () => {
+            expect(renderOEmbedTitle('{title} - {author} ({site})', data)).toBe('Talk - Speaker (YouTube)');
+        });
+
+        it('uses the title alone when the template is blank', () => {
+            expect(renderOEmbedTitle('  ', data)).toBe('Talk');
+        });
+
+        it('drops dangling separators and empty brackets for missing fields', () => {
+            expect(renderOEmbedTitle('{title} - {author} ({site})', { title: 'Talk' })).toBe('Talk');
+            expect(renderOEmbedTitle('{site}: {title}', { title: 'Talk' })).toBe('Talk');
+        });
+    });
+});
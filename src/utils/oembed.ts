@@ -0,0 +1,127 @@
+/**
+ * oEmbed endpoint discovery and response handling.
+ *
+ * Video, slide, and social sites publish an oEmbed endpoint that returns a
+ * clean title plus author and provider names. The endpoint is found either
+ * from a small list of well-known providers (no page fetch needed) or from the
+ * page's `<link rel="alternate" type="application/json+oembed">` tag.
+ */
+
+export interface OEmbedData {
+    title?: string;
+    author?: string;
+    provider?: string;
+}
+
+interface KnownOEmbedProvider {
+    /** Matched against the full link URL. */
+    pattern: RegExp;
+    /** Endpoint URL; the link URL is appended as the `url` query parameter. */
+    endpoint: string;
+}
+
+const KNOWN_OEMBED_PROVIDERS: readonly KnownOEmbedProvider[] = [
+    {
+        pattern: /^https?:\/\/(?:(?:www|m|music)\.youtube\.com\/(?:watch|shorts\/|playlist)|youtu\.be\/)/i,
+        endpoint: 'https://www.youtube.com/oembed?format=json',
+    },
+    { pattern: /^https?:\/\/(?:www\.|player\.)?vimeo\.com\//i, endpoint: 'https://vimeo.com/api/oembed.json' },
+    { pattern: /^https?:\/\/(?:www\.|m\.)?soundcloud\.com\//i, endpoint: 'https://soundcloud.com/oembed?format=json' },
+    { pattern: /^https?:\/\/open\.spotify\.com\//i, endpoint: 'https://open.spotify.com/oembed' },
+    {
+        pattern: /^https?:\/\/(?:[a-z]{2}\.|www\.)?slideshare\.net\//i,
+        endpoint: 'https://www.slideshare.net/api/oembed/2?format=json',
+    },
+    {
+        pattern: /^https?:\/\/(?:www\.)?(?:flickr\.com\/photos\/|flic\.kr\/)/i,
+        endpoint: 'https://www.flickr.com/services/oembed/?format=json',
+    },
+    { pattern: /^https?:\/\/(?:www\.)?tiktok\.com\/@[^/]+\/video\//i, endpoint: 'https://www.tiktok.com/oembed' },
+    {
+        pattern: /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/[^/]+\/status\//i,
+        endpoint: 'https://publish.twitter.com/oembed',
+    },
+];
+
+/** Template used when the setting is blank. */
+const DEFAULT_OEMBED_TITLE_TEMPLATE = '{title}';
+
+function withUrlParam(endpoint: string, url: string): string {
+    const endpointUrl = new URL(endpoint);
+    endpointUrl.searchParams.set('url', url);
+    return endpointUrl.href;
+}
+
+/**
+ * Returns the oEmbed endpoint for a URL served by a well-known provider, or null.
+ */
+export function findKnownOEmbedEndpoint(url: string): string | null {
+    const provider = KNOWN_OEMBED_PROVIDERS.find((candidate) => candidate.pattern.test(url));
+    return provider ? withUrlParam(provider.endpoint, url) : null;
+}
+
+/**
+ * Reads the JSON oEmbed discovery link from a parsed page.
+ * Relative hrefs are resolved against the page URL; non-HTTP(S) endpoints are ignored.
+ */
+export function findOEmbedDiscoveryUrl(doc: Document, pageUrl: string): string | null {
+    const href = doc
+        .querySelector('link[rel~="alternate"][type="application/json+oembed" i][href]')
+        ?.getAttribute('href')
+        ?.trim();
+    if (!href) {
+        return null;
+    }
+
+    try {
+        const endpoint = new URL(href, pageUrl);
+        return endpoint.protocol === 'http:' || endpoint.protocol === 'https:' ? endpoint.href : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Picks the fields used for link text out of an oEmbed JSON response.
+ */
+export function parseOEmbedResponse(value: unknown): OEmbedData {
+    if (typeof value !== 'object' || value === null) {
+        return {};
+    }
+
+    const record = value as Record<string, unknown>;
+    const read = (key: string) => {
+        const field = record[key];
+        return typeof field === 'string' ? field.trim() || undefined : undefined;
+    };
+
+    return {
+        title: read('title'),
+        author: read('author_name'),
+        provider: read('provider_name'),
+    };
+}
+
+/**
+ * Renders the oEmbed link text template. `{title}`, `{author}`, and `{site}`
+ * (`provider_name`) are replaced by the response fields; missing fields render empty, and empty
+ * brackets and separators left dangling at either end are removed.
+ * @example renderOEmbedTitle("{title} - {author}", { title: "Talk" }) → "Talk"
+ */
+export function renderOEmbedTitle(template: string, data: OEmbedData): string {
+    const fields: Record<string, string | undefined> = {
+        title: data.title,
+        author: data.author,
+        site: data.provider,
+    };
+
+    const rendered = (template.trim() || DEFAULT_OEMBED_TITLE_TEMPLATE).replace(
+        /\{(title|author|site)\}/g,
+        (_match, name: string) => fields[name] ?? ''
+    );
+
+    return rendered
+        .replace(/\s+/g, ' ')
+        .replace(/\(\s*\)|\[\s*\]/g, '')
+        .replace(/^[\s\-–—|·:,/]+|[\s\-–—|·:,/]+$/g, '');
+}
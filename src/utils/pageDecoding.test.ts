@@ -0,0 +1,59 @@
+import { decodePage, detectPageCharset } from './pageDecoding';
+
+function bytes(...parts: Array<string | number[]>): Uint8Array {
+    return Uint8Array.from(
+        parts.flatMap((part) => (typeof part === 'string' ? Array.from(Buffer.from(part, 'latin1')) : part))
+    );
+}
+
+describe('pageDecoding', () => {
+    describe('detectPageCharset', () => {
+        it('prefers a byte order mark over the header and meta declaration', () => {
+            const page = bytes([0xef, 0xbb, 0xbf], '<meta charset="shift_jis">');
+            expect(detectPageCharset(page, 'text/html; charset=windows-1251')).toBe('utf-8');
+        });
+
+        it('uses the Content-Type charset before the meta declaration', () => {
+            expect(detectPageCharset(bytes('<meta charset="shift_jis">'), 'text/html; charset="KOI8-R"')).toBe(
+                'koi8-r'
+            );
+        });
+
+        it('reads <meta charset> and <meta http-equiv> declarations', () => {
+            expect(detectPageCharset(bytes("<head><meta charset='Shift_JIS'>"), 'text/html')).toBe('shift_jis');
+            expect(
+                detectPageCharset(
+                    bytes('<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">'),
+                    null
+                )
+            ).toBe('windows-1251');
+        });
+
+        it('skips unknown labels and defaults to UTF-8', () => {
+            expect(detectPageCharset(bytes('<meta charset="bogus">'), 'text/html; charset=nope')).toBe('utf-8');
+            expect(detectPageCharset(bytes('<title>x</title>'), null)).toBe('utf-8');
+        });
+
+        it('treats a meta UTF-16 declaration as UTF-8', () => {
+            expect(detectPageCharset(bytes('<meta charset="utf-16">'), null)).toBe('utf-8');
+        });
+    });
+
+    describe('decodePage', () => {
+        it.each([
+            // "日本" in Shift_JIS
+            ['<meta charset="Shift_JIS">', null, [0x93, 0xfa, 0x96, 0x7b], '日本'],
+            // "Привет" in windows-1251
+            ['', 'text/html; charset=windows-1251', [0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2], 'Привет'],
+            // "Café" in ISO-8859-1
+            ['', 'text/html; charset=ISO-8859-1', [0x43, 0x61, 0x66, 0xe9], 'Café'],
+        ])('decodes %j / %j pages', (head, contentType, titleBytes, title) => {
+            const page = bytes(`${head}<title>`, titleBytes, '</title>');
+            expect(decodePage(page, contentType)).toBe(`${head}<title>${title}</title>`);
+        });
+
+        it('strips a UTF-8 byte order mark', () => {
+            expect(decodePage(bytes([0xef, 0xbb, 0xbf], '<title>x</title>'), null)).toBe('<title>x</title>');
+        });
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Reading and decoding fetched HTML pages for title lookups.
+ *
+ * `Response.text()` always decodes as UTF-8, which garbles Shift_JIS,
+ * windows-1251, ISO-8859-1 and other legacy pages. Instead the raw bytes are
+ * decoded with `TextDecoder`, using the charset from (in order) a byte order
+ * mark, the `Content-Type` header, or a `<meta>` declaration, as browsers do.
+ *
+ * Only the start of the page is downloaded: reading stops once the head is
+ * over, since everything the title providers look at lives there.
+ */
+
+/** Safety cap for pages that never close their head. */
+const MAX_PAGE_BYTES = 1024 * 1024;
+
+const DEFAULT_CHARSET = 'utf-8';
+
+/**
+ * Marks the end of the part of the page the providers need. `</title>` alone
+ * is not enough: OpenGraph tags and oEmbed discovery links usually follow it.
+ * `<body` covers pages that omit `</head>`.
+ */
+const HEAD_END = /<\/head\s*>|<body[\s>]/i;
+
+const META_CHARSET = /<meta\s[^>]*?charset\s*=\s*["']?\s*([\w.:-]+)/i;
+
+const BYTE_ORDER_MARKS: ReadonlyArray<{ bytes: number[]; charset: string }> = [
+    { bytes: [0xef, 0xbb, 0xbf], charset: 'utf-8' },
+    { bytes: [0xfe, 0xff], charset: 'utf-16be' },
+    { bytes: [0xff, 0xfe], charset: 'utf-16le' },
+];
+
+/** Byte-per-character view of the page, for finding ASCII markup in any ASCII-compatible charset. */
+const byteDecoder = new TextDecoder('windows-1252');
+
+function getBomCharset(bytes: Uint8Array): string | null {
+    const bom = BYTE_ORDER_MARKS.find((mark) => mark.bytes.every((byte, index) => bytes[index] === byte));
+    return bom?.charset ?? null;
+}
+
+/**
+ * Returns the `charset` parameter of a `Content-Type` header value, if any.
+ */
+function getContentTypeCharset(contentType: string | null): string | null {
+    const match = contentType?.match(/;\s*charset\s*=\s*["']?([^"';\s]+)/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Normalizes a charset label to one `TextDecoder` supports, or null if it
+ * doesn't know the label. A `<meta>` declaring UTF-16 can't be right (the
+ * markup was readable as ASCII), so it is treated as UTF-8 like browsers do.
+ */
+function resolveCharset(label: string | null, fromMeta = false): string | null {
+    if (!label) {
+        return null;
+    }
+
+    try {
+        const { encoding } = new TextDecoder(label.trim());
+        return fromMeta && encoding.startsWith('utf-16') ? DEFAULT_CHARSET : encoding;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Picks the charset for a page: byte order mark, then the `Content-Type`
+ * header, then `<meta charset>` / `<meta http-equiv="Content-Type">`, then
+ * UTF-8. Unknown labels are skipped.
+ */
+export function detectPageCharset(bytes: Uint8Array, contentType: string | null): string {
+    return (
+        getBomCharset(bytes) ??
+        resolveCharset(getContentTypeCharset(contentType)) ??
+        resolveCharset(byteDecoder.decode(bytes).match(META_CHARSET)?.[1] ?? null, true) ??
+        DEFAULT_CHARSET
+    );
+}
+
+/**
+ * Decodes page bytes with the detected charset.
+ */
+export function decodePage(bytes: Uint8Array, contentType: string | null): string {
+    return new TextDecoder(detectPageCharset(bytes, contentType)).decode(bytes);
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+}
+
+/**
+ * Reads a response body up to the end of the page head (or `MAX_PAGE_BYTES`),
+ * cancels the rest of the download, and decodes what was read.
+ */
+export async function readPageHead(response: Response): Promise<string> {
+    const contentType = response.headers.get('Content-Type');
+    if (!response.body) {
+        return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    let markup = '';
+
+    try {
+        while (length < MAX_PAGE_BYTES) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+
+            chunks.push(value);
+            length += value.length;
+            // Re-check the tail of the previous chunk so a marker split across chunks is found.
+            const searchFrom = Math.max(0, markup.length - 8);
+            markup += byteDecoder.decode(value);
+            if (HEAD_END.test(markup.slice(searchFrom))) {
+                break;
+            }
+        }
+    } finally {
+        // Stops the download; harmless if the body was read to the end.
+        reader.cancel().catch(() => undefined);
+    }
+
+    return decodePage(concatChunks(chunks, length), contentType);
+}
@@ -0,0 +1,115 @@
+import {
+    DEFAULT_PAGE_TITLE_PRECEDENCE,
+    extractCanonicalUrl,
+    extractOpenGraphFields,
+    extractPageTitleCandidates,
+    parsePageTitlePrecedence,
+    selectPageTitle,
+} from './pageMetadata';
+
+function parseHtml(html: string): Document {
+    return new DOMParser().parseFromString(html, 'text/html');
+}
+
+const FULL_PAGE = `
+<html><head>
+    <title>Fix login bug · Issue #12 · org/repo · GitHub</title>
+    <meta property="og:title" content="Fix login bug">
+    <meta name="twitter:title" content="Fix login bug (twitter)">
+    <script type="application/ld+json">{"@context":"https://schema.org","@type":"Article","headline":"Fix login bug (json-ld)"}</script>
+</head><body></body></html>`;
+
+describe('pageMetadata', () => {
+    describe('extractPageTitleCandidates', () => {
+        it('extracts every available source', () => {
+            expect(extractPageTitleCandidates(parseHtml(FULL_PAGE))).toEqual({
+                'og:title': 'Fix login bug',
+                'twitter:title': 'Fix login bug (twitter)',
+                'json-ld': 'Fix login bug (json-ld)',
+                title: 'Fix login bug · Issue #12 · org/repo · GitHub',
+            });
+        });
+
+        it('accepts og:title declared with name and twitter:title declared with property', () => {
+            const doc = parseHtml(
+                '<head><meta name="og:title" content="OG"><meta property="twitter:title" content="TW"></head>'
+            );
+            expect(extractPageTitleCandidates(doc)).toEqual({ 'og:title': 'OG', 'twitter:title': 'TW' });
+        });
+
+        it('finds headlines inside JSON-LD arrays and @graph containers', () => {
+            const doc = parseHtml(`<head>
+                <script type="application/ld+json">not json</script>
+                <script type="application/ld+json">{"@graph":[{"@type":"WebSite","name":"Site"},{"@type":"NewsArticle","headline":"Graph Headline"}]}</script>
+            </head>`);
+            expect(extractPageTitleCandidates(doc)['json-ld']).toBe('Graph Headline');
+        });
+
+        it('omits blank sources', () => {
+            const doc = parseHtml('<head><title>  </title><meta property="og:title" content=" "></head>');
+            expect(extractPageTitleCandidates(doc)).toEqual({});
+        });
+    });
+
+    describe('parsePageTitlePrecedence', () => {
+        it('parses a comma-separated list, ignoring case, duplicates, and unknown entries', () => {
+            expect(parsePageTitlePrecedence(' Title, og:title, bogus, title ')).toEqual(['title', 'og:title']);
+        });
+
+        it('falls back to the default when nothing valid is listed', () => {
+            expect(parsePageTitlePrecedence('')).toBe(DEFAULT_PAGE_TITLE_PRECEDENCE);
+            expect(parsePageTitlePrecedence('bogus')).toBe(DEFAULT_PAGE_TITLE_PRECEDENCE);
+        });
+    });
+
+    describe('extractOpenGraphFields', () => {
+        it('collects og:* fields by property or name, keeping the first value', () => {
+            const doc = parseHtml(`<head>
+                <meta property="og:title" content=" Fix login bug ">
+                <meta name="og:site_name" content="Jira">
+                <meta property="og:title" content="Duplicate">
+                <meta property="og:image" content="">
+                <meta name="twitter:title" content="Ignored">
+            </head>`);
+            expect(extractOpenGraphFields(doc)).toEqual({ 'og:title': 'Fix login bug', 'og:site_name': 'Jira' });
+        });
+    });
+
+    describe('extractCanonicalUrl', () => {
+        it('resolves the canonical link against the page URL', () => {
+            const doc = parseHtml('<head><link rel="Canonical" href="/article?id=1"></head>');
+            expect(extractCanonicalUrl(doc, 'https://example.com/a?utm_source=x')).toBe(
+                'https://example.com/article?id=1'
+            );
+        });
+
+        it('ignores missing and non-HTTP canonical links', () => {
+            expect(extractCanonicalUrl(parseHtml('<head></head>'), 'https://example.com/')).toBeUndefined();
+            expect(
+                extractCanonicalUrl(parseHtml('<link rel="canonical" href="javascript:alert(1)">'), 'https://a.com/')
+            ).toBeUndefined();
+        });
+    });
+
+    describe('selectPageTitle', () => {
+        const candidates = extractPageTitleCandidates(parseHtml(FULL_PAGE));
+
+        it('returns the first available source in precedence order', () => {
+            expect(selectPageTitle(candidates, ['json-ld', 'og:title'])).toEqual({
+                title: 'Fix login bug (json-ld)',
+                source: 'json-ld',
+            });
+        });
+
+        it('skips missing sources', () => {
+            expect(selectPageTitle({ title: 'Only Title' }, DEFAULT_PAGE_TITLE_PRECEDENCE)).toEqual({
+                title: 'Only Title',
+                source: 'title',
+            });
+        });
+
+        it('returns null when no listed source is available', () => {
+            expect(selectPageTitle({ title: 'Only Title' }, ['og:title'])).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Extraction of title candidates from a fetched HTML page.
+ *
+ * Many sites pad `<title>` for search engines ("Fix login bug · Issue #12 ·
+ * org/repo · GitHub") while publishing a cleaner headline in OpenGraph,
+ * Twitter card, or JSON-LD metadata. Each source is extracted separately so
+ * the user-configured precedence decides which one wins.
+ */
+
+import { logger } from '../logger';
+
+export type PageTitleSource = 'og:title' | 'twitter:title' | 'json-ld' | 'title';
+
+export type PageTitleCandidates = Partial<Record<PageTitleSource, string>>;
+
+const PAGE_TITLE_SOURCES: readonly PageTitleSource[] = ['og:title', 'twitter:title', 'json-ld', 'title'];
+
+/** Precedence used when the setting is blank or lists no known source. */
+export const DEFAULT_PAGE_TITLE_PRECEDENCE: readonly PageTitleSource[] = PAGE_TITLE_SOURCES;
+
+function isPageTitleSource(value: string): value is PageTitleSource {
+    return (PAGE_TITLE_SOURCES as readonly string[]).includes(value);
+}
+
+/** Single-entry memo so unknown-source warnings are logged once per setting value, not per link. */
+let precedenceCache: { raw: string; parsed: readonly PageTitleSource[] } | null = null;
+
+/**
+ * Parses the comma-separated precedence setting (e.g. `"og:title, title"`).
+ * Unknown entries are logged and skipped; sources that aren't listed are not
+ * used at all. Falls back to {@link DEFAULT_PAGE_TITLE_PRECEDENCE} if nothing valid remains.
+ */
+export function parsePageTitlePrecedence(value: string): readonly PageTitleSource[] {
+    if (precedenceCache && precedenceCache.raw === value) {
+        return precedenceCache.parsed;
+    }
+
+    const parsed = compilePageTitlePrecedence(value);
+    precedenceCache = { raw: value, parsed };
+    return parsed;
+}
+
+function compilePageTitlePrecedence(value: string): readonly PageTitleSource[] {
+    const sources: PageTitleSource[] = [];
+
+    for (const token of (value ?? '').split(',')) {
+        const source = token.trim().toLowerCase();
+        if (!source) {
+            continue;
+        }
+        if (!isPageTitleSource(source)) {
+            logger.warn(`Ignoring unknown page title source: ${source}`);
+            continue;
+        }
+        if (!sources.includes(source)) {
+            sources.push(source);
+        }
+    }
+
+    return sources.length > 0 ? sources : DEFAULT_PAGE_TITLE_PRECEDENCE;
+}
+
+function getMetaContent(doc: Document, key: string): string | undefined {
+    // Sites use both `property` (OpenGraph spec) and `name` for either vocabulary.
+    const meta = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`);
+    return meta?.getAttribute('content')?.trim() || undefined;
+}
+
+/**
+ * Searches a parsed JSON-LD value (object, array, or `@graph` container) for
+ * the first string `headline`.
+ */
+function findJsonLdHeadline(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const headline = findJsonLdHeadline(item);
+            if (headline) return headline;
+        }
+        return undefined;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+        return undefined;
+    }
+
+    const record = value as Record<string, unknown>;
+    if (typeof record.headline === 'string' && record.headline.trim()) {
+        return record.headline.trim();
+    }
+
+    return findJsonLdHeadline(record['@graph']);
+}
+
+function getJsonLdHeadline(doc: Document): string | undefined {
+    for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+        try {
+            const headline = findJsonLdHeadline(JSON.parse(script.textContent ?? ''));
+            if (headline) return headline;
+        } catch {
+            // Malformed JSON-LD blocks are common; try the next one.
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Extracts every available title candidate from a parsed HTML document.
+ */
+export function extractPageTitleCandidates(doc: Document): PageTitleCandidates {
+    const candidates: PageTitleCandidates = {
+        'og:title': getMetaContent(doc, 'og:title'),
+        'twitter:title': getMetaContent(doc, 'twitter:title'),
+        'json-ld': getJsonLdHeadline(doc),
+        title: doc.querySelector('title')?.textContent?.trim() || undefined,
+    };
+
+    return Object.fromEntries(
+        Object.entries(candidates).filter(([, value]) => value !== undefined)
+    ) as PageTitleCandidates;
+}
+
+/**
+ * Collects every OpenGraph property (`og:title`, `og:site_name`, …) keyed by
+ * its lower-cased name. The first value wins for repeated properties.
+ */
+export function extractOpenGraphFields(doc: Document): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    for (const meta of Array.from(doc.querySelectorAll('meta[property^="og:"], meta[name^="og:"]'))) {
+        const name = (meta.getAttribute('property') || meta.getAttribute('name') || '').trim().toLowerCase();
+        const content = meta.getAttribute('content')?.trim();
+        if (name.startsWith('og:') && content && !(name in fields)) {
+            fields[name] = content;
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Returns the page's `<link rel="canonical">` as an absolute HTTP(S) URL, or
+ * undefined if it has none (or an unusable one).
+ * @param pageUrl - URL the page was fetched from, for relative canonical links
+ */
+export function extractCanonicalUrl(doc: Document, pageUrl: string): string | undefined {
+    const href = doc.querySelector('link[rel~="canonical" i][href]')?.getAttribute('href')?.trim();
+    if (!href) {
+        return undefined;
+    }
+
+    try {
+        const canonical = new URL(href, pageUrl);
+        return canonical.protocol === 'http:' || canonical.protocol === 'https:' ? canonical.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Picks the first available candidate in precedence order.
+ * @returns The raw (unsanitized) title and the source it came from, or null
+ */
+export function selectPageTitle(
+    candidates: PageTitleCandidates,
+    precedence: readonly PageTitleSource[]
+): { title: string; source: PageTitleSource } | null {
+    for (const source of precedence) {
+        const title = candidates[source];
+        if (title) {
+            return { title, source };
+        }
+    }
+    return null;
+}
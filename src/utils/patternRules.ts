@@ -0,0 +1,85 @@
+/**
+ * Shared compiler for user-configured regex rules stored as JSON arrays of
+ * `{ pattern, flags?, <value> }` objects (link title rules, link text template
+ * overrides, title cleanup rules).
+ */
+
+import { logger } from '../logger';
+
+/**
+ * A compiled `{ pattern, flags? }` rule carrying one string field, e.g. the
+ * `title` of a link title rule or the `replacement` of a title cleanup rule.
+ */
+export type CompiledPatternRule<K extends string> = { regex: RegExp } & Record<K, string>;
+
+/**
+ * Parses and compiles a JSON array of `{ pattern, flags?, [valueKey] }` regex
+ * rules. Never throws: invalid JSON or invalid individual rules are logged
+ * (naming `ruleKind` in the message) and skipped.
+ *
+ * @param json - Raw JSON string from a setting
+ * @param valueKey - Name of the required string field besides `pattern`
+ * @param ruleKind - Singular, human-readable rule name for warnings
+ * @param defaultValue - Value for rules that omit `valueKey`; when undefined the field is required
+ * @returns Compiled rules in declaration order (may be empty)
+ */
+export function compilePatternRules<K extends string>(
+    json: string,
+    valueKey: K,
+    ruleKind: string,
+    defaultValue?: string
+): CompiledPatternRule<K>[] {
+    if (!json || !json.trim()) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        logger.warn(`Ignoring ${ruleKind}s: invalid JSON.`, error);
+        return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+        logger.warn(`Ignoring ${ruleKind}s: expected a JSON array.`);
+        return [];
+    }
+
+    const compiled: CompiledPatternRule<K>[] = [];
+    for (const entry of parsed) {
+        const record = typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>) : null;
+        const value = record?.[valueKey] ?? defaultValue;
+        if (!record || typeof record.pattern !== 'string' || typeof value !== 'string') {
+            logger.warn(`Skipping ${ruleKind}: missing string "pattern"/"${valueKey}".`, entry);
+            continue;
+        }
+
+        const { pattern, flags } = record;
+        if (flags !== undefined && typeof flags !== 'string') {
+            logger.warn(`Skipping ${ruleKind}: "flags" must be a string.`, entry);
+            continue;
+        }
+
+        try {
+            compiled.push({
+                regex: new RegExp(pattern, flags ?? ''),
+                [valueKey]: value,
+            } as CompiledPatternRule<K>);
+        } catch (error) {
+            logger.warn(`Skipping ${ruleKind} with invalid regex: ${pattern}`, error);
+        }
+    }
+
+    return compiled;
+}
+
+/**
+ * Matches a compiled rule against a string (usually a URL) from the start.
+ */
+export function matchPatternRule(rule: { regex: RegExp }, value: string): RegExpExecArray | null {
+    // Cached regexes may carry lastIndex state from a prior value when the
+    // user supplied a g/y flag; reset so each value is matched from the start.
+    rule.regex.lastIndex = 0;
+    return rule.regex.exec(value);
+}
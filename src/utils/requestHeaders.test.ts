@@ -0,0 +1,59 @@
+import { vi } from 'vitest';
+import { logger } from '../logger';
+import { parseRequestHeaderRules, selectRequestHeaders } from './requestHeaders';
+
+describe('requestHeaders', () => {
+    it('selects the headers of the first matching rule', () => {
+        const rules = parseRequestHeaderRules(
+            JSON.stringify([
+                { pattern: '^https://wiki\\.example\\.com/', headers: { Authorization: 'Bearer a' } },
+                { pattern: '^https://(wiki|git)\\.example\\.com/', headers: { Cookie: 'session=b' } },
+            ])
+        );
+
+        expect(selectRequestHeaders('https://wiki.example.com/page', rules)).toEqual({ Authorization: 'Bearer a' });
+        expect(selectRequestHeaders('https://git.example.com/repo', rules)).toEqual({ Cookie: 'session=b' });
+        expect(selectRequestHeaders('https://evil.example.org/?wiki.example.com/', rules)).toBeNull();
+    });
+
+    it('skips invalid rules without logging their header values', () => {
+        const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        const rules = parseRequestHeaderRules(
+            JSON.stringify([
+                { pattern: '(', headers: { Authorization: 'Bearer secret-1' } },
+                { pattern: 'a', headers: { 'Bad Name': 'secret-2' } },
+                { pattern: 'a', headers: { Cookie: 'secret-3\r\nX-Injected: 1' } },
+                { pattern: 'a', headers: {} },
+                { pattern: 'ok', headers: { 'X-Token': 'fine' } },
+            ])
+        );
+
+        expect(rules.map((rule) => rule.headers)).toEqual([{ 'X-Token': 'fine' }]);
+        expect(warn).toHaveBeenCalledTimes(4);
+        expect(JSON.stringify(warn.mock.calls)).not.toMatch(/secret/);
+        warn.mockRestore();
+    });
+
+    it('drops headers the HTTP client sets itself', () => {
+        const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        const rules = parseRequestHeaderRules(
+            JSON.stringify([
+                { pattern: 'a', headers: { Cookie: 'session=a', 'User-Agent': 'Wiki', Host: 'secret.example.com' } },
+                { pattern: 'b', headers: { 'Content-Length': 'secret' } },
+            ])
+        );
+
+        expect(rules.map((rule) => rule.headers)).toEqual([{ Cookie: 'session=a', 'User-Agent': 'Wiki' }]);
+        expect(warn).toHaveBeenCalledTimes(3);
+        expect(JSON.stringify(warn.mock.calls)).not.toMatch(/secret/);
+        warn.mockRestore();
+    });
+
+    it('tolerates blank and invalid JSON', () => {
+        expect(parseRequestHeaderRules('')).toEqual([]);
+        expect(parseRequestHeaderRules('{"pattern": "a"}')).toEqual([]);
+        expect(parseRequestHeaderRules('not json')).toEqual([]);
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Per-site request headers for title fetching, e.g. a bearer token or session
+ * cookie for an intranet wiki, or a custom User-Agent.
+ *
+ * Rules come from the secure `linkTitleRequestHeaders` setting: a JSON array
+ * of `{pattern, headers, flags?}` objects. The first rule whose regex matches
+ * a request URL supplies its headers. Header values are secrets, so unlike the
+ * other rule parsers the warnings here never include the rule itself.
+ */
+
+import { logger } from '../logger';
+import { matchPatternRule } from './patternRules';
+
+interface RequestHeaderRule {
+    regex: RegExp;
+    headers: Record<string, string>;
+}
+
+/** RFC 9110 token characters. */
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Headers the HTTP client sets itself (message framing and connection
+ * handling). A rule overriding them would break the request, so they are
+ * left out with a warning.
+ */
+const RESERVED_HEADERS = new Set([
+    'connection',
+    'content-length',
+    'expect',
+    'host',
+    'keep-alive',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade',
+]);
+
+function isReservedHeader(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    return RESERVED_HEADERS.has(lowerName) || lowerName.startsWith('proxy-');
+}
+
+/** Single-entry memo so warnings are logged once per setting value, not per request. */
+let headerRulesCache: { raw: string; compiled: RequestHeaderRule[] } | null = null;
+
+function parseHeaders(value: unknown, ruleNumber: number): Record<string, string> | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return null;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, headerValue] of Object.entries(value)) {
+        if (!HEADER_NAME.test(name) || typeof headerValue !== 'string' || /[\r\n]/.test(headerValue)) {
+            return null;
+        }
+        // Header names aren't secret, only their values
+        if (isReservedHeader(name)) {
+            logger.warn(`Ignoring header "${name}" in request header rule ${ruleNumber}: set by the HTTP client.`);
+            continue;
+        }
+        headers[name] = headerValue;
+    }
+    return Object.keys(headers).length > 0 ? headers : null;
+}
+
+function compileRequestHeaderRules(json: string): RequestHeaderRule[] {
+    if (!json.trim()) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        logger.warn('Ignoring request header rules: invalid JSON.');
+        return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+        logger.warn('Ignoring request header rules: expected a JSON array.');
+        return [];
+    }
+
+    const compiled: RequestHeaderRule[] = [];
+    parsed.forEach((entry, index) => {
+        const record = typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>) : null;
+        const headers = parseHeaders(record?.headers, index + 1);
+        if (!record || typeof record.pattern !== 'string' || !headers) {
+            logger.warn(`Skipping request header rule ${index + 1}: needs a "pattern" and valid "headers".`);
+            return;
+        }
+
+        if (record.flags !== undefined && typeof record.flags !== 'string') {
+            logger.warn(`Skipping request header rule ${index + 1}: "flags" must be a string.`);
+            return;
+        }
+
+        try {
+            compiled.push({ regex: new RegExp(record.pattern, record.flags ?? ''), headers });
+        } catch {
+            logger.warn(`Skipping request header rule ${index + 1}: invalid regex.`);
+        }
+    });
+
+    return compiled;
+}
+
+/**
+ * Parses the request header rules setting (memoized). Invalid JSON or invalid
+ * entries are logged (without their values) and skipped.
+ */
+export function parseRequestHeaderRules(json: string): RequestHeaderRule[] {
+    if (headerRulesCache && headerRulesCache.raw === json) {
+        return headerRulesCache.compiled;
+    }
+
+    const compiled = compileRequestHeaderRules(json);
+    headerRulesCache = { raw: json, compiled };
+    return compiled;
+}
+
+/**
+ * Returns the headers of the first rule matching the URL, or null.
+ */
+export function selectRequestHeaders(url: string, rules: RequestHeaderRule[]): Record<string, string> | null {
+    return rules.find((rule) => matchPatternRule(rule, url))?.headers ?? null;
+}
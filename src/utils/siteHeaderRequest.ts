@@ -0,0 +1,132 @@
+/**
+ * Requests that carry per-site headers. The browser `fetch` Joplin plugins get
+ * drops headers such as Cookie and User-Agent and hides the target of a manual
+ * redirect, so these requests go through Node's http/https instead (plugins
+ * run in Electron's Node environment) and follow redirects one hop at a time.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import type { Readable } from 'stream';
+import * as zlib from 'zlib';
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+/** Statuses whose `Response` can't have a body. */
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+export interface SiteHeaderRequestInit {
+    method?: 'GET' | 'HEAD';
+    /** Headers sent to every hop; site headers override them. */
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+}
+
+function sendRequest(
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+): Promise<http.IncomingMessage> {
+    const send = url.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+        const request = send(url, { method, headers, signal }, resolve);
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+function mergeHeaders(base: Record<string, string>, site: Record<string, string> | null): Record<string, string> {
+    const merged: Record<string, string> = {};
+    for (const [name, value] of [...Object.entries(base), ...Object.entries(site ?? {})]) {
+        merged[name.toLowerCase()] = value;
+    }
+    return merged;
+}
+
+/** Decodes a `Content-Encoding` Node's http client leaves as is. */
+function decodeBody(message: http.IncomingMessage): Readable {
+    switch (message.headers['content-encoding']?.trim().toLowerCase()) {
+        case 'gzip':
+        case 'x-gzip':
+            return message.pipe(zlib.createGunzip());
+        case 'deflate':
+            return message.pipe(zlib.createInflate());
+        case 'br':
+            return message.pipe(zlib.createBrotliDecompress());
+        default:
+            return message;
+    }
+}
+
+/**
+ * Wraps a Node response in a `Response` built from the runtime's own
+ * `ReadableStream`, so callers read it like a `fetch` response.
+ */
+function toResponse(message: http.IncomingMessage, url: string, method: string): Response {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(message.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            headers.append(name, item);
+        }
+    }
+
+    const status = message.statusCode ?? 0;
+    let body: ReadableStream<Uint8Array> | null = null;
+    if (method === 'HEAD' || NULL_BODY_STATUSES.has(status)) {
+        message.resume();
+    } else {
+        const source = decodeBody(message);
+        body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                source.on('data', (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)));
+                source.on('end', () => controller.close());
+                source.on('error', (error) => controller.error(error));
+            },
+            cancel() {
+                // Readers stop early (e.g. after the page head); drop the rest
+                source.removeAllListeners('data').removeAllListeners('end');
+                source.destroy();
+                message.destroy();
+            },
+        });
+    }
+
+    const response = new Response(body, { status, statusText: message.statusMessage, headers });
+    // `Response` only takes the URL from `fetch`; callers compare it to spot redirects
+    Object.defineProperty(response, 'url', { value: url });
+    return response;
+}
+
+/**
+ * Requests `url`, following up to 5 redirects. Each hop gets the headers
+ * `selectSiteHeaders` returns for its own URL, so site headers never reach a
+ * host no rule matches. Resolves once the final response's headers arrive.
+ * @throws On network errors, abort, or too many redirects
+ */
+export async function requestWithSiteHeaders(
+    url: string,
+    init: SiteHeaderRequestInit,
+    selectSiteHeaders: (url: string) => Record<string, string> | null
+): Promise<Response> {
+    const method = init.method ?? 'GET';
+    let currentUrl = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+        const headers = mergeHeaders(init.headers ?? {}, selectSiteHeaders(currentUrl.href));
+        const message = await sendRequest(currentUrl, method, headers, init.signal);
+        const location = message.headers.location;
+        if (!REDIRECT_STATUSES.has(message.statusCode ?? 0) || !location) {
+            return toResponse(message, currentUrl.href, method);
+        }
+
+        message.resume();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`Too many redirects for ${url}`);
+        }
+        currentUrl = new URL(location, currentUrl);
+        if (currentUrl.protocol !== 'http:' && currentUrl.protocol !== 'https:') {
+            throw new Error(`Unsupported redirect to ${currentUrl.protocol}`);
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { cleanUpLinkTitle, DEFAULT_TITLE_CLEANUP_RULES, parseTitleCleanupRules } from './titleCleanup';
+
+describe('titleCleanup', () => {
+    describe('default rules', () => {
+        const rules = parseTitleCleanupRules(JSON.stringify(DEFAULT_TITLE_CLEANUP_RULES));
+
+        it.each([
+            ['Fix login bug · Issue #12 · org/repo · GitHub', 'Fix login bug · Issue #12 · org/repo'],
+            ['org/repo: A great library | GitHub', 'org/repo: A great library'],
+            ['Never Gonna Give You Up - YouTube', 'Never Gonna Give You Up'],
+            ['How do I exit Vim? - Stack Overflow', 'How do I exit Vim?'],
+            ['Bash loop syntax - Unix & Linux Stack Exchange', 'Bash loop syntax'],
+            ['Markdown - Wikipedia', 'Markdown'],
+            ['Writing Better Code | by Jane Doe | Medium', 'Writing Better Code'],
+            ['(3) Inbox - Example Mail', 'Inbox - Example Mail'],
+        ])('cleans %j', (title, expected) => {
+            expect(cleanUpLinkTitle(title, rules)).toBe(expected);
+        });
+
+        it('leaves titles without boilerplate untouched', () => {
+            expect(cleanUpLinkTitle('GitHub - The Complete Guide (2nd edition)', rules)).toBe(
+                'GitHub - The Complete Guide (2nd edition)'
+            );
+        });
+    });
+
+    describe('cleanUpLinkTitle', () => {
+        it('applies rules in order with replacements and capture groups', () => {
+            const rules = parseTitleCleanupRules(
+                JSON.stringify([
+                    { pattern: '^\\[(\\w+)\\]\\s*', replacement: '$1: ' },
+                    { pattern: 'foo', replacement: 'bar', flags: 'gi' },
+                ])
+            );
+
+            expect(cleanUpLinkTitle('[News] Foo and foo', rules)).toBe('News: bar and bar');
+        });
+
+        it('keeps the original title if cleanup would empty it', () => {
+            const rules = parseTitleCleanupRules(JSON.stringify([{ pattern: '.*' }]));
+            expect(cleanUpLinkTitle('GitHub', rules)).toBe('GitHub');
+        });
+    });
+
+    describe('parseTitleCleanupRules', () => {
+        it('skips invalid rules and tolerates invalid JSON', () => {
+            const rules = parseTitleCleanupRules(
+                JSON.stringify([
+                    { pattern: '(' },
+                    { replacement: 'x' },
+                    { pattern: 'ok', replacement: 1 },
+                    { pattern: 'a' },
+                ])
+            );
+            expect(rules.map((rule) => rule.regex.source)).toEqual(['a']);
+            expect(parseTitleCleanupRules('{')).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * Cleanup of fetched link titles: site-name suffixes ("| GitHub", "- YouTube"),
+ * notification counts ("(3) "), and similar boilerplate.
+ *
+ * Cleanup rules are a JSON array of `{pattern, replacement?, flags?}` regexes
+ * applied in order to the sanitized title. The default set for common sites is
+ * seeded into the setting so users can edit or extend it.
+ */
+
+import { CompiledPatternRule, compilePatternRules } from './patternRules';
+
+/**
+ * Shipped cleanup rules, used as the setting's default value.
+ * Patterns are anchored so only leading counts and trailing site names go.
+ */
+export const DEFAULT_TITLE_CLEANUP_RULES: ReadonlyArray<{ pattern: string; replacement?: string; flags?: string }> = [
+    // "(3) Inbox", "(12+) Feed"
+    { pattern: '^\\(\\d+\\+?\\)\\s+' },
+    { pattern: '\\s+[|·•\\-–—]\\s+GitHub$' },
+    { pattern: '\\s+-\\s+YouTube$' },
+    { pattern: '\\s+[|·\\-–—]\\s+(?:Stack Overflow|Super User|Server Fault|Ask Ubuntu|[\\w &.]+ Stack Exchange)$' },
+    { pattern: '\\s+-\\s+Wikipedia$' },
+    // "Title | by Author | Medium"
+    { pattern: '\\s+\\|\\s+(?:by [^|]+\\|\\s+)?Medium$' },
+    { pattern: '\\s+[|·\\-–—]\\s+Reddit$', flags: 'i' },
+];
+
+/** Single-entry memo so invalid-rule warnings are logged once per setting value, not per link. */
+let cleanupRulesCache: { raw: string; compiled: CompiledPatternRule<'replacement'>[] } | null = null;
+
+/**
+ * Parses the cleanup rules setting (memoized). A missing `replacement` removes
+ * the match. Invalid JSON or invalid entries are logged and skipped.
+ */
+export function parseTitleCleanupRules(json: string): CompiledPatternRule<'replacement'>[] {
+    if (cleanupRulesCache && cleanupRulesCache.raw === json) {
+        return cleanupRulesCache.compiled;
+    }
+
+    const compiled = compilePatternRules(json, 'replacement', 'title cleanup rule', '');
+    cleanupRulesCache = { raw: json, compiled };
+    return compiled;
+}
+
+/**
+ * Applies the cleanup rules in order. `replacement` may use `$1`-style
+ * references as in `String.prototype.replace`. If cleanup would leave nothing,
+ * the original title is kept.
+ */
+export function cleanUpLinkTitle(title: string, rules: CompiledPatternRule<'replacement'>[]): string {
+    let cleaned = title;
+
+    for (const rule of rules) {
+        rule.regex.lastIndex = 0;
+        cleaned = cleaned.replace(rule.regex, rule.replacement);
+    }
+
+    cleaned = cleaned.replace(/\s{2,}/g, ' ').trim();
+    return cleaned || title;
+}
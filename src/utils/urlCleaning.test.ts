@@ -0,0 +1,52 @@
+import { cleanUrl, DEFAULT_TRACKING_PARAMETERS, parseTrackingParameters } from './urlCleaning';
+
+describe('urlCleaning', () => {
+    const patterns = parseTrackingParameters(DEFAULT_TRACKING_PARAMETERS);
+
+    describe('parseTrackingParameters', () => {
+        it('parses exact names and prefix patterns', () => {
+            expect(parseTrackingParameters(' UTM_*, fbclid ,,')).toEqual([
+                { name: 'utm_', isPrefix: true },
+                { name: 'fbclid', isPrefix: false },
+            ]);
+        });
+    });
+
+    describe('cleanUrl', () => {
+        it('removes tracking parameters and sorts the rest', () => {
+            expect(
+                cleanUrl('https://Example.COM:443/post?utm_source=mail&b=2&FBCLID=x&a=1&utm_Medium=y#top', patterns)
+            ).toBe('https://example.com/post?a=1&b=2#top');
+        });
+
+        it('keeps the order of repeated parameters', () => {
+            expect(cleanUrl('https://example.com/?tag=b&gclid=1&tag=a', patterns)).toBe(
+                'https://example.com/?tag=b&tag=a'
+            );
+        });
+
+        it('drops the query once only tracking parameters were in it', () => {
+            expect(cleanUrl('https://example.com/a?mc_eid=1&mc_cid=2', patterns)).toBe('https://example.com/a');
+        });
+
+        it('keeps a query that needs no change as written', () => {
+            expect(cleanUrl('https://example.com/wiki?edit&q=a%20b', patterns)).toBe(
+                'https://example.com/wiki?edit&q=a%20b'
+            );
+        });
+
+        it('keeps valueless flags and the original escaping of the parameters it keeps', () => {
+            expect(cleanUrl('https://example.com/file?utm_source=x&download', patterns)).toBe(
+                'https://example.com/file?download'
+            );
+            expect(cleanUrl('https://example.com/s?q=a%20b~c&fbclid=1&lang=en+US', patterns)).toBe(
+                'https://example.com/s?lang=en+US&q=a%20b~c'
+            );
+        });
+
+        it('leaves other schemes and invalid URLs alone', () => {
+            expect(cleanUrl('mailto:a@example.com?utm_source=x', patterns)).toBe('mailto:a@example.com?utm_source=x');
+            expect(cleanUrl('not a url', patterns)).toBe('not a url');
+        });
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * "Clean URL": removes tracking query parameters (`utm_*`, `fbclid`, …) and
+ * normalizes what is left, so links pasted from email and social media point
+ * at the plain page.
+ */
+
+/**
+ * Shipped tracking parameter names, serialized as the `trackingParameters`
+ * setting default. A trailing `*` matches any suffix.
+ */
+export const DEFAULT_TRACKING_PARAMETERS = [
+    'utm_*',
+    'fbclid',
+    'gclid',
+    'gclsrc',
+    'dclid',
+    'gbraid',
+    'wbraid',
+    'msclkid',
+    'yclid',
+    'twclid',
+    'ttclid',
+    'igshid',
+    'li_fat_id',
+    'mc_cid',
+    'mc_eid',
+    '_hsenc',
+    '_hsmi',
+    'mkt_tok',
+    'oly_anon_id',
+    'oly_enc_id',
+    'vero_id',
+    '_ga',
+    '_gl',
+    'ref_src',
+].join(', ');
+
+/** A parsed tracking parameter name: exact, or a prefix for `name*` patterns. */
+interface TrackingParameterPattern {
+    name: string;
+    isPrefix: boolean;
+}
+
+/**
+ * Parses the comma-separated `trackingParameters` setting (case-insensitive).
+ */
+export function parseTrackingParameters(setting: string): TrackingParameterPattern[] {
+    return setting
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean)
+        .map((entry) =>
+            entry.endsWith('*') ? { name: entry.slice(0, -1), isPrefix: true } : { name: entry, isPrefix: false }
+        );
+}
+
+function isTrackingParameter(name: string, patterns: TrackingParameterPattern[]): boolean {
+    const lowerName = name.toLowerCase();
+    return patterns.some((pattern) =>
+        pattern.isPrefix ? lowerName.startsWith(pattern.name) : lowerName === pattern.name
+    );
+}
+
+/** Decodes the name of a `name[=value]` query segment the way `URLSearchParams` does. */
+function getParameterName(segment: string): string {
+    return [...new URLSearchParams(segment)][0]?.[0] ?? '';
+}
+
+/**
+ * Removes tracking parameters, sorts the remaining ones by name (keeping the
+ * order of repeated names) and normalizes the URL (lower-case host, default
+ * port dropped). A query that needs no change keeps its original spelling.
+ * Non-HTTP(S) and unparseable URLs are returned unchanged.
+ * @example cleanUrl("https://Example.com/a?utm_source=x&b=2&a=1", patterns) → "https://example.com/a?a=1&b=2"
+ */
+export function cleanUrl(url: string, patterns: TrackingParameterPattern[]): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return url;
+    }
+
+    // Kept parameters are rebuilt from their original `name[=value]` segments,
+    // so valueless flags and the original escaping survive
+    const params = parsed.search
+        .slice(1)
+        .split('&')
+        .filter(Boolean)
+        .map((segment) => ({ name: getParameterName(segment), segment }));
+    const kept = params
+        .filter(({ name }) => !isTrackingParameter(name, patterns))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    const unchanged =
+        kept.length === params.length && kept.every(({ segment }, index) => segment === params[index].segment);
+    if (!unchanged) {
+        parsed.search = kept.map(({ segment }) => segment).join('&');
+    }
+    return parsed.href;
+}
@@ -0,0 +1,17 @@
+import { parseJoplinUrl } from './urlUtils';
+
+describe('parseJoplinUrl', () => {
+    const id = 'c188011f98504be1b60bb72ccd7c2ce5';
+
+    it('parses note, notebook and tag URLs', () => {
+        expect(parseJoplinUrl(`joplin://x-callback-url/openNote?id=${id}`)).toEqual({ command: 'openNote', id });
+        expect(parseJoplinUrl(`joplin://x-callback-url/openFolder?id=${id}`)).toEqual({ command: 'openFolder', id });
+        expect(parseJoplinUrl(`joplin://x-callback-url/opentag?id=${id}&x=1`)).toEqual({ command: 'openTag', id });
+    });
+
+    it('returns null for unsupported URLs', () => {
+        expect(parseJoplinUrl(`joplin://x-callback-url/deleteNote?id=${id}`)).toBeNull();
+        expect(parseJoplinUrl('joplin://x-callback-url/openNote?id=nope')).toBeNull();
+        expect(parseJoplinUrl('joplin://x-callback-url/openNote')).toBeNull();
+    });
+});
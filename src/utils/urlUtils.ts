@@ -10,3 +10,27 @@ export function extractJoplinResourceId(url: string): string {
     // Remove ":/" prefix and any hash fragment
     return url.substring(2).split('#')[0];
 }
+
+/** Joplin commands that a `joplin://x-callback-url/…` link can run. */
+type JoplinUrlCommand = 'openNote' | 'openFolder' | 'openTag';
+
+/**
+ * Parses a Joplin x-callback URL into the command that opens its target
+ * @param url - Joplin URL (format: joplin://x-callback-url/openNote?id=32-hex-id)
+ * @returns The command and item ID, or null if the URL isn't a supported Joplin URL
+ * @example
+ * parseJoplinUrl('joplin://x-callback-url/openFolder?id=c188011f98504be1b60bb72ccd7c2ce5')
+ * // Returns: { command: 'openFolder', id: 'c188011f98504be1b60bb72ccd7c2ce5' }
+ */
+export function parseJoplinUrl(url: string): { command: JoplinUrlCommand; id: string } | null {
+    const match = url.match(/^joplin:\/\/x-callback-url\/(openNote|openFolder|openTag)\?([^#]*)/i);
+    const id = match ? new URLSearchParams(match[2]).get('id') : null;
+    if (!match || !id || !/^[a-f0-9]{32}$/i.test(id)) {
+        return null;
+    }
+
+    const command = (['openNote', 'openFolder', 'openTag'] as const).find(
+        (name) => name.toLowerCase() === match[1].toLowerCase()
+    );
+    return command ? { command, id } : null;
+}
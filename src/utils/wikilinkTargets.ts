@@ -0,0 +1,56 @@
+/**
+ * Resolves wikilinks to Joplin notes by title through `joplin.data`, for
+ * opening them and converting them to `:/id` links.
+ */
+
+import { logger } from '../logger';
+import type { WikilinkInfo } from '../types';
+import { findHeadingAnchorByText } from './headingAnchors';
+import { findNotesByTitle, getNoteBody } from './joplinData';
+
+export interface WikilinkTarget {
+    id: string;
+    title: string;
+    /** Anchor of the linked heading, for `[[Note#Heading]]` */
+    anchor?: string;
+}
+
+/**
+ * Resolves each wikilink to the note with its title (the most recently updated
+ * one if several share it). Each title is looked up once per call.
+ * @returns Targets in wikilink order; null for wikilinks without a matching note
+ */
+export async function resolveWikilinks(wikilinks: WikilinkInfo[]): Promise<Array<WikilinkTarget | null>> {
+    const notesByTitle = new Map<string, Promise<{ id: string; title: string } | null>>();
+    const findNote = (title: string) => {
+        const key = title.toLowerCase();
+        if (!notesByTitle.has(key)) {
+            notesByTitle.set(
+                key,
+                findNotesByTitle(title).then((notes) => {
+                    if (notes.length > 1) {
+                        logger.debug(`${notes.length} notes titled "${title}"; using the most recently updated`);
+                    }
+                    return notes[0] ?? null;
+                })
+            );
+        }
+        return notesByTitle.get(key);
+    };
+
+    const targets: Array<WikilinkTarget | null> = [];
+    for (const wikilink of wikilinks) {
+        const note = await findNote(wikilink.noteTitle);
+        if (!note) {
+            targets.push(null);
+            continue;
+        }
+
+        const body = wikilink.heading ? (await getNoteBody(note.id))?.body : undefined;
+        targets.push({
+            ...note,
+            ...(wikilink.heading ? { anchor: findHeadingAnchorByText(body ?? '', wikilink.heading) } : {}),
+        });
+    }
+    return targets;
+}
@@ -0,0 +1,63 @@
+import type { WikilinkInfo } from '../types';
+import { findWikilinks, formatWikilinkAsJoplinLink } from './wikilinks';
+
+describe('findWikilinks', () => {
+    it('finds wikilinks with headings and aliases, offset by the given position', () => {
+        const text = 'See [[Note]], [[Plan#Next Steps]] and [[ Plan | the plan ]].';
+
+        expect(findWikilinks(text, 10)).toEqual([
+            { noteTitle: 'Note', from: 14, to: 22, expectedText: '[[Note]]' },
+            {
+                noteTitle: 'Plan',
+                heading: 'Next Steps',
+                from: 24,
+                to: 43,
+                expectedText: '[[Plan#Next Steps]]',
+            },
+            {
+                noteTitle: 'Plan',
+                alias: 'the plan',
+                from: 48,
+                to: 69,
+                expectedText: '[[ Plan | the plan ]]',
+            },
+        ]);
+    });
+
+    it('skips embeds, heading-only links and unclosed brackets', () => {
+        expect(findWikilinks('![[image.png]] [[#Heading]] [[Open')).toEqual([]);
+    });
+});
+
+describe('formatWikilinkAsJoplinLink', () => {
+    const wikilink = (fields: Partial<WikilinkInfo>): WikilinkInfo => ({
+        noteTitle: 'Plan',
+        from: 0,
+        to: 0,
+        expectedText: '',
+        ...fields,
+    });
+    const id = '0123456789abcdef0123456789abcdef';
+
+    it('uses the note title as link text', () => {
+        expect(formatWikilinkAsJoplinLink(wikilink({}), { id, title: 'Plan [draft]' })).toBe(
+            `[Plan \\[draft\\]](:/${id})`
+        );
+    });
+
+    it('links to the heading anchor', () => {
+        expect(
+            formatWikilinkAsJoplinLink(wikilink({ heading: 'Next Steps' }), { id, title: 'Plan', anchor: 'next-steps' })
+        ).toBe(`[Next Steps @ Plan](:/${id}#next-steps)`);
+    });
+
+    it('prefers the alias as link text', () => {
+        expect(
+            formatWikilinkAsJoplinLink(wikilink({ heading: 'Next Steps', alias: 'the plan' }), {
+                id,
+                title: 'Plan',
+                anchor: 'next-steps',
+            })
+        ).toBe(`[the plan](:/${id}#next-steps)`);
+    });
+});
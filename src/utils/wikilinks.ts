@@ -0,0 +1,61 @@
+/**
+ * Obsidian-style wikilinks: `[[Note]]`, `[[Note#Heading]]` and `[[Note|alias]]`.
+ * Finding them is pure text scanning, shared by the editor (the markdown
+ * parser doesn't know wikilinks); resolving the note lives in
+ * `wikilinkTargets.ts`.
+ */
+
+import type { WikilinkInfo } from '../types';
+import { escapeLinkText, formatHeadingNoteLabel } from './headingLinkFormatting';
+
+/**
+ * `[[target#heading|alias]]`, not preceded by `!` (an embed). Group 1: note
+ * title, group 2: heading, group 3: alias.
+ */
+const WIKILINK_PATTERN = /(?<!!)\[\[([^[\]|#\n]+)(?:#([^[\]|\n]+))?(?:\|([^[\]\n]+))?\]\]/g;
+
+/**
+ * Finds the wikilinks in a text, in order. Positions are offsets into `text`
+ * plus `offset`. Wikilinks without a note title (`[[#Heading]]`) are skipped.
+ */
+export function findWikilinks(text: string, offset = 0): WikilinkInfo[] {
+    const wikilinks: WikilinkInfo[] = [];
+
+    for (const match of text.matchAll(WIKILINK_PATTERN)) {
+        const [source, rawTitle, rawHeading, rawAlias] = match;
+        const noteTitle = rawTitle.trim();
+        if (!noteTitle) {
+            continue;
+        }
+
+        const from = offset + (match.index ?? 0);
+        const heading = rawHeading?.trim();
+        const alias = rawAlias?.trim();
+        wikilinks.push({
+            noteTitle,
+            ...(heading ? { heading } : {}),
+            ...(alias ? { alias } : {}),
+            from,
+            to: from + source.length,
+            expectedText: source,
+        });
+    }
+
+    return wikilinks;
+}
+
+/**
+ * Builds the Joplin link that replaces a wikilink. The link text is the alias,
+ * or the note title ("Heading @ Note" for links to a heading).
+ * @example formatWikilinkAsJoplinLink({ noteTitle: 'Note', alias: 'see', ... }, { id: 'abc', title: 'Note' })
+ * // => "[see](:/abc)"
+ */
+export function formatWikilinkAsJoplinLink(
+    wikilink: WikilinkInfo,
+    target: { id: string; title: string; anchor?: string }
+): string {
+    const text =
+        wikilink.alias ?? (wikilink.heading ? formatHeadingNoteLabel(wikilink.heading, target.title) : target.title);
+    const hash = target.anchor ? `#${target.anchor}` : '';
+    return `[${escapeLinkText(text)}](:/${target.id}${hash})`;
+}